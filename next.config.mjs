@@ -2,6 +2,10 @@
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
+  experimental: {
+    // Starts the workflow scheduler with the server (src/instrumentation.ts)
+    instrumentationHook: true,
+  },
 };
 
 export default nextConfig; 
\ No newline at end of file
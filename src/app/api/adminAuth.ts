@@ -0,0 +1,55 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_TOKEN_HEADER } from '../utils/apiRequest';
+import { hasRunAccess } from './workflows/serverRuns';
+
+// Routes that manage what the server stores and runs need this token.
+// Without it set they're turned off, since they hand out trigger secrets
+// and run workflows with the server's API keys.
+const ADMIN_TOKEN = process.env.AGENT_LINK_ADMIN_TOKEN;
+
+// Compare in constant time, so the token can't be guessed from timings
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+// The token a request was sent with, from the admin token header or a
+// bearer authorization header
+function getRequestToken(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+  return request.headers.get(ADMIN_TOKEN_HEADER)
+    || (authorization?.toLowerCase().startsWith('bearer ') ? authorization.slice(7).trim() : null);
+}
+
+/**
+ * Check that a request holds the server's admin token, either in the
+ * admin token header or as a bearer token. Returns the response to send
+ * back if it doesn't, or null if it may go ahead.
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  if (!ADMIN_TOKEN) {
+    return NextResponse.json(
+      { error: 'Set AGENT_LINK_ADMIN_TOKEN on the server to use this route' },
+      { status: 403 }
+    );
+  }
+
+  const token = getRequestToken(request);
+  if (!token || !safeEqual(token, ADMIN_TOKEN)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
+
+/**
+ * Like requireAdmin, but the access token handed back when the run was
+ * started will do as well, so whoever started a run through a trigger
+ * can follow it
+ */
+export function requireRunAccess(request: NextRequest, runId: string): NextResponse | null {
+  const token = getRequestToken(request);
+  if (token && hasRunAccess(runId, token)) return null;
+  return requireAdmin(request);
+}
@@ -1,10 +1,32 @@
 import { NextRequest } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
+import { pickRateLimitHeaders } from '../../utils/rateLimitHeaders';
+import { createEventStream } from '../../utils/streaming';
+import { providerErrorResponse } from '../providerErrors';
+import { MAX_OUTPUT_TOKENS } from '../../utils/usage';
+import { JsonSchema } from '../../types/workflow';
+
+// Claude has no JSON mode, but a forced call to a tool takes the schema as
+// its input, so the tool's input is the answer
+const OUTPUT_TOOL = 'respond';
+
+function getOutputTool(schema: JsonSchema | undefined) {
+  // Tool inputs are always objects; other schemas rely on the prompt
+  if (schema?.type !== 'object') return {};
+  return {
+    tools: [{
+      name: OUTPUT_TOOL,
+      description: 'Give your answer in this shape',
+      input_schema: schema as Anthropic.Tool.InputSchema
+    }],
+    tool_choice: { type: 'tool' as const, name: OUTPUT_TOOL }
+  };
+}
 
 export async function POST(request: NextRequest) {
   try {
     console.log('Received request to /api/claude');
-    const { prompt, apiKey, model } = await request.json();
+    const { prompt, apiKey, model, stream, jsonSchema } = await request.json();
 
     if (!apiKey) {
       console.log('API key missing');
@@ -24,16 +46,59 @@ export async function POST(request: NextRequest) {
 
     console.log(`Making request to Claude API with model ${model}...`);
     const anthropic = new Anthropic({ apiKey });
+    const outputTool = getOutputTool(jsonSchema);
+
+    // Timed from here so the client can tell provider latency from its own
+    // network and queueing time
+    const upstreamStartedAt = Date.now();
 
     try {
-      const completion = await anthropic.messages.create({
+      if (stream) {
+        const { data: events, response } = await anthropic.messages.create({
+          model,
+          max_tokens: MAX_OUTPUT_TOKENS,
+          messages: [{ role: 'user', content: prompt }],
+          ...outputTool,
+          stream: true,
+        }, { signal: request.signal }).withResponse();
+
+        return createEventStream(async (send) => {
+          let inputTokens: number | undefined;
+          let outputTokens: number | undefined;
+
+          for await (const event of events) {
+            if (event.type === 'message_start') {
+              inputTokens = event.message.usage.input_tokens;
+            } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+              send({ type: 'delta', text: event.delta.text });
+            } else if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+              send({ type: 'delta', text: event.delta.partial_json });
+            } else if (event.type === 'message_delta') {
+              outputTokens = event.usage.output_tokens;
+            }
+          }
+
+          console.log('Finished streaming response from Claude API');
+          send({
+            type: 'done',
+            usage: { input_tokens: inputTokens, output_tokens: outputTokens },
+            timestamp: new Date().toISOString()
+          });
+        }, upstreamStartedAt, pickRateLimitHeaders(response.headers));
+      }
+
+      const { data: completion, response } = await anthropic.messages.create({
         model,
-        max_tokens: 1024,
+        max_tokens: MAX_OUTPUT_TOKENS,
         messages: [{ role: 'user', content: prompt }],
-      });
+        ...outputTool,
+      }, { signal: request.signal }).withResponse();
 
-      // Ensure we have a text response
-      const responseText = completion.content.find(c => c.type === 'text');
+      // Ensure we have a text response, or the forced tool call's input
+      const toolUse = completion.content.find(c => c.type === 'tool_use');
+      const responseText = toolUse?.type === 'tool_use'
+        ? { type: 'text' as const, text: JSON.stringify(toolUse.input) }
+        : completion.content.find(c => c.type === 'text');
       if (!responseText || responseText.type !== 'text') {
         console.error('Unexpected response type from Claude API:', completion.content);
         throw new Error('Unexpected response type from Claude API');
@@ -48,10 +113,12 @@ export async function POST(request: NextRequest) {
             output_tokens: completion.usage?.output_tokens,
           },
           timestamp: new Date().toISOString(),
+          timing: { latencyMs: Date.now() - upstreamStartedAt },
         }),
         {
           status: 200,
           headers: {
+            ...pickRateLimitHeaders(response.headers),
             'Content-Type': 'application/json',
           },
         }
@@ -62,30 +129,7 @@ export async function POST(request: NextRequest) {
         status: error.status,
         message: error.message
       });
-
-      if (error.status === 401) {
-        return new Response(
-          JSON.stringify({ error: 'Invalid API key' }), 
-          { status: 401 }
-        );
-      }
-      if (error.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }), 
-          { status: 429 }
-        );
-      }
-      if (error.status === 413) {
-        return new Response(
-          JSON.stringify({ error: 'Request too large' }), 
-          { status: 413 }
-        );
-      }
-      
-      return new Response(
-        JSON.stringify({ error: 'Failed to process request' }), 
-        { status: 500 }
-      );
+      return providerErrorResponse(error, request);
     }
   } catch (error) {
     console.error('Route handler error:', error);
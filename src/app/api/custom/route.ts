@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import get from 'lodash.get';
+import { pickRateLimitHeaders } from '../../utils/rateLimitHeaders';
+import { createEventStream, readEventStream } from '../../utils/streaming';
+import { providerErrorResponse } from '../providerErrors';
 
 export interface ProviderConfig {
   endpoint: string;
@@ -10,17 +13,25 @@ export interface ProviderConfig {
   };
   headers?: Record<string, string>;
   responsePath: string;
+  // Path to the text of each chunk when the provider streams OpenAI-style
+  // SSE, e.g. "choices[0].delta.content"
+  streamPath?: string;
   requestTemplate: Record<string, any> | {
     body?: Record<string, any>;
     query?: Record<string, string>;
   };
 }
 
+// A problem with the request or the provider's configuration, which
+// retrying won't fix
+class ConfigError extends Error {}
+
 interface RequestBody {
   prompt: string;
   apiKey: string;
   model: string;
   providerConfig: ProviderConfig;
+  stream?: boolean;
 }
 
 /**
@@ -60,7 +71,12 @@ function buildRequestUrl(
   auth: ProviderConfig['auth'],
   apiKey: string
 ): string {
-  const url = new URL(baseUrl);
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    throw new ConfigError(`Invalid endpoint URL: ${baseUrl}`);
+  }
 
   // Add configured query parameters
   Object.entries(queryParams).forEach(([key, value]) => {
@@ -101,18 +117,20 @@ function buildRequestHeaders(
 export async function POST(request: NextRequest) {
   console.log('Received custom LLM provider request');
   try {
-    const body: RequestBody = await request.json();
-    const { prompt, apiKey, model, providerConfig } = body;
+    const body: RequestBody = await request.json().catch(() => {
+      throw new ConfigError('Request body must be JSON');
+    });
+    const { prompt, apiKey, model, providerConfig, stream } = body;
 
     // Validate required fields
-    if (!prompt) throw new Error('Prompt is required');
-    if (!apiKey) throw new Error('API key is required');
-    if (!model) throw new Error('Model is required');
-    if (!providerConfig) throw new Error('Provider configuration is required');
-    if (!providerConfig.endpoint) throw new Error('Provider endpoint is required');
-    if (!providerConfig.auth) throw new Error('Provider authentication is required');
-    if (!providerConfig.responsePath) throw new Error('Response path is required');
-    if (!providerConfig.requestTemplate) throw new Error('Request template is required');
+    if (!prompt) throw new ConfigError('Prompt is required');
+    if (!apiKey) throw new ConfigError('API key is required');
+    if (!model) throw new ConfigError('Model is required');
+    if (!providerConfig) throw new ConfigError('Provider configuration is required');
+    if (!providerConfig.endpoint) throw new ConfigError('Provider endpoint is required');
+    if (!providerConfig.auth) throw new ConfigError('Provider authentication is required');
+    if (!providerConfig.responsePath) throw new ConfigError('Response path is required');
+    if (!providerConfig.requestTemplate) throw new ConfigError('Request template is required');
 
     // Variables available for template replacement
     const templateVars = {
@@ -148,11 +166,16 @@ export async function POST(request: NextRequest) {
     });
     console.log('With body:', requestBody);
 
-    // Make request to provider
+    // Only ask the provider to stream when we know where each chunk's text is
+    const streamUpstream = !!stream && !!providerConfig.streamPath;
+
+    // Make request to provider, aborting it if the client cancels
+    const upstreamStartedAt = Date.now();
     const response = await fetch(url, {
       method: providerConfig.method || 'POST',
       headers,
-      body: JSON.stringify(requestBody)
+      body: JSON.stringify(streamUpstream ? { ...requestBody, stream: true } : requestBody),
+      signal: request.signal
     });
 
     if (!response.ok) {
@@ -163,26 +186,55 @@ export async function POST(request: NextRequest) {
       const errorMessage = errorData?.error?.message || 
                          errorData?.message || 
                          `Provider API error: ${response.status} ${response.statusText}`;
-      throw new Error(errorMessage);
+
+      return providerErrorResponse(
+        { status: response.status, message: errorMessage },
+        request,
+        pickRateLimitHeaders(response.headers)
+      );
+    }
+
+    // Pass the provider's rate limits on so the client can pace its requests
+    const rateLimitHeaders = pickRateLimitHeaders(response.headers);
+
+    if (streamUpstream && response.body) {
+      const upstream = response.body;
+      return createEventStream(async (send) => {
+        for await (const data of readEventStream(upstream)) {
+          if (data === '[DONE]') break;
+          const text = get(JSON.parse(data), providerConfig.streamPath!);
+          if (typeof text === 'string' && text) send({ type: 'delta', text });
+        }
+        send({ type: 'done', timestamp: new Date().toISOString() });
+      }, upstreamStartedAt, rateLimitHeaders);
     }
 
     const responseData = await response.json();
+    const timing = { latencyMs: Date.now() - upstreamStartedAt };
     console.log('Provider API response:', responseData);
 
     // Extract response using the specified path
     const result = get(responseData, providerConfig.responsePath);
     if (result === undefined) {
-      throw new Error(`Could not find response at path: ${providerConfig.responsePath}`);
+      throw new ConfigError(`Could not find response at path: ${providerConfig.responsePath}`);
     }
 
-    return NextResponse.json({ response: result });
+    // The provider can't stream, so send the whole response as one chunk
+    if (stream) {
+      return createEventStream(async (send) => {
+        send({ type: 'delta', text: String(result) });
+        send({ type: 'done', timestamp: new Date().toISOString(), timing });
+      }, undefined, rateLimitHeaders);
+    }
+
+    return NextResponse.json({ response: result, timing }, { headers: rateLimitHeaders });
 
   } catch (error) {
     console.error('Error in custom provider route:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : String(error) },
-      { status: 500 }
-    );
+    if (error instanceof ConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return providerErrorResponse(error, request);
   }
 }
 
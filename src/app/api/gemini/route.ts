@@ -1,10 +1,67 @@
 import { NextRequest } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenerativeAI, ErrorDetails, ResponseSchema, SchemaType } from '@google/generative-ai';
+import { parseDuration } from '../../utils/rateLimitHeaders';
+import { createEventStream } from '../../utils/streaming';
+import { providerErrorResponse } from '../providerErrors';
+import { MAX_OUTPUT_TOKENS } from '../../utils/usage';
+import { JsonSchema } from '../../types/workflow';
+
+/**
+ * The Gemini SDK doesn't expose response headers, but a rate-limited
+ * response carries a RetryInfo detail; turn it into a Retry-After header
+ */
+function getRetryHeaders(error: { errorDetails?: ErrorDetails[] }): Record<string, string> {
+  const retryInfo = error.errorDetails?.find(d => d['@type']?.endsWith('google.rpc.RetryInfo'));
+  const delay = typeof retryInfo?.retryDelay === 'string' ? parseDuration(retryInfo.retryDelay) : undefined;
+  return delay !== undefined ? { 'retry-after': String(Math.ceil(delay / 1000)) } : {};
+}
+
+/**
+ * Gemini takes its response schema in a subset of OpenAPI. Returns
+ * undefined for schemas it can't express, which then rely on the prompt.
+ */
+function toResponseSchema(schema: JsonSchema): ResponseSchema | undefined {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const [type, ...otherTypes] = types.filter(t => t !== 'null');
+  if (!type || otherTypes.length > 0 || schema.anyOf) return undefined;
+
+  const base = {
+    ...(schema.description && { description: schema.description }),
+    ...(types.includes('null') && { nullable: true })
+  };
+  switch (type) {
+    case 'object': {
+      const properties = Object.entries(schema.properties || {}).map(([key, value]) => [key, toResponseSchema(value)]);
+      if (properties.length === 0 || properties.some(([, value]) => !value)) return undefined;
+      return {
+        ...base,
+        type: SchemaType.OBJECT,
+        properties: Object.fromEntries(properties),
+        ...(schema.required && { required: schema.required })
+      };
+    }
+    case 'array': {
+      const items = schema.items && toResponseSchema(schema.items);
+      if (!items) return undefined;
+      return { ...base, type: SchemaType.ARRAY, items, minItems: schema.minItems, maxItems: schema.maxItems };
+    }
+    case 'string':
+      return schema.enum?.every(option => typeof option === 'string')
+        ? { ...base, type: SchemaType.STRING, format: 'enum', enum: schema.enum as string[] }
+        : { ...base, type: SchemaType.STRING };
+    case 'integer':
+      return { ...base, type: SchemaType.INTEGER };
+    case 'number':
+      return { ...base, type: SchemaType.NUMBER };
+    case 'boolean':
+      return { ...base, type: SchemaType.BOOLEAN };
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
     console.log('Received request to /api/gemini');
-    const { prompt, apiKey, model } = await request.json();
+    const { prompt, apiKey, model, stream, jsonSchema } = await request.json();
 
     if (!apiKey) {
       console.log('API key missing');
@@ -27,10 +84,43 @@ export async function POST(request: NextRequest) {
 
     console.log(`Making request to Google AI API with model ${model}...`);
     const genAI = new GoogleGenerativeAI(apiKey);
-    const modelInstance = genAI.getGenerativeModel({ model });
+    const responseSchema = jsonSchema && toResponseSchema(jsonSchema);
+    const modelInstance = genAI.getGenerativeModel({
+      model,
+      generationConfig: {
+        maxOutputTokens: MAX_OUTPUT_TOKENS,
+        ...(jsonSchema && { responseMimeType: 'application/json', ...(responseSchema && { responseSchema }) })
+      }
+    });
+
+    const upstreamStartedAt = Date.now();
 
     try {
-      const result = await modelInstance.generateContent(prompt);
+      if (stream) {
+        const streamResult = await modelInstance.generateContentStream(prompt, { signal: request.signal });
+
+        return createEventStream(async (send) => {
+          let text = '';
+          for await (const chunk of streamResult.stream) {
+            const chunkText = chunk.text();
+            text += chunkText;
+            if (chunkText) send({ type: 'delta', text: chunkText });
+          }
+
+          console.log('Finished streaming response from Google AI API');
+          send({
+            type: 'done',
+            usage: {
+              // Note: Gemini doesn't provide token counts directly
+              input_tokens: Math.ceil(prompt.length / 4),
+              output_tokens: Math.ceil(text.length / 4)
+            },
+            timestamp: new Date().toISOString()
+          });
+        }, upstreamStartedAt);
+      }
+
+      const result = await modelInstance.generateContent(prompt, { signal: request.signal });
       const response = await result.response;
       const text = response.text();
 
@@ -44,6 +134,7 @@ export async function POST(request: NextRequest) {
             output_tokens: Math.ceil(text.length / 4)
           },
           timestamp: new Date().toISOString(),
+          timing: { latencyMs: Date.now() - upstreamStartedAt },
         }),
         {
           status: 200,
@@ -53,31 +144,7 @@ export async function POST(request: NextRequest) {
 
     } catch (error: any) {
       console.error('Google AI API error:', error);
-
-      // Handle specific API errors
-      if (error.status === 401) {
-        return new Response(
-          JSON.stringify({ error: 'Invalid API key' }),
-          { status: 401 }
-        );
-      }
-      if (error.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429 }
-        );
-      }
-      if (error.status === 413) {
-        return new Response(
-          JSON.stringify({ error: 'Request too large' }),
-          { status: 413 }
-        );
-      }
-
-      return new Response(
-        JSON.stringify({ error: error.message || 'Failed to process request' }),
-        { status: 500 }
-      );
+      return providerErrorResponse(error, request, getRetryHeaders(error));
     }
   } catch (error) {
     console.error('Route handler error:', error);
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseRunRequest } from '../../workflows/serverRuns';
+import { getStoredTrigger, getTriggerInputs, isAuthorized, parseWebhookBody, startTriggerRun } from '../../triggers/triggerStore';
+
+interface RouteContext {
+  params: { triggerId: string };
+}
+
+/**
+ * Start a trigger's workflow with inputs taken from the request body.
+ * Responds straight away with the run's ID and a token to follow it
+ * with; the output goes to the trigger's callback URL once the run
+ * finishes.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const trigger = await getStoredTrigger(params.triggerId);
+  const rawBody = await request.text();
+  // Unknown triggers and bad secrets get the same answer, so trigger IDs
+  // can't be discovered
+  if (!trigger || !isAuthorized(trigger, rawBody, request.headers)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let prepared: ReturnType<typeof parseRunRequest>;
+  try {
+    prepared = parseRunRequest({
+      modules: trigger.modules,
+      params: trigger.params,
+      ...getTriggerInputs(trigger, parseWebhookBody(rawBody, request.headers.get('content-type')))
+    });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  const run = startTriggerRun(trigger, prepared.modules, prepared.input);
+  console.log(`Trigger ${trigger.id} started server run ${run.runId}`);
+
+  return NextResponse.json({
+    runId: run.runId,
+    status: run.status,
+    accessToken: run.accessToken,
+    statusUrl: `/api/workflows/run/${run.runId}`,
+    eventsUrl: `/api/workflows/run/${run.runId}/events`
+  }, { status: 202 });
+}
@@ -1,10 +1,46 @@
 import { NextRequest } from 'next/server';
 import OpenAI from 'openai';
+import { pickRateLimitHeaders } from '../../utils/rateLimitHeaders';
+import { createEventStream } from '../../utils/streaming';
+import { providerErrorResponse } from '../providerErrors';
+import { MAX_OUTPUT_TOKENS } from '../../utils/usage';
+import { JsonSchema } from '../../types/workflow';
+
+// Models that can be held to a JSON Schema. Older ones only promise valid
+// JSON, and the prompt asks for the rest.
+const STRUCTURED_OUTPUT_MODELS = /^gpt-(?:4o|4\.1|5)/;
+
+// Strict mode holds the model to the schema exactly, but only takes an
+// object schema in which every object requires all its properties and
+// allows no others, using none of the length, range or pattern keywords.
+// Other schemas are sent without it; the engine validates every answer
+// and asks for a fix either way.
+const STRICT_KEYWORDS = new Set(['type', 'description', 'properties', 'required', 'additionalProperties', 'items', 'enum', 'const', 'anyOf']);
+
+function isStrictSchema(schema: JsonSchema): boolean {
+  if (Object.keys(schema).some(keyword => !STRICT_KEYWORDS.has(keyword))) return false;
+  if (schema.properties || schema.type === 'object') {
+    const keys = Object.keys(schema.properties || {});
+    if (schema.additionalProperties !== false || !keys.every(key => schema.required?.includes(key))) return false;
+  }
+  return [...Object.values(schema.properties || {}), ...(schema.items ? [schema.items] : []), ...(schema.anyOf || [])]
+    .every(isStrictSchema);
+}
+
+function getResponseFormat(model: string, schema: JsonSchema | undefined) {
+  if (!schema) return undefined;
+  if (STRUCTURED_OUTPUT_MODELS.test(model)) {
+    const strict = schema.type === 'object' && isStrictSchema(schema);
+    return { type: 'json_schema' as const, json_schema: { name: 'output', schema, strict } };
+  }
+  // JSON mode always answers with an object
+  return schema.type === 'object' ? { type: 'json_object' as const } : undefined;
+}
 
 export async function POST(request: NextRequest) {
   try {
     console.log('Received request to /api/openai');
-    const { prompt, apiKey, model } = await request.json();
+    const { prompt, apiKey, model, stream, jsonSchema } = await request.json();
 
     if (!apiKey) {
       console.log('API key missing');
@@ -27,13 +63,47 @@ export async function POST(request: NextRequest) {
 
     console.log(`Making request to OpenAI API with model ${model}...`);
     const openai = new OpenAI({ apiKey });
+    const responseFormat = getResponseFormat(model, jsonSchema);
+
+    const upstreamStartedAt = Date.now();
 
     try {
-      const completion = await openai.chat.completions.create({
+      if (stream) {
+        const { data: chunks, response } = await openai.chat.completions.create({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          max_tokens: MAX_OUTPUT_TOKENS,
+          ...(responseFormat && { response_format: responseFormat }),
+          stream: true,
+          stream_options: { include_usage: true },
+        }, { signal: request.signal }).withResponse();
+
+        return createEventStream(async (send) => {
+          let usage: { input_tokens?: number; output_tokens?: number } | undefined;
+
+          for await (const chunk of chunks) {
+            const text = chunk.choices[0]?.delta?.content;
+            if (text) send({ type: 'delta', text });
+            // The last chunk carries usage for the whole completion
+            if (chunk.usage) {
+              usage = {
+                input_tokens: chunk.usage.prompt_tokens,
+                output_tokens: chunk.usage.completion_tokens,
+              };
+            }
+          }
+
+          console.log('Finished streaming response from OpenAI API');
+          send({ type: 'done', usage, timestamp: new Date().toISOString() });
+        }, upstreamStartedAt, pickRateLimitHeaders(response.headers));
+      }
+
+      const { data: completion, response } = await openai.chat.completions.create({
         model,
         messages: [{ role: 'user', content: prompt }],
-        max_tokens: 1024,
-      });
+        max_tokens: MAX_OUTPUT_TOKENS,
+        ...(responseFormat && { response_format: responseFormat }),
+      }, { signal: request.signal }).withResponse();
 
       console.log('Received response from OpenAI API');
       return new Response(
@@ -44,39 +114,16 @@ export async function POST(request: NextRequest) {
             output_tokens: completion.usage?.completion_tokens,
           },
           timestamp: new Date().toISOString(),
+          timing: { latencyMs: Date.now() - upstreamStartedAt },
         }),
         {
           status: 200,
-          headers: { 'Content-Type': 'application/json' }
+          headers: { ...pickRateLimitHeaders(response.headers), 'Content-Type': 'application/json' }
         }
       );
     } catch (error: any) {
       console.error('OpenAI API error:', error);
-
-      // Handle specific API errors
-      if (error.status === 401) {
-        return new Response(
-          JSON.stringify({ error: 'Invalid API key' }), 
-          { status: 401 }
-        );
-      }
-      if (error.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }), 
-          { status: 429 }
-        );
-      }
-      if (error.status === 413) {
-        return new Response(
-          JSON.stringify({ error: 'Request too large' }), 
-          { status: 413 }
-        );
-      }
-      
-      return new Response(
-        JSON.stringify({ error: error.message || 'Failed to process request' }), 
-        { status: 500 }
-      );
+      return providerErrorResponse(error, request);
     }
   } catch (error) {
     console.error('Route handler error:', error);
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { pickRateLimitHeaders } from '../utils/rateLimitHeaders';
+
+const errorResponse = (error: string, status: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify({ error }), { status, headers });
+
+/**
+ * Turn a failed call to a provider into the route's response. The client
+ * decides what to retry or hand to a fallback model from the status, so
+ * the provider's own is passed on: 429 and 5xx can be retried, while other
+ * 4xx, such as a bad key or request, can't be fixed that way. Retry-After
+ * and rate-limit headers go along so the client knows how long to wait.
+ * Errors without a status, where the provider never answered or its answer
+ * couldn't be used, are a 502.
+ */
+export function providerErrorResponse(
+  error: any,
+  request: NextRequest,
+  headers: Record<string, string> = pickRateLimitHeaders(error?.headers)
+): Response {
+  // The client stopped the workflow. Routes pass the request's signal on
+  // to the provider, so the upstream request was aborted too.
+  if (request.signal.aborted) {
+    console.log('Request cancelled by client');
+    return errorResponse('Request cancelled', 499);
+  }
+
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  if (status === 401) return errorResponse('Invalid API key', 401);
+  if (status === 429) return errorResponse('Rate limit exceeded. Please try again later.', 429, headers);
+  if (status === 413) return errorResponse('Request too large', 413);
+  if (status !== undefined && status >= 400 && status < 600) {
+    return errorResponse(error.message || 'Provider request failed', status, headers);
+  }
+  return errorResponse(error?.message || 'Provider is unavailable', 502);
+}
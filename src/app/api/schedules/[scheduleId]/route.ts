@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ScheduleSettings } from '../../../utils/schedules';
+import { requireAdmin } from '../../adminAuth';
+import { deleteSchedule, updateSchedule } from '../scheduleStore';
+
+interface RouteContext {
+  params: { scheduleId: string };
+}
+
+// Change a schedule's settings, or pause and resume it with `paused`
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  let settings: Partial<ScheduleSettings>;
+  try {
+    settings = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const schedule = await updateSchedule(params.scheduleId, settings);
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+    return NextResponse.json(schedule);
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  if (!await deleteSchedule(params.scheduleId)) {
+    return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+  }
+  return NextResponse.json({ deleted: true });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ScheduleSettings } from '../../utils/schedules';
+import { requireAdmin } from '../adminAuth';
+import { createSchedule, listScheduledRuns, listSchedules } from './scheduleStore';
+import { startScheduler } from './scheduler';
+
+// Schedules change between requests, so the list is never cached
+export const dynamic = 'force-dynamic';
+
+// Every schedule with its upcoming times, and the times schedules came due
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  // In case the server was started without the instrumentation hook
+  startScheduler();
+  const [schedules, runs] = await Promise.all([listSchedules(), listScheduledRuns()]);
+  return NextResponse.json({ schedules, runs });
+}
+
+// Save a workflow to run on a cron schedule with fixed inputs
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  let settings: ScheduleSettings;
+  try {
+    settings = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const schedule = await createSchedule(settings);
+    startScheduler();
+    return NextResponse.json(schedule, { status: 201 });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+}
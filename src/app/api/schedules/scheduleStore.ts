@@ -0,0 +1,278 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getNextCronTime, getUpcomingCronTimes, parseCron } from '../../utils/cron';
+import { getWorkflowId } from '../../utils/runHistory';
+import { ScheduleSettings, ScheduledRun, WorkflowSchedule } from '../../utils/schedules';
+import { isWorkflowRunning, parseRunRequest } from '../workflows/serverRuns';
+import { pickFields, readJson, startRecordedRun, updateJson, validateSavedWorkflow } from '../serverData';
+
+interface StoredSchedule extends Omit<WorkflowSchedule, 'hasApiKeys' | 'upcoming'> {
+  apiKeys?: ScheduleSettings['apiKeys'];
+  customProviders?: ScheduleSettings['customProviders'];
+  // Times up to here have been run or skipped
+  checkedUntil: number;
+}
+
+const SCHEDULES_FILE = 'schedules.json';
+const SCHEDULED_RUNS_FILE = 'scheduled-runs.json';
+
+const SETTINGS_FIELDS: (keyof ScheduleSettings)[] = [
+  'name', 'modules', 'params', 'inputs', 'input', 'cron', 'missedRunPolicy', 'paused', 'apiKeys', 'customProviders'
+];
+
+const MAX_SCHEDULED_RUNS = 500;
+const UPCOMING_COUNT = 5;
+
+// A time found this long after it came due was missed, e.g. while the
+// server was down, rather than picked up by the regular check
+const MISSED_AFTER_MS = 2 * 60 * 1000;
+
+// Missed times further back than this are forgotten
+const MAX_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+function toWorkflowSchedule({ apiKeys, customProviders, checkedUntil, ...schedule }: StoredSchedule): WorkflowSchedule {
+  return {
+    ...schedule,
+    hasApiKeys: Object.values(apiKeys || {}).some(Boolean),
+    upcoming: schedule.paused
+      ? []
+      : getUpcomingCronTimes(parseCron(schedule.cron), new Date(), UPCOMING_COUNT).map(d => d.getTime())
+  };
+}
+
+/**
+ * Check a schedule's settings before saving them, throwing if they can't be
+ * used. Only the fields present are checked.
+ */
+function validateSettings(settings: Partial<ScheduleSettings>) {
+  if (settings.name !== undefined && !settings.name.trim()) {
+    throw new Error('Name is required');
+  }
+  validateSavedWorkflow(settings);
+  if (settings.cron !== undefined) {
+    try {
+      parseCron(settings.cron);
+    } catch (error) {
+      throw new Error(`Invalid cron expression: ${(error as Error).message}`);
+    }
+  }
+  if (settings.missedRunPolicy !== undefined && !['catch-up', 'skip'].includes(settings.missedRunPolicy)) {
+    throw new Error('missedRunPolicy must be "catch-up" or "skip"');
+  }
+}
+
+// Make sure the fixed inputs suit the workflow's parameters
+function validateInputs(schedule: Pick<StoredSchedule, 'modules' | 'params' | 'inputs' | 'input'>) {
+  parseRunRequest({ modules: schedule.modules, params: schedule.params, inputs: schedule.inputs, input: schedule.input });
+}
+
+export async function listSchedules(): Promise<WorkflowSchedule[]> {
+  const schedules = await readJson<StoredSchedule[]>(SCHEDULES_FILE, []);
+  return schedules.map(toWorkflowSchedule);
+}
+
+/**
+ * The times schedules came due, newest first
+ */
+export async function listScheduledRuns(limit = 50): Promise<ScheduledRun[]> {
+  const runs = await readJson<ScheduledRun[]>(SCHEDULED_RUNS_FILE, []);
+  return runs.slice(-limit).reverse();
+}
+
+export async function createSchedule(settings: ScheduleSettings): Promise<WorkflowSchedule> {
+  // Settings come from a request body, so required fields may be missing
+  const complete = {
+    ...settings,
+    name: settings.name || '',
+    modules: settings.modules || [],
+    params: settings.params || [],
+    cron: settings.cron || ''
+  };
+  validateSettings(complete);
+
+  const now = Date.now();
+  const schedule: StoredSchedule = {
+    id: uuidv4(),
+    name: complete.name.trim(),
+    modules: complete.modules,
+    params: complete.params,
+    inputs: complete.inputs || {},
+    input: complete.input || '',
+    cron: complete.cron.trim(),
+    missedRunPolicy: complete.missedRunPolicy || 'skip',
+    paused: !!complete.paused,
+    ...(complete.apiKeys && { apiKeys: complete.apiKeys }),
+    ...(complete.customProviders && { customProviders: complete.customProviders }),
+    createdAt: now,
+    checkedUntil: now
+  };
+  validateInputs(schedule);
+
+  await updateJson<StoredSchedule[], void>(SCHEDULES_FILE, [], schedules => ({
+    data: [...schedules, schedule],
+    result: undefined
+  }));
+  return toWorkflowSchedule(schedule);
+}
+
+/**
+ * Change a schedule's settings. Resolves with undefined if there is no
+ * such schedule.
+ */
+export function updateSchedule(id: string, body: Partial<ScheduleSettings>): Promise<WorkflowSchedule | undefined> {
+  const settings = pickFields(body, SETTINGS_FIELDS);
+  validateSettings(settings);
+  return updateJson<StoredSchedule[], WorkflowSchedule | undefined>(SCHEDULES_FILE, [], schedules => {
+    const existing = schedules.find(s => s.id === id);
+    if (!existing) return { data: schedules, result: undefined };
+
+    const updated: StoredSchedule = {
+      ...existing,
+      ...settings,
+      ...(settings.name !== undefined && { name: settings.name.trim() }),
+      ...(settings.cron !== undefined && { cron: settings.cron.trim() })
+    };
+    validateInputs(updated);
+    // Times that passed while paused, or under the old expression, aren't
+    // caught up
+    if ((existing.paused && !updated.paused) || updated.cron !== existing.cron) {
+      updated.checkedUntil = Date.now();
+    }
+    return { data: schedules.map(s => s.id === id ? updated : s), result: toWorkflowSchedule(updated) };
+  });
+}
+
+export function deleteSchedule(id: string): Promise<boolean> {
+  return updateJson<StoredSchedule[], boolean>(SCHEDULES_FILE, [], schedules => ({
+    data: schedules.filter(s => s.id !== id),
+    result: schedules.some(s => s.id === id)
+  }));
+}
+
+function saveScheduledRun(run: ScheduledRun): Promise<void> {
+  return updateJson<ScheduledRun[], void>(SCHEDULED_RUNS_FILE, [], runs => ({
+    data: [...runs.filter(r => r.id !== run.id), run].slice(-MAX_SCHEDULED_RUNS),
+    result: undefined
+  }));
+}
+
+// A schedule that came due, and the time to run it for
+interface DueRun {
+  schedule: StoredSchedule;
+  scheduledFor: number;
+  note?: string;
+  // Earlier times that won't be run
+  skipped: number[];
+}
+
+/**
+ * Work out which times have come due since the schedule was last checked,
+ * following its policy for times that were missed
+ */
+function getDueRun(schedule: StoredSchedule, now: number): DueRun | null {
+  const cron = parseCron(schedule.cron);
+  const due: number[] = [];
+  const from = Math.max(schedule.checkedUntil, now - MAX_LOOKBACK_MS);
+  for (let next = getNextCronTime(cron, new Date(from)); next && next.getTime() <= now;) {
+    due.push(next.getTime());
+    next = getNextCronTime(cron, next);
+  }
+  if (due.length === 0) return null;
+
+  const latest = due[due.length - 1];
+  const earlier = due.slice(0, -1);
+  if (now - latest <= MISSED_AFTER_MS) {
+    return { schedule, scheduledFor: latest, skipped: earlier };
+  }
+  if (schedule.missedRunPolicy === 'catch-up') {
+    return { schedule, scheduledFor: latest, note: 'Caught up after being missed', skipped: earlier };
+  }
+  return { schedule, scheduledFor: -1, skipped: due };
+}
+
+function startScheduledRun({ schedule, scheduledFor, note }: DueRun) {
+  const entry: ScheduledRun = {
+    id: uuidv4(),
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    scheduledFor,
+    status: 'running',
+    ...(note && { note })
+  };
+  const record = (run: ScheduledRun) =>
+    saveScheduledRun(run).catch(error => console.error('Failed to save scheduled run:', error));
+
+  // A workflow never has two runs on the server at once, whether the one
+  // still going was started by a schedule, a trigger or the run route
+  if (isWorkflowRunning(getWorkflowId(schedule.modules))) {
+    record({ ...entry, status: 'skipped', note: 'The previous run of this workflow was still going' });
+    return;
+  }
+
+  let prepared: ReturnType<typeof parseRunRequest>;
+  try {
+    prepared = parseRunRequest(schedule);
+  } catch (error) {
+    record({ ...entry, status: 'failed', error: (error as Error).message });
+    return;
+  }
+
+  const startedAt = Date.now();
+  const run = startRecordedRun(prepared.modules, schedule.params, prepared.input, { type: 'schedule', id: schedule.id, name: schedule.name }, {
+    apiKeys: schedule.apiKeys,
+    customProviders: schedule.customProviders,
+    onFinish: finished => {
+      record({
+        ...entry,
+        runId: finished.runId,
+        startedAt,
+        completedAt: Date.now(),
+        status: finished.status === 'running' ? 'failed' : finished.status,
+        ...(finished.error && { error: finished.error })
+      });
+    }
+  });
+  record({ ...entry, runId: run.runId, startedAt });
+  console.log(`Schedule ${schedule.id} started server run ${run.runId}`);
+}
+
+/**
+ * Start the runs of every schedule that has come due, and note the times
+ * that were skipped. Called by the scheduler every so often.
+ */
+export async function runDueSchedules(now = Date.now()): Promise<void> {
+  const dueRuns = await updateJson<StoredSchedule[], DueRun[]>(SCHEDULES_FILE, [], schedules => {
+    const due: DueRun[] = [];
+    schedules.forEach(schedule => {
+      if (schedule.paused) return;
+      try {
+        const dueRun = getDueRun(schedule, now);
+        if (dueRun) due.push(dueRun);
+      } catch (error) {
+        console.error(`Schedule ${schedule.id} could not be checked:`, error);
+      }
+    });
+    return {
+      data: due.length > 0
+        ? schedules.map(s => due.some(d => d.schedule.id === s.id) ? { ...s, checkedUntil: now } : s)
+        : schedules,
+      result: due
+    };
+  });
+
+  dueRuns.forEach(dueRun => {
+    const { schedule, scheduledFor, skipped } = dueRun;
+    if (skipped.length > 0) {
+      saveScheduledRun({
+        id: uuidv4(),
+        scheduleId: schedule.id,
+        scheduleName: schedule.name,
+        scheduledFor: skipped[skipped.length - 1],
+        status: 'skipped',
+        note: skipped.length === 1
+          ? 'Missed while the server was down'
+          : `${skipped.length} runs missed while the server was down, from ${new Date(skipped[0]).toISOString()}`
+      }).catch(error => console.error('Failed to save scheduled run:', error));
+    }
+    if (scheduledFor >= 0) startScheduledRun(dueRun);
+  });
+}
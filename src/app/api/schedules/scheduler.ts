@@ -0,0 +1,34 @@
+import { runDueSchedules } from './scheduleStore';
+
+// Cron times are to the minute; checking twice a minute starts runs within
+// 30 seconds of their time
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// Kept on globalThis so the scheduler starts once however many bundles
+// import it
+const globalForScheduler = globalThis as typeof globalThis & { schedulerTimer?: ReturnType<typeof setInterval> };
+
+/**
+ * Start checking for schedules that have come due. Safe to call more than
+ * once.
+ */
+export function startScheduler() {
+  if (globalForScheduler.schedulerTimer) return;
+
+  let isChecking = false;
+  const check = () => {
+    // A slow check is left to finish rather than overlapped
+    if (isChecking) return;
+    isChecking = true;
+    runDueSchedules()
+      .catch(error => console.error('Failed to check schedules:', error))
+      .finally(() => {
+        isChecking = false;
+      });
+  };
+
+  globalForScheduler.schedulerTimer = setInterval(check, CHECK_INTERVAL_MS);
+  globalForScheduler.schedulerTimer.unref?.();
+  check();
+  console.log('Workflow scheduler started');
+}
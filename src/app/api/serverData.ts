@@ -0,0 +1,136 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { WorkflowModuleData, WorkflowParam } from '../types/workflow';
+import { CustomProvider } from '../utils/customProviders';
+import { RunRecord, RunSource, createRunRecord } from '../utils/runHistory';
+import { topologicalSort } from '../utils/workflowGraph';
+import { validateParams } from '../utils/workflowParams';
+import { WorkflowRunInput } from '../utils/workflowEngine';
+import { ServerRunOptions, StartedServerRun, checkCustomProviders, startServerRun } from './workflows/serverRuns';
+
+// Triggers, schedules and the runs they start are kept as JSON files in
+// this directory
+const DATA_DIR = process.env.AGENT_LINK_DATA_DIR || join(process.cwd(), '.agent-link');
+const RUNS_FILE = 'runs.json';
+
+// Runs are kept on the server until the browser's history picks them up;
+// only the most recent are kept
+const MAX_STORED_RUNS = 200;
+
+// Writes are queued so concurrent requests don't overwrite each other's
+// changes. Kept on globalThis so every route shares the queue.
+const globalForData = globalThis as typeof globalThis & { dataWrites?: Promise<unknown> };
+
+export async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(join(DATA_DIR, file), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Read a data file, change it and write it back, after any change already
+ * in progress. Returning the data unchanged skips the write. Resolves with
+ * what `change` returns.
+ */
+export function updateJson<T, R>(file: string, fallback: T, change: (data: T) => { data: T; result: R }): Promise<R> {
+  const write = (globalForData.dataWrites ?? Promise.resolve())
+    .catch(() => {})
+    .then(async () => {
+      const current = await readJson(file, fallback);
+      const { data, result } = change(current);
+      if (data === current) return result;
+      await mkdir(DATA_DIR, { recursive: true });
+      // Replace the file in one step so a crash can't leave half of it
+      const temporary = join(DATA_DIR, `${file}.${process.pid}.tmp`);
+      await writeFile(temporary, JSON.stringify(data, null, 2));
+      await rename(temporary, join(DATA_DIR, file));
+      return result;
+    });
+  globalForData.dataWrites = write;
+  return write;
+}
+
+/**
+ * Keep only the given fields of a request body, so it can't overwrite
+ * anything else, such as an ID or secret
+ */
+export function pickFields<T extends object>(body: T, fields: (keyof T)[]): Partial<T> {
+  return Object.fromEntries(Object.entries(body).filter(([key]) => fields.includes(key as keyof T))) as Partial<T>;
+}
+
+/**
+ * Check a workflow before saving it to run on the server, or before
+ * running it there, throwing if it can't be used. Only the fields present
+ * are checked.
+ */
+export function validateSavedWorkflow({ modules, params, customProviders }: {
+  modules?: WorkflowModuleData[];
+  params?: WorkflowParam[];
+  customProviders?: CustomProvider[];
+}) {
+  if (modules !== undefined) {
+    if (!Array.isArray(modules) || modules.length === 0) {
+      throw new Error('modules must be a non-empty array');
+    }
+    topologicalSort(modules);
+    const approval = modules.find(m => m.kind === 'approval');
+    if (approval) {
+      throw new Error(`${approval.title} is an approval module, which needs a reviewer. Runs on the server have none.`);
+    }
+  }
+  if (params !== undefined) {
+    const paramErrors = Object.values(validateParams(params));
+    if (paramErrors.length > 0) {
+      throw new Error(`Invalid parameters: ${paramErrors.join('; ')}`);
+    }
+  }
+  checkCustomProviders(customProviders);
+}
+
+/**
+ * Start a run on the server that is saved to the history once it finishes,
+ * marked with what started it
+ */
+export function startRecordedRun(
+  modules: WorkflowModuleData[],
+  params: WorkflowParam[],
+  input: WorkflowRunInput,
+  source: RunSource,
+  { onFinish, ...options }: ServerRunOptions = {}
+): StartedServerRun {
+  return startServerRun(modules, input, {
+    ...options,
+    onFinish: finished => {
+      const record = createRunRecord({
+        id: finished.runId,
+        modules,
+        params,
+        input,
+        startedAt: Date.parse(finished.startedAt),
+        outcome: {
+          status: finished.status === 'running' ? 'failed' : finished.status,
+          results: finished.results,
+          ...(finished.error && { error: { message: finished.error, failedAgentIndex: finished.failedAgentIndex } })
+        },
+        source
+      });
+      updateJson<RunRecord[], void>(RUNS_FILE, [], runs => ({
+        data: [...runs, record].slice(-MAX_STORED_RUNS),
+        result: undefined
+      })).catch(error => console.error('Failed to save server run:', error));
+      onFinish?.(finished);
+    }
+  });
+}
+
+/**
+ * Runs started on the server that finished after the given time, oldest
+ * first
+ */
+export async function listRecordedRuns(since = 0): Promise<RunRecord[]> {
+  const runs = await readJson<RunRecord[]>(RUNS_FILE, []);
+  return runs.filter(run => run.completedAt > since);
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TriggerSettings } from '../../../utils/triggers';
+import { requireAdmin } from '../../adminAuth';
+import { deleteTrigger, updateTrigger } from '../triggerStore';
+
+interface RouteContext {
+  params: { triggerId: string };
+}
+
+// Change a trigger's name, workflow, input paths, callback URL or keys
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  let settings: Partial<TriggerSettings>;
+  try {
+    settings = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const trigger = await updateTrigger(params.triggerId, settings);
+    if (!trigger) {
+      return NextResponse.json({ error: 'Trigger not found' }, { status: 404 });
+    }
+    return NextResponse.json(trigger);
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  if (!await deleteTrigger(params.triggerId)) {
+    return NextResponse.json({ error: 'Trigger not found' }, { status: 404 });
+  }
+  return NextResponse.json({ deleted: true });
+}
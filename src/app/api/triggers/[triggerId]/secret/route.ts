@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '../../../adminAuth';
+import { rotateTriggerSecret } from '../../triggerStore';
+
+interface RouteContext {
+  params: { triggerId: string };
+}
+
+// Replace a trigger's secret and return the new one
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const secret = await rotateTriggerSecret(params.triggerId);
+  if (!secret) {
+    return NextResponse.json({ error: 'Trigger not found' }, { status: 404 });
+  }
+  return NextResponse.json({ secret });
+}
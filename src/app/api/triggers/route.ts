@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TriggerSettings } from '../../utils/triggers';
+import { requireAdmin } from '../adminAuth';
+import { createTrigger, listTriggers } from './triggerStore';
+
+// Triggers change between requests, so the list is never cached
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  return NextResponse.json({ triggers: await listTriggers() });
+}
+
+/**
+ * Save a workflow behind a new webhook trigger. The response holds the
+ * trigger's secret, which is not shown again.
+ */
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  let settings: TriggerSettings;
+  try {
+    settings = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await createTrigger(settings), { status: 201 });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+}
@@ -0,0 +1,260 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import get from 'lodash.get';
+import { v4 as uuidv4 } from 'uuid';
+import { WorkflowModuleData } from '../../types/workflow';
+import { snapshotModules } from '../../utils/runHistory';
+import { WorkflowRunInput } from '../../utils/workflowEngine';
+import {
+  TRIGGER_SIGNATURE_HEADER,
+  TRIGGER_TOKEN_HEADER,
+  TriggerCallbackBody,
+  TriggerSettings,
+  WebhookTrigger
+} from '../../utils/triggers';
+import { RunRequestBody, ServerRun, StartedServerRun } from '../workflows/serverRuns';
+import { pickFields, readJson, startRecordedRun, updateJson, validateSavedWorkflow } from '../serverData';
+
+interface StoredTrigger extends Omit<WebhookTrigger, 'hasApiKeys'> {
+  secret: string;
+  apiKeys?: TriggerSettings['apiKeys'];
+  customProviders?: TriggerSettings['customProviders'];
+}
+
+const TRIGGERS_FILE = 'triggers.json';
+
+const CALLBACK_TIMEOUT_MS = 10000;
+
+const SETTINGS_FIELDS: (keyof TriggerSettings)[] = [
+  'name', 'modules', 'params', 'inputPaths', 'callbackUrl', 'apiKeys', 'customProviders'
+];
+
+const createSecret = () => randomBytes(24).toString('hex');
+
+// The trigger as shown to the app, without its secret or keys
+function toWebhookTrigger({ secret, apiKeys, customProviders, ...trigger }: StoredTrigger): WebhookTrigger {
+  return {
+    ...trigger,
+    modules: snapshotModules(trigger.modules),
+    hasApiKeys: Object.values(apiKeys || {}).some(Boolean)
+  };
+}
+
+/**
+ * Check a trigger's settings before saving them, throwing if they can't be
+ * used. Only the fields present are checked.
+ */
+function validateSettings(settings: Partial<TriggerSettings>) {
+  if (settings.name !== undefined && !settings.name.trim()) {
+    throw new Error('Name is required');
+  }
+  validateSavedWorkflow(settings);
+  if (settings.callbackUrl) {
+    let url: URL;
+    try {
+      url = new URL(settings.callbackUrl);
+    } catch {
+      throw new Error('Callback URL is not a valid URL');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error('Callback URL must use http or https');
+    }
+  }
+}
+
+export async function listTriggers(): Promise<WebhookTrigger[]> {
+  const triggers = await readJson<StoredTrigger[]>(TRIGGERS_FILE, []);
+  return triggers.map(toWebhookTrigger);
+}
+
+export async function getStoredTrigger(id: string): Promise<StoredTrigger | undefined> {
+  const triggers = await readJson<StoredTrigger[]>(TRIGGERS_FILE, []);
+  return triggers.find(t => t.id === id);
+}
+
+/**
+ * Save a new trigger. Its secret is returned here and never again.
+ */
+export async function createTrigger(settings: TriggerSettings): Promise<{ trigger: WebhookTrigger; secret: string }> {
+  // Settings come from a request body, so required fields may be missing
+  const complete = { ...settings, name: settings.name || '', modules: settings.modules || [], params: settings.params || [] };
+  validateSettings(complete);
+  const trigger: StoredTrigger = {
+    id: uuidv4(),
+    name: complete.name.trim(),
+    modules: complete.modules,
+    params: complete.params,
+    inputPaths: settings.inputPaths || {},
+    ...(settings.callbackUrl && { callbackUrl: settings.callbackUrl }),
+    ...(settings.apiKeys && { apiKeys: settings.apiKeys }),
+    ...(settings.customProviders && { customProviders: settings.customProviders }),
+    secret: createSecret(),
+    createdAt: Date.now()
+  };
+
+  await updateJson<StoredTrigger[], void>(TRIGGERS_FILE, [], triggers => ({
+    data: [...triggers, trigger],
+    result: undefined
+  }));
+  return { trigger: toWebhookTrigger(trigger), secret: trigger.secret };
+}
+
+/**
+ * Change a trigger's settings. An empty callback URL removes it. Resolves
+ * with undefined if there is no such trigger.
+ */
+export function updateTrigger(id: string, body: Partial<TriggerSettings>): Promise<WebhookTrigger | undefined> {
+  const settings = pickFields(body, SETTINGS_FIELDS);
+  validateSettings(settings);
+  return updateJson<StoredTrigger[], WebhookTrigger | undefined>(TRIGGERS_FILE, [], triggers => {
+    const existing = triggers.find(t => t.id === id);
+    if (!existing) return { data: triggers, result: undefined };
+
+    const { callbackUrl, ...changes } = settings;
+    const updated: StoredTrigger = {
+      ...existing,
+      ...changes,
+      ...(changes.name !== undefined && { name: changes.name.trim() })
+    };
+    if (callbackUrl !== undefined) {
+      if (callbackUrl) updated.callbackUrl = callbackUrl;
+      else delete updated.callbackUrl;
+    }
+    return { data: triggers.map(t => t.id === id ? updated : t), result: toWebhookTrigger(updated) };
+  });
+}
+
+export function deleteTrigger(id: string): Promise<boolean> {
+  return updateJson<StoredTrigger[], boolean>(TRIGGERS_FILE, [], triggers => ({
+    data: triggers.filter(t => t.id !== id),
+    result: triggers.some(t => t.id === id)
+  }));
+}
+
+export function rotateTriggerSecret(id: string): Promise<string | undefined> {
+  const secret = createSecret();
+  return updateJson<StoredTrigger[], string | undefined>(TRIGGERS_FILE, [], triggers => ({
+    data: triggers.map(t => t.id === id ? { ...t, secret } : t),
+    result: triggers.some(t => t.id === id) ? secret : undefined
+  }));
+}
+
+const signBody = (secret: string, body: string) =>
+  `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+// Compare in constant time, so the secret can't be guessed from timings
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Check that a webhook request comes from someone holding the trigger's
+ * secret: either the secret itself as a token, or a signature of the body
+ */
+export function isAuthorized(trigger: StoredTrigger, rawBody: string, headers: Headers): boolean {
+  const signature = headers.get(TRIGGER_SIGNATURE_HEADER);
+  if (signature) return safeEqual(signature, signBody(trigger.secret, rawBody));
+
+  const authorization = headers.get('authorization');
+  const token = headers.get(TRIGGER_TOKEN_HEADER)
+    || (authorization?.toLowerCase().startsWith('bearer ') ? authorization.slice(7).trim() : null);
+  return !!token && safeEqual(token, trigger.secret);
+}
+
+/**
+ * Read a webhook's body as JSON or form fields, falling back to plain text
+ */
+export function parseWebhookBody(rawBody: string, contentType: string | null): unknown {
+  if (contentType?.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(rawBody));
+  }
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    return rawBody;
+  }
+}
+
+const toText = (value: unknown): string | undefined =>
+  value === undefined || value === null ? undefined : typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Map a webhook's body onto the workflow's inputs. Without parameters the
+ * workflow takes the body's "input" field as its text, or the whole body.
+ */
+export function getTriggerInputs(trigger: StoredTrigger, body: unknown): Pick<RunRequestBody, 'inputs' | 'input'> {
+  if (trigger.params.length === 0) {
+    const input = typeof body === 'object' && body !== null ? toText(get(body, 'input')) : undefined;
+    return { input: input ?? toText(body) ?? '' };
+  }
+
+  const source = typeof body === 'object' && body !== null ? body : {};
+  const inputs: RunRequestBody['inputs'] = {};
+  trigger.params.forEach(param => {
+    const value = toText(get(source, trigger.inputPaths[param.name] || param.name));
+    if (value === undefined || value === '') return;
+    inputs[param.name] = param.type === 'number' ? Number(value) : value;
+  });
+  return { inputs };
+}
+
+/**
+ * Post a finished run's output to the trigger's callback URL, signed like
+ * inbound requests. Failures are only logged.
+ */
+async function sendCallback(trigger: StoredTrigger, modules: WorkflowModuleData[], run: ServerRun) {
+  if (!trigger.callbackUrl) return;
+
+  const last = run.results[run.results.length - 1];
+  const body: TriggerCallbackBody = {
+    triggerId: trigger.id,
+    runId: run.runId,
+    status: run.status,
+    output: run.status === 'completed' && last ? last.output : null,
+    error: run.error,
+    results: run.results.map(r => ({
+      moduleId: r.moduleId,
+      title: modules.find(m => m.id === r.moduleId)?.title || '',
+      output: r.output
+    }))
+  };
+  const json = JSON.stringify(body);
+
+  try {
+    const response = await fetch(trigger.callbackUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [TRIGGER_SIGNATURE_HEADER]: signBody(trigger.secret, json) },
+      body: json,
+      signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      console.error(`Callback for trigger ${trigger.id} returned ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Callback for trigger ${trigger.id} failed:`, error);
+  }
+}
+
+/**
+ * Start a trigger's workflow. Once it finishes the run is saved for the
+ * history and its output sent to the callback URL.
+ */
+export function startTriggerRun(
+  trigger: StoredTrigger,
+  modules: WorkflowModuleData[],
+  input: WorkflowRunInput
+): StartedServerRun {
+  const run = startRecordedRun(modules, trigger.params, input, { type: 'trigger', id: trigger.id, name: trigger.name }, {
+    apiKeys: trigger.apiKeys,
+    customProviders: trigger.customProviders,
+    onFinish: finished => sendCallback(trigger, modules, finished)
+  });
+
+  updateJson<StoredTrigger[], void>(TRIGGERS_FILE, [], triggers => ({
+    data: triggers.map(t => t.id === trigger.id ? { ...t, lastTriggeredAt: Date.now() } : t),
+    result: undefined
+  })).catch(error => console.error('Failed to update trigger:', error));
+
+  return run;
+}
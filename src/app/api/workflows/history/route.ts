@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '../../adminAuth';
+import { listRecordedRuns } from '../../serverData';
+
+// Runs started on the server by triggers and schedules, for the browser to
+// add to its history. Pass `since` to get only runs finished after that
+// time, in milliseconds.
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const since = Number(request.nextUrl.searchParams.get('since')) || 0;
+  return NextResponse.json({ runs: await listRecordedRuns(since) });
+}
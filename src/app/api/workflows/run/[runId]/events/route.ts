@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRunAccess } from '../../../../adminAuth';
+import { ServerRunEvent, getServerRun, subscribeToRun } from '../../../serverRuns';
+
+interface RouteContext {
+  params: { runId: string };
+}
+
+/**
+ * Follow a run as server-sent events: its current state straight away, a
+ * progress event as it changes and a done event when it finishes
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const denied = requireRunAccess(request, params.runId);
+  if (denied) return denied;
+
+  const run = getServerRun(params.runId);
+  if (!run) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: ServerRunEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      if (run.status !== 'running') {
+        send({ type: 'done', run });
+        controller.close();
+        return;
+      }
+
+      send({ type: 'progress', run });
+      unsubscribe = subscribeToRun(params.runId, (current) => {
+        if (current.status === 'running') {
+          send({ type: 'progress', run: current });
+          return;
+        }
+        send({ type: 'done', run: current });
+        unsubscribe();
+        controller.close();
+      });
+
+      // The client went away; the run carries on
+      request.signal.addEventListener('abort', () => unsubscribe());
+    },
+    cancel() {
+      unsubscribe();
+    }
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRunAccess } from '../../../adminAuth';
+import { cancelServerRun, getServerRun } from '../../serverRuns';
+
+interface RouteContext {
+  params: { runId: string };
+}
+
+// Poll a run's status, agent progress and results
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const denied = requireRunAccess(request, params.runId);
+  if (denied) return denied;
+
+  const run = getServerRun(params.runId);
+  if (!run) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+  }
+  return NextResponse.json(run);
+}
+
+// Stop a run; agents already answering are aborted
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = requireRunAccess(request, params.runId);
+  if (denied) return denied;
+
+  if (!cancelServerRun(params.runId)) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+  }
+  return NextResponse.json(getServerRun(params.runId));
+}
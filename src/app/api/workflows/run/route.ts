@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '../../adminAuth';
+import { validateSavedWorkflow } from '../../serverData';
+import { RunRequestBody, parseRunRequest, startServerRun } from '../serverRuns';
+
+/**
+ * Start running a workflow on the server. Responds straight away with the
+ * run's ID and where to follow its progress. Runs may use the server's
+ * own API keys, so only admins can start them.
+ */
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  let body: RunRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  let prepared: ReturnType<typeof parseRunRequest>;
+  try {
+    prepared = parseRunRequest(body);
+    // Checked like a saved workflow, so approval modules, which nothing
+    // on the server could answer, are turned away
+    validateSavedWorkflow({ modules: body.modules, customProviders: body.customProviders });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  const run = startServerRun(prepared.modules, prepared.input, {
+    apiKeys: body.apiKeys,
+    customProviders: body.customProviders,
+    limits: body.limits,
+    prices: body.prices,
+    budget: body.budget
+  });
+  console.log(`Started server run ${run.runId}`);
+
+  return NextResponse.json({
+    runId: run.runId,
+    status: run.status,
+    accessToken: run.accessToken,
+    statusUrl: `/api/workflows/run/${run.runId}`,
+    eventsUrl: `/api/workflows/run/${run.runId}/events`
+  }, { status: 202 });
+}
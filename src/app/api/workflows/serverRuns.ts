@@ -0,0 +1,324 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { POST as claude } from '../claude/route';
+import { POST as openai } from '../openai/route';
+import { POST as gemini } from '../gemini/route';
+import { POST as custom } from '../custom/route';
+import { BuiltInProvider, WorkflowModuleData, WorkflowParam, WorkflowParamValues } from '../../types/workflow';
+import { CustomProvider } from '../../utils/customProviders';
+import { ProviderLimitSettings } from '../../utils/requestScheduler';
+import { PriceTable, getPriceKey, getPriceTable } from '../../utils/pricing';
+import { RunBudget } from '../../utils/budget';
+import { RunStatus, getWorkflowId } from '../../utils/runHistory';
+import { topologicalSort } from '../../utils/workflowGraph';
+import { formatParamValues, validateParamValues, validateParams } from '../../utils/workflowParams';
+import {
+  AgentResult,
+  AgentStatus,
+  INITIAL_RUN_STATE,
+  ProviderAccess,
+  RunState,
+  RunStateUpdate,
+  WorkflowRunInput,
+  applyRunStateUpdate,
+  executeWorkflow
+} from '../../utils/workflowEngine';
+
+// The body of a request to start a run. Workflows with parameters take
+// their values in `inputs`; workflows without take plain text in `input`.
+export interface RunRequestBody {
+  modules: WorkflowModuleData[];
+  params?: WorkflowParam[];
+  inputs?: WorkflowParamValues;
+  input?: string;
+  apiKeys?: Partial<Record<BuiltInProvider, string>>;
+  customProviders?: CustomProvider[];
+  limits?: ProviderLimitSettings;
+  // Prices that take the place of the defaults
+  prices?: PriceTable;
+  budget?: RunBudget;
+}
+
+export type ServerRunStatus = 'running' | RunStatus;
+
+export interface ServerRun {
+  runId: string;
+  status: ServerRunStatus;
+  startedAt: string;
+  completedAt?: string;
+  agentStatus: Record<string, AgentStatus>;
+  results: AgentResult[];
+  error: string | null;
+  failedAgentIndex: number;
+}
+
+// What the caller that started a run gets back: the run, and the token
+// that lets it follow or stop the run without the admin token
+export interface StartedServerRun extends ServerRun {
+  accessToken: string;
+}
+
+// Sent on a run's event stream: progress while it runs, then done once
+export type ServerRunEvent =
+  | { type: 'progress'; run: ServerRun }
+  | { type: 'done'; run: ServerRun };
+
+export type ServerRunListener = (run: ServerRun) => void;
+
+export interface ServerRunOptions extends Pick<RunRequestBody, 'apiKeys' | 'customProviders' | 'limits' | 'prices' | 'budget'> {
+  // Called once the run has finished, however it ended
+  onFinish?: (run: ServerRun) => void;
+}
+
+interface RunEntry {
+  runId: string;
+  accessToken: string;
+  workflowId: string;
+  status: ServerRunStatus;
+  startedAt: number;
+  completedAt?: number;
+  state: RunState;
+  controller: AbortController;
+  listeners: Set<ServerRunListener>;
+  notifyTimer?: ReturnType<typeof setTimeout>;
+}
+
+// The provider routes, called in-process rather than over HTTP
+const PROVIDER_ROUTES: Record<string, (request: NextRequest) => Promise<Response>> = {
+  '/api/claude': claude,
+  '/api/openai': openai,
+  '/api/gemini': gemini,
+  '/api/custom': custom
+};
+
+// Used when a request doesn't include a key for the provider. Runs are
+// only started by admins, or by triggers and schedules they saved.
+const API_KEY_VARIABLES: Record<BuiltInProvider, string> = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  google: 'GOOGLE_API_KEY'
+};
+
+// Hosts runs on the server may reach custom providers at, separated by
+// commas, e.g. "api.example.com,localhost:11434". A host without a port
+// allows any port. Workflows come from requests, so without this list a
+// custom provider could point the server at anything on its network.
+const CUSTOM_PROVIDER_HOSTS = (process.env.AGENT_LINK_CUSTOM_PROVIDER_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// Streamed text updates a run many times a second; listeners hear about
+// them at most this often
+const NOTIFY_INTERVAL_MS = 250;
+
+// Finished runs can still be polled for this long
+const FINISHED_RUN_TTL_MS = 60 * 60 * 1000;
+
+// Kept on globalThis so every route sees the same runs, even when routes
+// are bundled separately or reloaded in development
+const globalForRuns = globalThis as typeof globalThis & { workflowRuns?: Map<string, RunEntry> };
+const runs = globalForRuns.workflowRuns ??= new Map<string, RunEntry>();
+
+/**
+ * Reach the providers from the server: keys from the request or the
+ * environment, and the provider routes called directly
+ */
+export function createServerAccess(
+  apiKeys: RunRequestBody['apiKeys'] = {},
+  customProviders: CustomProvider[] = [],
+  limits: ProviderLimitSettings = {},
+  prices: PriceTable = {}
+): ProviderAccess {
+  const priceTable = getPriceTable(prices);
+  return {
+    getApiKey: (provider) => apiKeys[provider] || process.env[API_KEY_VARIABLES[provider]] || null,
+    getCustomProvider: (id) => customProviders.find(p => p.id === id),
+    getLimits: (key) => limits[key] || {},
+    getPrice: (provider, model) => priceTable[getPriceKey(provider, model)],
+    send: async (endpoint, init) => {
+      const handler = PROVIDER_ROUTES[endpoint];
+      if (!handler) {
+        throw new Error(`No provider route at ${endpoint}`);
+      }
+      // Only the body and signal are read; the host is a placeholder
+      return handler(new NextRequest(new URL(endpoint, 'http://localhost'), {
+        method: init.method,
+        headers: init.headers,
+        body: init.body,
+        signal: init.signal || undefined
+      }));
+    }
+  };
+}
+
+/**
+ * Check that the custom providers a run would call are on the allowed
+ * hosts, throwing if any isn't
+ */
+export function checkCustomProviders(customProviders: CustomProvider[] = []): void {
+  if (!Array.isArray(customProviders)) {
+    throw new Error('customProviders must be an array');
+  }
+  customProviders.forEach(provider => {
+    let url: URL;
+    try {
+      url = new URL(provider.endpoint);
+    } catch {
+      throw new Error(`${provider.name} has an invalid endpoint URL`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error(`${provider.name}'s endpoint must use http or https`);
+    }
+    if (!CUSTOM_PROVIDER_HOSTS.includes(url.host) && !CUSTOM_PROVIDER_HOSTS.includes(url.hostname)) {
+      throw new Error(`${provider.name} calls ${url.host}, which is not in the server's AGENT_LINK_CUSTOM_PROVIDER_HOSTS`);
+    }
+  });
+}
+
+/**
+ * Check a run request, returning the workflow and the input its first
+ * agents receive
+ */
+export function parseRunRequest(body: RunRequestBody): { modules: WorkflowModuleData[]; input: WorkflowRunInput } {
+  if (!Array.isArray(body?.modules) || body.modules.length === 0) {
+    throw new Error('modules must be a non-empty array');
+  }
+  topologicalSort(body.modules);
+
+  const params = body.params || [];
+  if (params.length === 0) {
+    return { modules: body.modules, input: { text: body.input || '', values: {} } };
+  }
+
+  const paramErrors = Object.values(validateParams(params));
+  if (paramErrors.length > 0) {
+    throw new Error(`Invalid parameters: ${paramErrors.join('; ')}`);
+  }
+
+  const values = body.inputs || {};
+  const valueErrors = Object.entries(validateParamValues(params, values));
+  if (valueErrors.length > 0) {
+    throw new Error(`Invalid inputs: ${valueErrors.map(([name, message]) => `${name}: ${message}`).join('; ')}`);
+  }
+  return { modules: body.modules, input: { text: formatParamValues(params, values), values } };
+}
+
+function toServerRun(entry: RunEntry): ServerRun {
+  return {
+    runId: entry.runId,
+    status: entry.status,
+    startedAt: new Date(entry.startedAt).toISOString(),
+    ...(entry.completedAt && { completedAt: new Date(entry.completedAt).toISOString() }),
+    agentStatus: entry.state.agentStatus,
+    results: entry.state.results,
+    error: entry.state.error,
+    failedAgentIndex: entry.state.failedAgentIndex
+  };
+}
+
+function notify(entry: RunEntry) {
+  clearTimeout(entry.notifyTimer);
+  entry.notifyTimer = undefined;
+  const run = toServerRun(entry);
+  entry.listeners.forEach(listener => listener(run));
+}
+
+/**
+ * Start running a workflow on the server. The run continues after the
+ * request that started it has finished.
+ */
+export function startServerRun(
+  modules: WorkflowModuleData[],
+  input: WorkflowRunInput,
+  { apiKeys, customProviders, limits, prices, budget, onFinish }: ServerRunOptions = {}
+): StartedServerRun {
+  const entry: RunEntry = {
+    runId: uuidv4(),
+    accessToken: randomBytes(32).toString('hex'),
+    workflowId: getWorkflowId(modules),
+    status: 'running',
+    startedAt: Date.now(),
+    state: { ...INITIAL_RUN_STATE, isRunning: true },
+    controller: new AbortController(),
+    listeners: new Set()
+  };
+  runs.set(entry.runId, entry);
+
+  const update = (partial: RunStateUpdate) => {
+    entry.state = applyRunStateUpdate(entry.state, partial);
+    entry.notifyTimer ??= setTimeout(() => notify(entry), NOTIFY_INTERVAL_MS);
+  };
+
+  executeWorkflow(modules, {
+    input,
+    signal: entry.controller.signal,
+    update,
+    access: createServerAccess(apiKeys, customProviders, limits, prices),
+    budget
+  })
+    .then(outcome => {
+      entry.status = outcome.status;
+      entry.state = { ...entry.state, isRunning: false, results: outcome.results };
+    })
+    .catch(error => {
+      entry.status = 'failed';
+      entry.state = { ...entry.state, isRunning: false, error: (error as Error).message };
+    })
+    .finally(() => {
+      entry.completedAt = Date.now();
+      notify(entry);
+      entry.listeners.clear();
+      onFinish?.(toServerRun(entry));
+      setTimeout(() => runs.delete(entry.runId), FINISHED_RUN_TTL_MS).unref?.();
+    });
+
+  return { ...toServerRun(entry), accessToken: entry.accessToken };
+}
+
+/**
+ * Check a run's access token, in constant time so it can't be guessed
+ * from timings
+ */
+export function hasRunAccess(runId: string, token: string): boolean {
+  const entry = runs.get(runId);
+  if (!entry) return false;
+  const expected = Buffer.from(entry.accessToken);
+  const given = Buffer.from(token);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * Check whether the server is running a workflow, however the run was
+ * started: by a trigger, a schedule or the run route
+ */
+export function isWorkflowRunning(workflowId: string): boolean {
+  return Array.from(runs.values()).some(entry => entry.workflowId === workflowId && entry.status === 'running');
+}
+
+export function getServerRun(runId: string): ServerRun | undefined {
+  const entry = runs.get(runId);
+  return entry && toServerRun(entry);
+}
+
+/**
+ * Listen for changes to a running workflow; the last call is made once it
+ * finishes. Returns a function that stops listening.
+ */
+export function subscribeToRun(runId: string, listener: ServerRunListener): () => void {
+  const entry = runs.get(runId);
+  if (!entry || entry.status !== 'running') return () => {};
+  entry.listeners.add(listener);
+  return () => entry.listeners.delete(listener);
+}
+
+/**
+ * Stop a running workflow. Returns false if there is no such run.
+ */
+export function cancelServerRun(runId: string): boolean {
+  const entry = runs.get(runId);
+  if (!entry) return false;
+  entry.controller.abort();
+  return true;
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { ApprovalConfig as ApprovalSettings } from '../types/workflow';
+
+interface ApprovalConfigProps {
+  approval: ApprovalSettings;
+  onChange: (approval: ApprovalSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = `px-2 py-1 text-xs rounded-md bg-surface-1
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary
+  disabled:opacity-50`;
+
+/**
+ * Settings for an approval module: what the reviewer is asked to check and
+ * what happens when they reject the work
+ */
+export default function ApprovalConfig({ approval, onChange, disabled = false }: ApprovalConfigProps) {
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="text-xs text-text-secondary">
+        The run stops here until someone approves the output of the modules before it.
+        They can edit it before approving.
+      </div>
+
+      <textarea
+        value={approval.instructions || ''}
+        onChange={(e) => onChange({ ...approval, instructions: e.target.value })}
+        disabled={disabled}
+        rows={2}
+        className={`w-full resize-y ${inputClassName}`}
+        placeholder="Instructions for the reviewer, e.g. check tone and pricing"
+      />
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-text-secondary">
+        <label className="flex items-center gap-2">
+          On reject
+          <select
+            value={approval.onReject}
+            onChange={(e) => onChange({ ...approval, onReject: e.target.value as ApprovalSettings['onReject'] })}
+            disabled={disabled}
+            className={inputClassName}
+          >
+            <option value="end">End the run</option>
+            <option value="revise">Send back with feedback</option>
+          </select>
+        </label>
+        {approval.onReject === 'revise' && (
+          <label className="flex items-center gap-2">
+            Max revisions
+            <input
+              type="number"
+              min={1}
+              value={approval.maxRevisions ?? 3}
+              onChange={(e) => onChange({ ...approval, maxRevisions: Math.max(1, Number(e.target.value) || 1) })}
+              disabled={disabled}
+              className={`w-16 ${inputClassName}`}
+            />
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
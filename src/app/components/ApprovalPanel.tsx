@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { ApprovalDecision, PendingApproval } from '../store/workflowStore';
+
+interface ApprovalPanelProps {
+  request: PendingApproval;
+  moduleTitle: string;
+  onDecide: (decision: ApprovalDecision) => void;
+  onStop: () => void;
+}
+
+const fieldClassName = `w-full px-3 py-2 text-sm rounded-lg bg-surface-2
+  border border-surface-2 focus:border-primary
+  focus:ring-1 focus:ring-primary resize-y`;
+
+/**
+ * Dialog asking a reviewer to approve, edit or reject the output waiting at
+ * an approval module
+ */
+export default function ApprovalPanel({ request, moduleTitle, onDecide, onStop }: ApprovalPanelProps) {
+  const [output, setOutput] = useState(request.input);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const isEdited = output !== request.input;
+
+  const handleReject = () => {
+    if (!note.trim()) {
+      setError('Give a reason for rejecting');
+      return;
+    }
+    onDecide({ action: 'reject', reason: note.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-surface-0/80 backdrop-blur-sm" />
+      <div className="relative bg-surface-1 rounded-lg shadow-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-1">Review: {moduleTitle}</h3>
+        <p className="text-sm text-text-secondary mb-4">
+          {request.instructions || 'Approve this output to continue the run.'}
+          {request.revisions > 0 && ` Revision ${request.revisions}.`}
+        </p>
+
+        <label className="block text-sm font-medium text-text-secondary mb-1">
+          Output {isEdited && <span className="text-amber-400">(edited)</span>}
+        </label>
+        <textarea
+          value={output}
+          onChange={(e) => setOutput(e.target.value)}
+          rows={12}
+          className={`${fieldClassName} font-mono`}
+        />
+
+        <label className="block text-sm font-medium text-text-secondary mt-4 mb-1">
+          Note
+          <span className="block text-xs text-text-tertiary mt-0.5 font-normal">
+            {request.canRevise
+              ? 'Kept with the approval. When rejecting, this feedback is sent back to the previous agent.'
+              : 'Kept with the approval. Required when rejecting, which ends the run.'}
+          </span>
+        </label>
+        <textarea
+          value={note}
+          onChange={(e) => {
+            setNote(e.target.value);
+            setError(null);
+          }}
+          rows={3}
+          className={fieldClassName}
+        />
+        {error && <p className="mt-1 text-xs text-error">{error}</p>}
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onStop}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg
+              text-text-secondary hover:bg-surface-2 transition-colors mr-auto"
+          >
+            Stop Workflow
+          </button>
+          <button
+            onClick={handleReject}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg
+              text-error border border-error/30 hover:bg-error/10
+              transition-colors"
+          >
+            {request.canRevise ? 'Reject and Revise' : 'Reject'}
+          </button>
+          <button
+            onClick={() => onDecide({
+              action: 'approve',
+              output: isEdited ? output : undefined,
+              note: note.trim() || undefined
+            })}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg
+              bg-primary hover:bg-primary-hover text-white
+              transition-colors"
+          >
+            {isEdited ? 'Save Edits and Approve' : 'Approve'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
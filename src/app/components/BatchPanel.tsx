@@ -0,0 +1,283 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { WorkflowModuleData, WorkflowParam } from '../types/workflow';
+import { Dataset, parseDataset, toCsv, toJsonl } from '../utils/dataset';
+import { describeBudget, getRunBudget } from '../utils/budget';
+import {
+  BatchRowStatus,
+  ColumnMapping,
+  INPUT_MAPPING_KEY,
+  getBatchResultsTable,
+  useBatchStore
+} from '../store/batchStore';
+
+interface BatchPanelProps {
+  modules: WorkflowModuleData[];
+  params: WorkflowParam[];
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BatchRowStatus, string> = {
+  pending: 'bg-[var(--surface-3)] text-text-secondary',
+  running: 'bg-blue-500/10 text-blue-400',
+  completed: 'bg-green-500/10 text-green-400',
+  failed: 'bg-error/10 text-error',
+  cancelled: 'bg-[var(--surface-3)] text-text-secondary'
+};
+
+const DEFAULT_CONCURRENCY = 3;
+
+const inputClassName = `px-2 py-1 text-xs rounded-md bg-surface-2
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary
+  disabled:opacity-50`;
+
+const buttonClassName = `px-3 py-1.5 text-sm font-medium rounded-lg
+  bg-surface-2 hover:bg-surface-3
+  border border-surface-2 hover:border-surface-3
+  transition-colors disabled:opacity-50 disabled:cursor-not-allowed`;
+
+function downloadFile(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Match each parameter to the column with the same name, ignoring case
+function guessMapping(params: WorkflowParam[], columns: string[]): ColumnMapping {
+  if (params.length === 0) return { [INPUT_MAPPING_KEY]: columns[0] || '' };
+  return Object.fromEntries(params.map(param => [
+    param.name,
+    columns.find(column => column.toLowerCase() === param.name.toLowerCase()) || ''
+  ]));
+}
+
+/**
+ * Dialog for running the workflow once per row of a CSV or JSONL file, with
+ * the rows' progress and a download of every agent's output
+ */
+export default function BatchPanel({ modules, params, onClose }: BatchPanelProps) {
+  const { isRunning, columns, rows, startBatch, stopBatch } = useBatchStore();
+  const [dataset, setDataset] = useState<Dataset | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+
+  // Approval modules wait for a reviewer, which a batch doesn't have
+  const approvalModule = modules.find(m => m.kind === 'approval');
+  // The run budget applies to all the rows together
+  const budgetLimits = useMemo(() => describeBudget(getRunBudget()), []);
+
+  const counts = useMemo(() => rows.reduce((acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }), {
+    pending: 0, running: 0, completed: 0, failed: 0, cancelled: 0
+  } as Record<BatchRowStatus, number>), [rows]);
+  const finished = counts.completed + counts.failed + counts.cancelled;
+  const lastModule = modules[modules.length - 1];
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = parseDataset(await file.text(), file.name);
+      setDataset(parsed);
+      setFileName(file.name);
+      setFileError(null);
+      setMapping(guessMapping(params, parsed.columns));
+    } catch (error) {
+      setDataset(null);
+      setFileError(`Could not read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDownload = (format: 'csv' | 'jsonl') => {
+    const table = getBatchResultsTable(modules, columns, rows);
+    const name = `batch-results-${new Date().toISOString().split('.')[0].replace(/:/g, '-')}`;
+    if (format === 'csv') {
+      downloadFile(toCsv(table.columns, table.rows), `${name}.csv`, 'text/csv');
+    } else {
+      downloadFile(toJsonl(table.columns, table.rows), `${name}.jsonl`, 'application/x-ndjson');
+    }
+  };
+
+  const targets = params.length > 0
+    ? params.map(param => ({ key: param.name, label: param.name, required: param.required }))
+    : [{ key: INPUT_MAPPING_KEY, label: 'Workflow input', required: false }];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-surface-0/80 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-surface-1 rounded-lg shadow-lg max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-[var(--border)]">
+          <h2 className="text-xl font-semibold">Batch Run</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-[var(--surface-3)] transition-colors hover:text-primary"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Dataset and column mapping */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <label className={`${buttonClassName} cursor-pointer`}>
+                <input
+                  type="file"
+                  accept=".csv,.jsonl,.ndjson"
+                  className="hidden"
+                  disabled={isRunning}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                    e.target.value = '';
+                  }}
+                />
+                Choose CSV or JSONL File
+              </label>
+              {dataset && (
+                <span className="text-sm text-text-secondary">
+                  {fileName} · {dataset.rows.length} rows · {dataset.columns.length} columns
+                </span>
+              )}
+            </div>
+            {fileError && <p className="text-sm text-error">{fileError}</p>}
+
+            {dataset && (
+              <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 text-sm">
+                {targets.map(target => (
+                  <div key={target.key} className="contents">
+                    <span className="text-text-secondary">
+                      {target.label}{target.required && <span className="text-error"> *</span>}
+                    </span>
+                    <select
+                      value={mapping[target.key] || ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [target.key]: e.target.value }))}
+                      disabled={isRunning}
+                      className={inputClassName}
+                    >
+                      <option value="">Not mapped</option>
+                      {dataset.columns.map(column => (
+                        <option key={column} value={column}>{column}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {approvalModule && (
+            <p className="text-sm text-error">
+              {approvalModule.title} is an approval module, which needs a reviewer. Remove it to run a batch.
+            </p>
+          )}
+
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-text-secondary">
+              Rows at a time
+              <input
+                type="number"
+                min={1}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Math.max(1, Number(e.target.value) || 1))}
+                disabled={isRunning}
+                className={`w-16 ${inputClassName}`}
+              />
+            </label>
+            {budgetLimits && (
+              <span className="text-xs text-text-tertiary">
+                Budget for the whole batch: {budgetLimits}
+              </span>
+            )}
+            {isRunning ? (
+              <button
+                onClick={stopBatch}
+                className="px-3 py-1.5 text-sm font-medium rounded-lg bg-red-500 hover:bg-red-600 text-white transition-colors"
+              >
+                Stop Batch
+              </button>
+            ) : (
+              <button
+                onClick={() => dataset && startBatch(modules, params, dataset, mapping, concurrency)}
+                disabled={!dataset || modules.length === 0 || !!approvalModule}
+                className="px-3 py-1.5 text-sm font-medium rounded-lg
+                  bg-primary hover:bg-primary-hover text-white
+                  transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Run {dataset ? `${dataset.rows.length} Rows` : 'Batch'}
+              </button>
+            )}
+          </div>
+
+          {/* Progress and results */}
+          {rows.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-sm text-text-secondary">
+                  {finished}/{rows.length} done
+                  {' · '}<span className="text-green-400">{counts.completed} passed</span>
+                  {' · '}<span className="text-error">{counts.failed} failed</span>
+                  {counts.cancelled > 0 && ` · ${counts.cancelled} cancelled`}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button onClick={() => handleDownload('csv')} disabled={isRunning} className={buttonClassName}>
+                    Download CSV
+                  </button>
+                  <button onClick={() => handleDownload('jsonl')} disabled={isRunning} className={buttonClassName}>
+                    Download JSONL
+                  </button>
+                </div>
+              </div>
+              <div className="h-1.5 rounded-full bg-[var(--surface-3)] overflow-hidden">
+                <div
+                  className="h-full bg-primary transition-all duration-300"
+                  style={{ width: `${(finished / rows.length) * 100}%` }}
+                />
+              </div>
+
+              <div className="rounded-lg border border-[var(--border)] overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-[var(--surface-2)] text-left text-xs text-text-secondary">
+                    <tr>
+                      <th className="px-3 py-2 w-12">#</th>
+                      <th className="px-3 py-2 w-24">Status</th>
+                      <th className="px-3 py-2">{lastModule ? `Output of ${lastModule.title}` : 'Output'}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(row => {
+                      const output = row.results.filter(r => r.moduleId === lastModule?.id).pop()?.output;
+                      return (
+                        <tr key={row.index} className="border-t border-[var(--border)] align-top">
+                          <td className="px-3 py-2 text-text-secondary">{row.index + 1}</td>
+                          <td className="px-3 py-2">
+                            <span className={`px-1.5 py-0.5 text-xs rounded ${STATUS_STYLES[row.status]}`}>
+                              {row.status}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2">
+                            {row.error
+                              ? <span className="text-error">{row.error}</span>
+                              : <span className="line-clamp-2 whitespace-pre-wrap">{output}</span>}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { OutputCondition } from '../types/workflow';
+
+interface ConditionEditorProps {
+  condition: OutputCondition;
+  onChange: (condition: OutputCondition) => void;
+  disabled?: boolean;
+}
+
+const CONDITION_LABELS: Record<OutputCondition['type'], string> = {
+  contains: 'Contains text',
+  regex: 'Matches regex',
+  jsonEquals: 'JSON field equals',
+  numeric: 'Number compare'
+};
+
+const COMPARATORS: NonNullable<OutputCondition['comparator']>[] = ['>', '>=', '<', '<=', '==', '!='];
+
+const inputClassName = `px-2 py-1 text-xs rounded-md bg-surface-1
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary
+  disabled:opacity-50`;
+
+export default function ConditionEditor({
+  condition,
+  onChange,
+  disabled = false
+}: ConditionEditorProps) {
+  const update = (updates: Partial<OutputCondition>) => {
+    onChange({ ...condition, ...updates });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={condition.type}
+        onChange={(e) => update({ type: e.target.value as OutputCondition['type'] })}
+        disabled={disabled}
+        className={inputClassName}
+      >
+        {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+          <option key={type} value={type}>{label}</option>
+        ))}
+      </select>
+
+      {(condition.type === 'jsonEquals' || condition.type === 'numeric') && (
+        <input
+          value={condition.path || ''}
+          onChange={(e) => update({ path: e.target.value })}
+          disabled={disabled}
+          className={`w-32 ${inputClassName}`}
+          placeholder={condition.type === 'numeric' ? 'field (optional)' : 'field.path'}
+        />
+      )}
+
+      {condition.type === 'numeric' && (
+        <select
+          value={condition.comparator || '=='}
+          onChange={(e) => update({ comparator: e.target.value as OutputCondition['comparator'] })}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          {COMPARATORS.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      )}
+
+      <input
+        value={condition.value}
+        onChange={(e) => update({ value: e.target.value })}
+        disabled={disabled}
+        className={`flex-1 min-w-[120px] font-mono ${inputClassName}`}
+        placeholder={condition.type === 'regex' ? 'pattern' : 'value'}
+      />
+    </div>
+  );
+}
@@ -31,6 +31,7 @@ export default function CustomProviderForm({
       : '{}'
   );
   const [responsePath, setResponsePath] = useState(initialProvider?.responsePath || '');
+  const [streamPath, setStreamPath] = useState(initialProvider?.streamPath || '');
   const [models, setModels] = useState(initialProvider?.models?.join(', ') || '');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -52,6 +53,7 @@ export default function CustomProviderForm({
         setAuthKey(template.config.auth.key);
         setRequestTemplate(JSON.stringify(template.config.requestTemplate, null, 2));
         setResponsePath(template.config.responsePath);
+        setStreamPath(template.config.streamPath || '');
         setModels(template.config.models?.join(', ') || '');
       } else {
         setEndpoint('');
@@ -59,6 +61,7 @@ export default function CustomProviderForm({
         setAuthKey('Authorization');
         setRequestTemplate('{}');
         setResponsePath('');
+        setStreamPath('');
         setModels('');
       }
     }
@@ -126,6 +129,7 @@ export default function CustomProviderForm({
         },
         requestTemplate: requestConfig,
         responsePath,
+        ...(streamPath.trim() && { streamPath: streamPath.trim() }),
         models: models.split(',').map(m => m.trim()).filter(Boolean)
       };
 
@@ -171,6 +175,7 @@ export default function CustomProviderForm({
         },
         requestTemplate: requestConfig,
         responsePath,
+        ...(streamPath.trim() && { streamPath: streamPath.trim() }),
         models: models.split(',').map(m => m.trim()).filter(Boolean),
         ...(initialProvider && { createdAt: initialProvider.createdAt }) // Preserve creation date
       };
@@ -427,6 +432,26 @@ export default function CustomProviderForm({
         />
       </div>
 
+      {/* Stream Path */}
+      <div>
+        <label className="block text-sm font-medium text-text-secondary mb-1">
+          Stream Path (optional)
+          <span className="block text-xs text-text-tertiary mt-0.5">
+            Where each chunk&apos;s text is when the provider streams server-sent events.
+            Leave empty if the provider doesn&apos;t stream.
+          </span>
+        </label>
+        <input
+          type="text"
+          value={streamPath}
+          onChange={(e) => setStreamPath(e.target.value)}
+          placeholder="e.g., choices[0].delta.content"
+          className="w-full px-3 py-1.5 text-sm rounded-lg bg-surface-2
+            border border-surface-2 focus:border-primary
+            focus:ring-1 focus:ring-primary"
+        />
+      </div>
+
       {/* Available Models */}
       <div>
         <label className="block text-sm font-medium text-text-secondary mb-1">
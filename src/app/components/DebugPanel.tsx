@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { PausedStep, ResumeMode } from '../store/workflowStore';
+
+interface DebugPanelProps {
+  step: PausedStep;
+  moduleTitle: string;
+  onResume: (mode: ResumeMode, output?: string) => void;
+  onAbort: () => void;
+}
+
+const buttonClassName = `px-3 py-1.5 text-sm font-medium rounded-lg
+  bg-surface-2 hover:bg-surface-3
+  border border-surface-2 hover:border-surface-3
+  transition-colors`;
+
+function Section({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <details className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)]" open>
+      <summary className="px-3 py-1.5 text-xs font-medium cursor-pointer text-text-secondary">{label}</summary>
+      <pre className="px-3 py-2 max-h-48 overflow-auto whitespace-pre-wrap font-mono text-xs border-t border-[var(--border)]">
+        {children}
+      </pre>
+    </details>
+  );
+}
+
+/**
+ * Shown while a run waits at a breakpoint: the module's input and rendered
+ * prompt, its raw response and an editable copy of its output
+ */
+export default function DebugPanel({ step, moduleTitle, onResume, onAbort }: DebugPanelProps) {
+  const [output, setOutput] = useState(step.output ?? '');
+  // Only pass the output on when it was changed, so it isn't marked as edited
+  const editedOutput = step.phase === 'after' && output !== step.output ? output : undefined;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-[520px] max-w-[calc(100vw-2rem)] max-h-[80vh] flex flex-col
+      bg-surface-1 rounded-lg shadow-lg border border-red-500/40 animate-fade-in">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-[var(--border)]">
+        <span className="w-2.5 h-2.5 rounded-full bg-red-500" />
+        <h3 className="text-sm font-semibold truncate">
+          Paused {step.phase} {moduleTitle}
+          {step.iteration !== undefined && ` (iteration ${step.iteration + 1})`}
+        </h3>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {step.input !== undefined && step.prompt === undefined && (
+          <Section label="Input">{step.input || '(empty)'}</Section>
+        )}
+        {step.prompt !== undefined && (
+          <Section label={step.phase === 'before' ? 'Prompt to send' : 'Prompt sent'}>{step.prompt}</Section>
+        )}
+        {step.response !== undefined && (
+          <Section label="Raw response">{JSON.stringify(step.response, null, 2)}</Section>
+        )}
+        {step.phase === 'after' && (
+          <div>
+            <label className="block text-xs font-medium text-text-secondary mb-1">
+              Output {editedOutput !== undefined && <span className="text-amber-400">(edited)</span>}
+            </label>
+            <textarea
+              value={output}
+              onChange={(e) => setOutput(e.target.value)}
+              rows={8}
+              className="w-full px-3 py-2 text-xs font-mono rounded-lg bg-surface-2
+                border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary resize-y"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2 px-4 py-3 border-t border-[var(--border)]">
+        <button
+          onClick={onAbort}
+          className="px-3 py-1.5 text-sm font-medium rounded-lg
+            text-error hover:bg-error/10 transition-colors mr-auto"
+        >
+          Abort
+        </button>
+        <button
+          onClick={() => onResume('step', editedOutput)}
+          className={buttonClassName}
+          title={step.phase === 'before' ? 'Run this module and pause after it' : 'Pause before the next module'}
+        >
+          Step
+        </button>
+        <button
+          onClick={() => onResume('continue', editedOutput)}
+          className="px-3 py-1.5 text-sm font-medium rounded-lg
+            bg-primary hover:bg-primary-hover text-white
+            transition-colors"
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+}
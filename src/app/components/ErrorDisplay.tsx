@@ -1,23 +1,30 @@
 'use client';
 
+import { useState } from 'react';
 import { WorkflowModuleData } from '../types/workflow';
+import { isCacheEnabled } from '../utils/responseCache';
 
 interface ErrorDisplayProps {
   error: string;
   failedAgentIndex: number;
+  overBudget: boolean; // the run stopped before a call that would go over budget
   modules: WorkflowModuleData[];
   onRetryFromFailed: () => void;
-  onRetryAll: () => void;
+  // `fresh` skips the response cache so every agent calls its model again
+  onRetryAll: (fresh: boolean) => void;
 }
 
 export default function ErrorDisplay({
   error,
   failedAgentIndex,
+  overBudget,
   modules,
   onRetryFromFailed,
   onRetryAll
 }: ErrorDisplayProps) {
   const failedModule = modules[failedAgentIndex];
+  const [cacheEnabled] = useState(isCacheEnabled);
+  const [fresh, setFresh] = useState(false);
 
   return (
     <div className="w-full premium-card p-6 space-y-4">
@@ -32,11 +39,19 @@ export default function ErrorDisplay({
         </div>
         <div className="flex-1">
           <h3 className="text-lg font-semibold text-red-500 mb-1">
-            Workflow Error in {failedModule?.title || 'Unknown Agent'}
+            {overBudget
+              ? `Budget exceeded before ${failedModule?.title || 'Unknown Agent'}`
+              : `Workflow Error in ${failedModule?.title || 'Unknown Agent'}`}
           </h3>
           <pre className="text-sm font-mono text-[var(--text-secondary)] bg-[var(--surface-2)] p-3 rounded-lg overflow-x-auto">
             {error}
           </pre>
+          {overBudget && (
+            <p className="mt-2 text-sm text-[var(--text-secondary)]">
+              The run stopped before calling the model. Raise the budget under the Run button to
+              continue; retrying from {failedModule?.title || 'the failed agent'} keeps what has already been paid for.
+            </p>
+          )}
         </div>
       </div>
 
@@ -56,7 +71,7 @@ export default function ErrorDisplay({
           Retry from {failedModule?.title}
         </button>
         <button
-          onClick={onRetryAll}
+          onClick={() => onRetryAll(fresh)}
           className="flex-1 px-4 py-2 bg-[var(--surface-2)] hover:bg-[var(--surface-3)] 
             text-[var(--text-secondary)] rounded-lg font-medium transition-colors
             flex items-center justify-center gap-2"
@@ -69,6 +84,17 @@ export default function ErrorDisplay({
           Retry Entire Workflow
         </button>
       </div>
+      {cacheEnabled && (
+        <label className="flex items-center justify-end gap-2 text-sm text-[var(--text-secondary)]">
+          <input
+            type="checkbox"
+            checked={fresh}
+            onChange={(e) => setFresh(e.target.checked)}
+            className="rounded border-surface-2"
+          />
+          Ignore cached responses when retrying the entire workflow
+        </label>
+      )}
 
       {/* Partial Results Notice */}
       {failedAgentIndex > 0 && (
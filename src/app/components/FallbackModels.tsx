@@ -0,0 +1,92 @@
+'use client';
+
+import { ModelChoice, Provider } from '../types/workflow';
+import ModelSelect from './ModelSelect';
+
+interface FallbackModelsProps {
+  fallbacks: ModelChoice[];
+  onChange: (fallbacks: ModelChoice[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Ordered list of models to try when the module's own model keeps failing
+ * with a retryable error
+ */
+export default function FallbackModels({ fallbacks, onChange, disabled = false }: FallbackModelsProps) {
+  const updateFallback = (index: number, updates: Partial<ModelChoice>) => {
+    onChange(fallbacks.map((f, i) => i === index ? { ...f, ...updates } : f));
+  };
+
+  const moveFallback = (index: number, offset: number) => {
+    const next = [...fallbacks];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next);
+  };
+
+  return (
+    <details className="mt-4 text-xs text-text-secondary" open={fallbacks.length > 0}>
+      <summary className="cursor-pointer select-none">
+        Fallback models{fallbacks.length > 0 && ` (${fallbacks.length})`}
+      </summary>
+
+      <div className="mt-2 space-y-2">
+        <div>
+          Tried in order when the selected model is down or rate-limited after its retries run out.
+        </div>
+
+        {fallbacks.map((fallback, index) => (
+          <div key={index} className="flex items-start gap-2 p-3 rounded-lg bg-surface-2 border border-surface-2">
+            <span className="mt-2 w-4 text-center">{index + 1}</span>
+            <div className="flex-1">
+              <ModelSelect
+                selectedProvider={fallback.provider}
+                selectedModel={fallback.model}
+                onProviderChange={(provider: Provider | null) => updateFallback(index, { provider, model: null })}
+                onModelChange={(model: string | null) => updateFallback(index, { model })}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <button
+                onClick={() => moveFallback(index, -1)}
+                disabled={disabled || index === 0}
+                className="px-1 hover:text-text-primary disabled:opacity-30"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveFallback(index, 1)}
+                disabled={disabled || index === fallbacks.length - 1}
+                className="px-1 hover:text-text-primary disabled:opacity-30"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => onChange(fallbacks.filter((_, i) => i !== index))}
+                disabled={disabled}
+                className="px-1 hover:text-error disabled:opacity-30"
+                title="Remove fallback"
+              >
+                ×
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={() => onChange([...fallbacks, { provider: null, model: null }])}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm font-medium rounded-lg
+            bg-surface-2 hover:bg-surface-3
+            border border-surface-2 hover:border-surface-3
+            transition-colors disabled:opacity-50"
+        >
+          Add Fallback Model
+        </button>
+      </div>
+    </details>
+  );
+}
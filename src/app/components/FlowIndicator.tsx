@@ -3,16 +3,22 @@
 interface FlowIndicatorProps {
   isActive?: boolean;
   fromAgent?: string;
+  fromAgents?: string[];
   toAgent?: string;
   isTransitioning?: boolean;
+  showSources?: boolean;
 }
 
 export default function FlowIndicator({
   isActive = false,
   fromAgent,
+  fromAgents,
   toAgent,
-  isTransitioning = false
+  isTransitioning = false,
+  showSources = false
 }: FlowIndicatorProps) {
+  const sources = fromAgents ?? (fromAgent ? [fromAgent] : []);
+
   return (
     <div className="relative w-full h-16 flex items-center justify-center group">
       {/* Vertical connecting line */}
@@ -52,6 +58,17 @@ export default function FlowIndicator({
         )}
       </div>
 
+      {/* Upstream sources for fan-in or non-adjacent edges */}
+      {showSources && sources.length > 0 && !isTransitioning && (
+        <div 
+          className="absolute left-1/2 top-1/2 -translate-y-1/2 translate-x-8 ml-2
+            px-2 py-1 rounded-md bg-[var(--surface-1)] border border-dashed border-[var(--border)]
+            text-xs text-[var(--text-secondary)] whitespace-nowrap"
+        >
+          From {sources.join(' + ')}
+        </div>
+      )}
+
       {/* Data flow tooltip */}
       {isTransitioning && (
         <div 
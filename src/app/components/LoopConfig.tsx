@@ -0,0 +1,102 @@
+'use client';
+
+import { useCallback } from 'react';
+import { LoopConfig as LoopSettings } from '../types/workflow';
+import ConditionEditor from './ConditionEditor';
+
+interface LoopConfigProps {
+  loop: LoopSettings;
+  bodyOptions: Array<{ id: string; title: string }>;
+  onChange: (loop: LoopSettings) => void;
+  disabled?: boolean;
+}
+
+export default function LoopConfig({
+  loop,
+  bodyOptions,
+  onChange,
+  disabled = false
+}: LoopConfigProps) {
+  const toggleBodyModule = useCallback((moduleId: string) => {
+    onChange({
+      ...loop,
+      bodyIds: loop.bodyIds.includes(moduleId)
+        ? loop.bodyIds.filter(id => id !== moduleId)
+        : [...loop.bodyIds, moduleId]
+    });
+  }, [loop, onChange]);
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-text-secondary">
+        The selected modules run as a group. Each pass reads the previous pass&apos;s output
+        until the exit condition matches.
+      </div>
+
+      {/* Loop Body */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-text-secondary">Repeat:</span>
+        {bodyOptions.length === 0 ? (
+          <span className="text-xs text-text-tertiary">Add agents to repeat</span>
+        ) : (
+          bodyOptions.map(option => {
+            const isSelected = loop.bodyIds.includes(option.id);
+            return (
+              <button
+                key={option.id}
+                onClick={() => toggleBodyModule(option.id)}
+                disabled={disabled}
+                className={`px-2 py-1 text-xs rounded-md border transition-colors
+                  disabled:opacity-50 disabled:cursor-not-allowed
+                  ${isSelected
+                    ? 'bg-primary/10 border-primary text-primary'
+                    : 'bg-surface-2 border-surface-2 text-text-secondary hover:border-surface-3'
+                  }`}
+              >
+                {option.title}
+              </button>
+            );
+          })
+        )}
+      </div>
+
+      {/* Exit Condition */}
+      <div className="p-3 rounded-lg bg-surface-2 border border-surface-2 space-y-2">
+        <label className="flex items-center gap-2 text-xs text-text-secondary">
+          <input
+            type="checkbox"
+            checked={!!loop.exitCondition}
+            onChange={(e) => onChange({
+              ...loop,
+              exitCondition: e.target.checked ? { type: 'contains', value: '' } : null
+            })}
+            disabled={disabled}
+          />
+          Stop when the output matches
+        </label>
+        {loop.exitCondition && (
+          <ConditionEditor
+            condition={loop.exitCondition}
+            onChange={(exitCondition) => onChange({ ...loop, exitCondition })}
+            disabled={disabled}
+          />
+        )}
+      </div>
+
+      {/* Iteration Cap */}
+      <label className="flex items-center gap-2 text-xs text-text-secondary">
+        Max iterations
+        <input
+          type="number"
+          min={1}
+          value={loop.maxIterations}
+          onChange={(e) => onChange({ ...loop, maxIterations: Math.max(1, Number(e.target.value) || 1) })}
+          disabled={disabled}
+          className="w-20 px-2 py-1 text-xs rounded-md bg-surface-1
+            border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary
+            disabled:opacity-50"
+        />
+      </label>
+    </div>
+  );
+}
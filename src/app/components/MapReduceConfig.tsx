@@ -0,0 +1,100 @@
+'use client';
+
+import { MapConfig, ReduceConfig, SplitStrategy } from '../types/workflow';
+
+const SPLIT_LABELS: Record<SplitStrategy, string> = {
+  json: 'JSON array',
+  lines: 'One item per line',
+  headings: 'Markdown headings'
+};
+
+const REDUCE_LABELS: Record<ReduceConfig['strategy'], string> = {
+  concat: 'Concatenate',
+  jsonArray: 'JSON array',
+  agent: 'Combine with an agent'
+};
+
+const inputClassName = `px-2 py-1 text-xs rounded-md bg-surface-1
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary
+  disabled:opacity-50`;
+
+interface MapSettingsProps {
+  map: MapConfig;
+  onChange: (map: MapConfig) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Settings for a map module: how to split its input and how many items to
+ * run at once
+ */
+export function MapSettings({ map, onChange, disabled = false }: MapSettingsProps) {
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-3 text-xs text-text-secondary">
+      <label className="flex items-center gap-2">
+        Split input by
+        <select
+          value={map.splitStrategy}
+          onChange={(e) => onChange({ ...map, splitStrategy: e.target.value as SplitStrategy })}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          {Object.entries(SPLIT_LABELS).map(([strategy, label]) => (
+            <option key={strategy} value={strategy}>{label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        Concurrency
+        <input
+          type="number"
+          min={1}
+          value={map.concurrency}
+          onChange={(e) => onChange({ ...map, concurrency: Math.max(1, Number(e.target.value) || 1) })}
+          disabled={disabled}
+          className={`w-16 ${inputClassName}`}
+        />
+      </label>
+    </div>
+  );
+}
+
+interface ReduceSettingsProps {
+  reduce: ReduceConfig;
+  onChange: (reduce: ReduceConfig) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Settings for a reduce module: how mapped items are joined back together
+ */
+export function ReduceSettings({ reduce, onChange, disabled = false }: ReduceSettingsProps) {
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-3 text-xs text-text-secondary">
+      <label className="flex items-center gap-2">
+        Join items
+        <select
+          value={reduce.strategy}
+          onChange={(e) => onChange({ ...reduce, strategy: e.target.value as ReduceConfig['strategy'] })}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          {Object.entries(REDUCE_LABELS).map(([strategy, label]) => (
+            <option key={strategy} value={strategy}>{label}</option>
+          ))}
+        </select>
+      </label>
+      {reduce.strategy === 'concat' && (
+        <label className="flex items-center gap-2">
+          Separator
+          <input
+            value={(reduce.separator ?? '\n\n').replace(/\n/g, '\\n')}
+            onChange={(e) => onChange({ ...reduce, separator: e.target.value.replace(/\\n/g, '\n') })}
+            disabled={disabled}
+            className={`w-24 font-mono ${inputClassName}`}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
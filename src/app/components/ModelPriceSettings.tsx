@@ -0,0 +1,146 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getModelDisplayName } from '../types/workflow';
+import { CustomProvider } from '../utils/customProviders';
+import {
+  DEFAULT_PRICES,
+  ModelPrice,
+  PriceTable,
+  getPriceOverrides,
+  getPriceTable,
+  savePriceOverrides
+} from '../utils/pricing';
+
+interface ModelPriceSettingsProps {
+  customProviders: CustomProvider[];
+}
+
+const inputClassName = `w-20 px-2 py-1 text-sm rounded-md bg-surface-1
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary`;
+
+/**
+ * Settings section for the price of each model, used to work out what a
+ * run cost and to keep runs within their budget
+ */
+export default function ModelPriceSettings({ customProviders }: ModelPriceSettingsProps) {
+  const [overrides, setOverrides] = useState<PriceTable>({});
+  const [newModel, setNewModel] = useState('');
+
+  useEffect(() => {
+    setOverrides(getPriceOverrides());
+  }, []);
+
+  const prices = getPriceTable(overrides);
+  const customIds = new Set(customProviders.map(p => p.id));
+  const rows = [
+    ...Object.keys(prices)
+      .filter(key => !customIds.has(key))
+      .map(key => ({ key, name: getModelDisplayName(key), detail: key })),
+    ...customProviders.map(p => ({ key: p.id, name: p.name, detail: 'every model of this provider' }))
+  ];
+
+  const save = (updated: PriceTable) => {
+    savePriceOverrides(updated);
+    setOverrides(updated);
+  };
+
+  const handleChange = (key: string, field: keyof ModelPrice, value: string) => {
+    const price: ModelPrice = { ...(prices[key] || { input: 0, output: 0 }), [field]: Math.max(0, Number(value) || 0) };
+    save({ ...overrides, [key]: price });
+  };
+
+  // Go back to the default price, or remove a model that has none
+  const handleReset = (key: string) => {
+    const { [key]: _removed, ...rest } = overrides;
+    save(rest);
+  };
+
+  const handleAdd = () => {
+    const key = newModel.trim();
+    if (!key || prices[key]) return;
+    save({ ...overrides, [key]: { input: 0, output: 0 } });
+    setNewModel('');
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-2">Model Prices</h3>
+      <p className="text-xs text-text-tertiary mb-4">
+        Dollars per million tokens, used for the cost of each run and for run budgets. Models
+        without a price count as free.
+      </p>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-[1fr_auto_auto_auto] gap-3 px-3 text-xs text-text-secondary">
+          <span>Model</span>
+          <span className="w-20">Input</span>
+          <span className="w-20">Output</span>
+          <span className="w-12" />
+        </div>
+        {rows.map(({ key, name, detail }) => (
+          <div
+            key={key}
+            className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-3 p-3 rounded-lg
+              bg-surface-2 border border-surface-2"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium truncate">{name}</div>
+              <div className="text-xs text-text-tertiary truncate">{detail}</div>
+            </div>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={prices[key]?.input ?? ''}
+              onChange={(e) => handleChange(key, 'input', e.target.value)}
+              placeholder="—"
+              aria-label={`Input price of ${name}`}
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={prices[key]?.output ?? ''}
+              onChange={(e) => handleChange(key, 'output', e.target.value)}
+              placeholder="—"
+              aria-label={`Output price of ${name}`}
+              className={inputClassName}
+            />
+            <button
+              onClick={() => handleReset(key)}
+              disabled={!overrides[key]}
+              className="w-12 text-xs text-text-secondary hover:text-primary transition-colors
+                disabled:opacity-0 disabled:cursor-default"
+              title={DEFAULT_PRICES[key] ? 'Use the default price' : 'Remove the price'}
+            >
+              {DEFAULT_PRICES[key] ? 'Reset' : 'Remove'}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 mt-3">
+        <input
+          value={newModel}
+          onChange={(e) => setNewModel(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Model ID, e.g. gpt-4o"
+          className="flex-1 px-2 py-1 text-sm rounded-md bg-surface-1
+            border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newModel.trim() || !!prices[newModel.trim()]}
+          className="px-3 py-1.5 text-sm font-medium rounded-lg
+            bg-surface-2 hover:bg-surface-3
+            border border-surface-2 hover:border-surface-3
+            transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Model
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { JsonSchema } from '../types/workflow';
+
+interface OutputSchemaConfigProps {
+  schema?: JsonSchema;
+  onChange: (schema: JsonSchema | undefined) => void;
+  disabled?: boolean;
+}
+
+const EXAMPLE_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "summary": { "type": "string" }
+  },
+  "required": ["summary"]
+}`;
+
+const format = (schema?: JsonSchema) => (schema ? JSON.stringify(schema, null, 2) : '');
+
+/**
+ * JSON Schema for a module's output. With one set, the module answers in
+ * JSON, and answers that don't match are sent back to the model to fix.
+ */
+export default function OutputSchemaConfig({ schema, onChange, disabled = false }: OutputSchemaConfigProps) {
+  // The text being edited, which may not parse yet
+  const [draft, setDraft] = useState(() => format(schema));
+  const [error, setError] = useState<string | null>(null);
+
+  // Pick up changes made elsewhere, e.g. an imported workflow
+  useEffect(() => {
+    setDraft(current => {
+      try {
+        if (JSON.stringify(JSON.parse(current || 'null')) === JSON.stringify(schema ?? null)) return current;
+      } catch {
+        // Keep editing text that doesn't parse yet
+        return current;
+      }
+      return format(schema);
+    });
+  }, [schema]);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    if (!text.trim()) {
+      setError(null);
+      onChange(undefined);
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(text);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        setError('The schema must be a JSON object');
+        return;
+      }
+      setError(null);
+      onChange(parsed);
+    } catch (parseError) {
+      setError(`Invalid JSON: ${(parseError as Error).message}`);
+    }
+  };
+
+  return (
+    <details className="mt-4 text-xs text-text-secondary">
+      <summary className="cursor-pointer select-none">
+        Output: {schema ? 'JSON matching a schema' : 'text'}
+      </summary>
+
+      <div className="mt-2 p-3 rounded-lg bg-surface-2 border border-surface-2 space-y-2">
+        <textarea
+          value={draft}
+          onChange={(e) => handleChange(e.target.value)}
+          placeholder={EXAMPLE_SCHEMA}
+          rows={6}
+          spellCheck={false}
+          disabled={disabled}
+          className="w-full px-2 py-1 font-mono text-xs rounded-md bg-surface-1
+            border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary
+            disabled:opacity-50"
+        />
+        {error && <p className="text-error">{error}</p>}
+        <p className="text-text-tertiary">
+          Leave empty for a text answer. OpenAI, Gemini and Claude are held to the schema by their
+          own JSON features; the module checks every answer and asks the model to fix one that
+          doesn&apos;t match. The parsed JSON is kept with the result.
+        </p>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BuiltInProvider, PROVIDER_NAMES } from '../types/workflow';
+import { CustomProvider } from '../utils/customProviders';
+import {
+  ProviderLimits,
+  ProviderLimitSettings,
+  getProviderLimitSettings,
+  saveProviderLimitSettings
+} from '../utils/requestScheduler';
+
+interface RequestLimitSettingsProps {
+  customProviders: CustomProvider[];
+}
+
+const inputClassName = `w-20 px-2 py-1 text-sm rounded-md bg-surface-1
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary`;
+
+/**
+ * Settings section for the limits on requests to each provider, shared by
+ * every agent, branch and batch row that calls it
+ */
+export default function RequestLimitSettings({ customProviders }: RequestLimitSettingsProps) {
+  const [settings, setSettings] = useState<ProviderLimitSettings>({});
+
+  useEffect(() => {
+    setSettings(getProviderLimitSettings());
+  }, []);
+
+  const providers = [
+    ...(Object.keys(PROVIDER_NAMES) as BuiltInProvider[]).map(key => ({ key, name: PROVIDER_NAMES[key] })),
+    ...customProviders.map(p => ({ key: p.id, name: p.name }))
+  ];
+
+  const handleChange = (key: string, field: keyof ProviderLimits, value: string) => {
+    const number = Math.floor(Number(value));
+    const limits = { ...settings[key], [field]: value && number > 0 ? number : undefined };
+    const updated = { ...settings, [key]: limits };
+    if (!limits.maxConcurrent && !limits.requestsPerMinute) delete updated[key];
+    saveProviderLimitSettings(updated);
+    setSettings(updated);
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-2">Request Limits</h3>
+      <p className="text-xs text-text-tertiary mb-4">
+        Requests beyond these limits wait their turn. Whatever the limits, requests slow down
+        when a provider reports its rate limit is nearly used up, and wait for it to reset once
+        it runs out. Leave a field blank for no limit.
+      </p>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-[1fr_auto_auto] gap-3 px-3 text-xs text-text-secondary">
+          <span>Provider</span>
+          <span className="w-20">At once</span>
+          <span className="w-20">Per minute</span>
+        </div>
+        {providers.map(({ key, name }) => (
+          <div
+            key={key}
+            className="grid grid-cols-[1fr_auto_auto] items-center gap-3 p-3 rounded-lg
+              bg-surface-2 border border-surface-2"
+          >
+            <span className="text-sm font-medium truncate">{name}</span>
+            <input
+              type="number"
+              min={1}
+              value={settings[key]?.maxConcurrent ?? ''}
+              onChange={(e) => handleChange(key, 'maxConcurrent', e.target.value)}
+              placeholder="No limit"
+              aria-label={`Most requests to ${name} at once`}
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={1}
+              value={settings[key]?.requestsPerMinute ?? ''}
+              onChange={(e) => handleChange(key, 'requestsPerMinute', e.target.value)}
+              placeholder="No limit"
+              aria-label={`Most requests to ${name} per minute`}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getModelDisplayName } from '../types/workflow';
+import {
+  CachedResponse,
+  clearResponseCache,
+  deleteCachedResponse,
+  isCacheEnabled,
+  listCachedResponses,
+  setCacheEnabled
+} from '../utils/responseCache';
+
+/**
+ * Settings section for the response cache: turn it on or off and look
+ * through, delete or clear the stored responses
+ */
+export default function ResponseCacheSettings() {
+  const [enabled, setEnabled] = useState(false);
+  const [entries, setEntries] = useState<CachedResponse[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    listCachedResponses()
+      .then(setEntries)
+      .catch(error => setError(`Failed to load cached responses: ${(error as Error).message}`));
+  }, []);
+
+  useEffect(() => {
+    setEnabled(isCacheEnabled());
+    refresh();
+  }, [refresh]);
+
+  const handleToggle = (value: boolean) => {
+    setCacheEnabled(value);
+    setEnabled(value);
+  };
+
+  const handleDelete = async (key: string) => {
+    await deleteCachedResponse(key);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    await clearResponseCache();
+    refresh();
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium">Response Cache</h3>
+        <button
+          onClick={handleClear}
+          disabled={entries.length === 0}
+          className="px-3 py-1.5 text-sm font-medium rounded-lg
+            bg-surface-2 hover:bg-surface-3
+            border border-surface-2 hover:border-surface-3
+            transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear All
+        </button>
+      </div>
+
+      <label className="flex items-start gap-2 mb-4 text-sm">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="mt-0.5 rounded border-surface-2"
+        />
+        <span>
+          Reuse responses for identical requests
+          <span className="block text-xs text-text-tertiary mt-0.5">
+            An agent sending the same prompt to the same model gets the stored answer back
+            instead of calling the provider. Cached answers use no tokens.
+          </span>
+        </span>
+      </label>
+
+      {error && <p className="mb-2 text-sm text-error">{error}</p>}
+
+      {entries.length > 0 ? (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {entries.map(entry => (
+            <div
+              key={entry.key}
+              className="flex items-start justify-between gap-2 p-3 rounded-lg
+                bg-surface-2 border border-surface-2"
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-medium">{getModelDisplayName(entry.model)}</div>
+                <div className="text-sm text-text-secondary truncate" title={entry.prompt}>
+                  {entry.prompt}
+                </div>
+                <div className="text-xs text-text-tertiary mt-0.5">
+                  {new Date(entry.createdAt).toLocaleString()}
+                  {' · '}{entry.hits} hit{entry.hits === 1 ? '' : 's'}
+                </div>
+              </div>
+              <button
+                onClick={() => handleDelete(entry.key)}
+                className="p-1.5 text-text-secondary hover:text-error
+                  hover:bg-error/10 rounded transition-colors"
+                title="Delete cached response"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-text-secondary">No cached responses</p>
+      )}
+    </div>
+  );
+}
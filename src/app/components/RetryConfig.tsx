@@ -0,0 +1,146 @@
+'use client';
+
+import { BackoffCurve, RetryErrorClass, RetryPolicy } from '../types/workflow';
+import { DEFAULT_RETRY_POLICY, RETRY_ERROR_LABELS } from '../utils/retry';
+
+interface RetryConfigProps {
+  retry?: RetryPolicy;
+  onChange: (retry: RetryPolicy | undefined) => void;
+  disabled?: boolean;
+}
+
+const BACKOFF_LABELS: Record<BackoffCurve, string> = {
+  fixed: 'Fixed',
+  linear: 'Linear',
+  exponential: 'Exponential'
+};
+
+const inputClassName = `px-2 py-1 text-xs rounded-md bg-surface-1
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary
+  disabled:opacity-50`;
+
+/**
+ * Retry settings for a module that calls a model. Modules without their own
+ * policy use the default one.
+ */
+export default function RetryConfig({ retry, onChange, disabled = false }: RetryConfigProps) {
+  const policy = retry || DEFAULT_RETRY_POLICY;
+
+  const update = (updates: Partial<RetryPolicy>) => {
+    onChange({ ...policy, ...updates });
+  };
+
+  const toggleErrorClass = (errorClass: RetryErrorClass) => {
+    update({
+      retryOn: policy.retryOn.includes(errorClass)
+        ? policy.retryOn.filter(c => c !== errorClass)
+        : [...policy.retryOn, errorClass]
+    });
+  };
+
+  return (
+    <details className="mt-4 text-xs text-text-secondary">
+      <summary className="cursor-pointer select-none">
+        Retries: {policy.maxAttempts <= 1 ? 'off' : `up to ${policy.maxAttempts} attempts, ${policy.backoff} backoff`}
+        {!retry && ' (default)'}
+      </summary>
+
+      <div className="mt-2 p-3 rounded-lg bg-surface-2 border border-surface-2 space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2">
+            Max attempts
+            <input
+              type="number"
+              min={1}
+              value={policy.maxAttempts}
+              onChange={(e) => update({ maxAttempts: Math.max(1, Number(e.target.value) || 1) })}
+              disabled={disabled}
+              className={`w-16 ${inputClassName}`}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Backoff
+            <select
+              value={policy.backoff}
+              onChange={(e) => update({ backoff: e.target.value as BackoffCurve })}
+              disabled={disabled}
+              className={inputClassName}
+            >
+              {Object.entries(BACKOFF_LABELS).map(([curve, label]) => (
+                <option key={curve} value={curve}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Base delay (ms)
+            <input
+              type="number"
+              min={0}
+              step={100}
+              value={policy.baseDelayMs}
+              onChange={(e) => update({ baseDelayMs: Math.max(0, Number(e.target.value) || 0) })}
+              disabled={disabled}
+              className={`w-20 ${inputClassName}`}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Max delay (ms)
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={policy.maxDelayMs}
+              onChange={(e) => update({ maxDelayMs: Math.max(0, Number(e.target.value) || 0) })}
+              disabled={disabled}
+              className={`w-24 ${inputClassName}`}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={policy.jitter}
+              onChange={(e) => update({ jitter: e.target.checked })}
+              disabled={disabled}
+            />
+            Jitter
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span>Retry on:</span>
+          {(Object.keys(RETRY_ERROR_LABELS) as RetryErrorClass[]).map(errorClass => {
+            const isSelected = policy.retryOn.includes(errorClass);
+            return (
+              <button
+                key={errorClass}
+                onClick={() => toggleErrorClass(errorClass)}
+                disabled={disabled}
+                className={`px-2 py-1 text-xs rounded-md border transition-colors
+                  disabled:opacity-50 disabled:cursor-not-allowed
+                  ${isSelected
+                    ? 'bg-primary/10 border-primary text-primary'
+                    : 'bg-surface-1 border-surface-2 text-text-secondary hover:border-surface-3'
+                  }`}
+              >
+                {RETRY_ERROR_LABELS[errorClass]}
+              </button>
+            );
+          })}
+          {retry && (
+            <button
+              onClick={() => onChange(undefined)}
+              disabled={disabled}
+              className="ml-auto text-text-secondary hover:text-text-primary disabled:opacity-50"
+            >
+              Reset to default
+            </button>
+          )}
+        </div>
+
+        <div>
+          A Retry-After or rate-limit reset from the provider is always waited out, even past the max delay.
+        </div>
+      </div>
+    </details>
+  );
+}
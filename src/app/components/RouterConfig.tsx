@@ -0,0 +1,152 @@
+'use client';
+
+import { useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { RouteBranch } from '../types/workflow';
+import ConditionEditor from './ConditionEditor';
+
+interface RouterConfigProps {
+  branches: RouteBranch[];
+  targetOptions: Array<{ id: string; title: string }>;
+  onChange: (branches: RouteBranch[]) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = `px-2 py-1 text-xs rounded-md bg-surface-1
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary
+  disabled:opacity-50`;
+
+export default function RouterConfig({
+  branches,
+  targetOptions,
+  onChange,
+  disabled = false
+}: RouterConfigProps) {
+  const updateBranch = useCallback((branchId: string, updates: Partial<RouteBranch>) => {
+    onChange(branches.map(b => b.id === branchId ? { ...b, ...updates } : b));
+  }, [branches, onChange]);
+
+  const toggleTarget = useCallback((branch: RouteBranch, targetId: string) => {
+    updateBranch(branch.id, {
+      targetIds: branch.targetIds.includes(targetId)
+        ? branch.targetIds.filter(id => id !== targetId)
+        : [...branch.targetIds, targetId]
+    });
+  }, [updateBranch]);
+
+  const addBranch = useCallback((isFallback: boolean) => {
+    onChange([
+      ...branches,
+      {
+        id: uuidv4(),
+        name: isFallback ? 'Otherwise' : `Branch ${branches.length + 1}`,
+        condition: isFallback ? null : { type: 'contains', value: '' },
+        targetIds: []
+      }
+    ]);
+  }, [branches, onChange]);
+
+  const removeBranch = useCallback((branchId: string) => {
+    onChange(branches.filter(b => b.id !== branchId));
+  }, [branches, onChange]);
+
+  const hasFallback = branches.some(b => !b.condition);
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-text-secondary">
+        Branches are checked in order against the incoming output. The first match wins.
+      </div>
+
+      {branches.map(branch => (
+        <div key={branch.id} className="p-3 rounded-lg bg-surface-2 border border-surface-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={branch.name}
+              onChange={(e) => updateBranch(branch.id, { name: e.target.value })}
+              disabled={disabled}
+              className={`flex-1 font-medium ${inputClassName}`}
+              placeholder="Branch name"
+            />
+            <button
+              onClick={() => removeBranch(branch.id)}
+              disabled={disabled}
+              className="p-1 text-text-secondary hover:text-error
+                hover:bg-error/10 rounded transition-colors disabled:opacity-50"
+              title="Remove branch"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {branch.condition ? (
+            <ConditionEditor
+              condition={branch.condition}
+              onChange={(condition) => updateBranch(branch.id, { condition })}
+              disabled={disabled}
+            />
+          ) : (
+            <div className="text-xs text-text-secondary">
+              Taken when no other branch matches
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-text-secondary">Send to:</span>
+            {targetOptions.length === 0 ? (
+              <span className="text-xs text-text-tertiary">
+                Connect agents to this router to route to them
+              </span>
+            ) : (
+              targetOptions.map(option => {
+                const isSelected = branch.targetIds.includes(option.id);
+                return (
+                  <button
+                    key={option.id}
+                    onClick={() => toggleTarget(branch, option.id)}
+                    disabled={disabled}
+                    className={`px-2 py-1 text-xs rounded-md border transition-colors
+                      disabled:opacity-50 disabled:cursor-not-allowed
+                      ${isSelected
+                        ? 'bg-primary/10 border-primary text-primary'
+                        : 'bg-surface-1 border-surface-2 text-text-secondary hover:border-surface-3'
+                      }`}
+                  >
+                    {option.title}
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => addBranch(false)}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm font-medium rounded-lg
+            bg-surface-2 hover:bg-surface-3
+            border border-surface-2 hover:border-surface-3
+            transition-colors disabled:opacity-50"
+        >
+          Add Branch
+        </button>
+        {!hasFallback && (
+          <button
+            onClick={() => addBranch(true)}
+            disabled={disabled}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg
+              bg-surface-2 hover:bg-surface-3
+              border border-surface-2 hover:border-surface-3
+              transition-colors disabled:opacity-50"
+          >
+            Add Fallback
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RunBudget, describeBudget, getRunBudget, saveRunBudget } from '../utils/budget';
+
+interface RunBudgetConfigProps {
+  disabled?: boolean;
+}
+
+const inputClassName = `w-28 px-2 py-1 text-xs rounded-md bg-surface-1
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary
+  disabled:opacity-50`;
+
+/**
+ * The most a run may spend, in tokens and dollars. A run stops before any
+ * call that would go over.
+ */
+export default function RunBudgetConfig({ disabled = false }: RunBudgetConfigProps) {
+  const [budget, setBudget] = useState<RunBudget>({});
+
+  useEffect(() => {
+    setBudget(getRunBudget());
+  }, []);
+
+  const update = (field: keyof RunBudget, value: string) => {
+    const number = Number(value);
+    const updated = { ...budget, [field]: value && number > 0 ? number : undefined };
+    saveRunBudget(updated);
+    setBudget(updated);
+  };
+
+  return (
+    <details className="text-xs text-text-secondary">
+      <summary className="cursor-pointer select-none text-center">
+        Budget per run: {describeBudget(budget) || 'none'}
+      </summary>
+
+      <div className="mt-2 p-3 rounded-lg bg-surface-2 border border-surface-2 space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2">
+            Max tokens
+            <input
+              type="number"
+              min={1}
+              value={budget.maxTokens ?? ''}
+              onChange={(e) => update('maxTokens', e.target.value)}
+              placeholder="No limit"
+              disabled={disabled}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Max cost ($)
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={budget.maxCost ?? ''}
+              onChange={(e) => update('maxCost', e.target.value)}
+              placeholder="No limit"
+              disabled={disabled}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+        <p className="text-text-tertiary">
+          Before each call the run estimates its prompt plus the longest answer the model may give,
+          and stops if that would go over. Costs come from the prices in the settings; models
+          without a price count as free. A batch shares one budget across all its rows.
+        </p>
+      </div>
+    </details>
+  );
+}
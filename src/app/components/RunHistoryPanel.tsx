@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { getModelDisplayName } from '../types/workflow';
+import {
+  RunRecord,
+  RunStatus,
+  RetentionSettings,
+  listRuns,
+  filterRuns,
+  importServerRuns,
+  deleteRun,
+  clearRuns,
+  pruneRuns,
+  getRetention,
+  saveRetention
+} from '../utils/runHistory';
+import { getRunDuration } from '../utils/timing';
+
+interface RunHistoryPanelProps {
+  onOpen: (run: RunRecord) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<RunStatus, string> = {
+  completed: 'bg-green-500/10 text-green-400',
+  failed: 'bg-error/10 text-error',
+  cancelled: 'bg-[var(--surface-3)] text-text-secondary'
+};
+
+const inputClassName = `px-2 py-1 text-xs rounded-md bg-surface-2
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary`;
+
+/**
+ * Slide-in list of past runs saved in the browser, including those started
+ * by webhook triggers, with search, filters and the retention setting
+ */
+export default function RunHistoryPanel({ onOpen, onClose }: RunHistoryPanelProps) {
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [workflowId, setWorkflowId] = useState('');
+  const [model, setModel] = useState('');
+  const [status, setStatus] = useState<RunStatus | ''>('');
+  const [retention, setRetention] = useState<RetentionSettings>(getRetention);
+
+  const loadRuns = useCallback(() => {
+    listRuns()
+      .then(setRuns)
+      .catch(error => setLoadError((error as Error).message));
+  }, []);
+
+  // Pick up runs started by triggers and schedules on the server, then
+  // list everything. The saved runs are still shown if the server can't be
+  // reached.
+  useEffect(() => {
+    importServerRuns()
+      .catch(error => console.error('Failed to import server runs:', error))
+      .finally(loadRuns);
+  }, [loadRuns]);
+
+  // Filter options come from every saved run, not just the visible ones
+  const workflows = useMemo(() => Array.from(
+    new Map(runs.map(run => [run.workflowId, run.workflowLabel])).entries()
+  ), [runs]);
+  const models = useMemo(() => Array.from(new Set(runs.flatMap(run => run.models))).sort(), [runs]);
+
+  const visibleRuns = useMemo(() => filterRuns(runs, {
+    search,
+    workflowId: workflowId || undefined,
+    model: model || undefined,
+    status: status || undefined
+  }), [runs, search, workflowId, model, status]);
+
+  // Applied when a field loses focus, so typing "50" doesn't prune down to
+  // 5 runs on the way
+  const applyRetention = () => {
+    saveRetention(retention);
+    pruneRuns(retention).then(loadRuns).catch(error => setLoadError((error as Error).message));
+  };
+
+  const handleDelete = (id: string) => {
+    deleteRun(id).then(loadRuns).catch(error => setLoadError((error as Error).message));
+  };
+
+  const handleClear = () => {
+    clearRuns().then(loadRuns).catch(error => setLoadError((error as Error).message));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div
+        className="absolute inset-0 bg-surface-0/80 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      <div className="absolute left-0 top-0 h-full w-[480px] max-w-full flex flex-col bg-[var(--surface-1)]
+        shadow-[4px_0_15px_rgba(0,0,0,0.3)] border-r border-[var(--border)]">
+        <div className="flex items-center justify-between p-6 border-b border-[var(--border)]">
+          <h2 className="text-xl font-semibold">Run History</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-[var(--surface-3)] transition-colors hover:text-primary"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Search and filters */}
+        <div className="p-4 space-y-2 border-b border-[var(--border)]">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className={`w-full ${inputClassName}`}
+            placeholder="Search prompts, inputs and outputs"
+          />
+          <div className="flex gap-2">
+            <select value={workflowId} onChange={(e) => setWorkflowId(e.target.value)} className={`flex-1 min-w-0 ${inputClassName}`}>
+              <option value="">All workflows</option>
+              {workflows.map(([id, label]) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+            <select value={model} onChange={(e) => setModel(e.target.value)} className={`flex-1 min-w-0 ${inputClassName}`}>
+              <option value="">All models</option>
+              {models.map(m => (
+                <option key={m} value={m}>{getModelDisplayName(m)}</option>
+              ))}
+            </select>
+            <select value={status} onChange={(e) => setStatus(e.target.value as RunStatus | '')} className={inputClassName}>
+              <option value="">Any status</option>
+              <option value="completed">Completed</option>
+              <option value="failed">Failed</option>
+              <option value="cancelled">Cancelled</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {loadError && (
+            <div className="p-3 text-sm rounded-lg bg-error/10 text-error border border-error/20">
+              {loadError}
+            </div>
+          )}
+
+          {visibleRuns.map(run => (
+            <div
+              key={run.id}
+              className="group p-3 rounded-lg bg-surface-2 border border-surface-2 hover:border-primary/50
+                cursor-pointer transition-colors"
+              onClick={() => onOpen(run)}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-medium truncate">{run.workflowLabel}</div>
+                <div className="shrink-0 flex items-center gap-1">
+                  {run.source && (
+                    <span
+                      className="px-1.5 py-0.5 text-xs rounded bg-primary/10 text-primary"
+                      title={run.source.type === 'trigger' ? 'Started by a webhook trigger' : 'Started on a schedule'}
+                    >
+                      {run.source.name}
+                    </span>
+                  )}
+                  <span className={`px-1.5 py-0.5 text-xs rounded ${STATUS_STYLES[run.status]}`}>
+                    {run.status}
+                  </span>
+                </div>
+              </div>
+              <div className="mt-1 flex items-center justify-between text-xs text-text-secondary">
+                <span>
+                  {new Date(run.startedAt).toLocaleString()}
+                  {' · '}{(getRunDuration(run.results) / 1000).toFixed(1)}s
+                  {' · '}{run.totalTokens.toLocaleString()} tokens
+                </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(run.id);
+                  }}
+                  className="p-1 opacity-0 group-hover:opacity-100 hover:text-error transition-opacity"
+                  title="Delete run"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              {run.error && (
+                <div className="mt-1 text-xs text-error truncate">{run.error}</div>
+              )}
+            </div>
+          ))}
+
+          {!loadError && visibleRuns.length === 0 && (
+            <div className="text-center py-8 text-sm text-[var(--text-secondary)]">
+              {runs.length === 0 ? 'No runs yet' : 'No runs match these filters'}
+            </div>
+          )}
+        </div>
+
+        {/* Retention */}
+        <div className="p-4 border-t border-[var(--border)] flex flex-wrap items-center gap-2 text-xs text-text-secondary">
+          <span>Keep the last</span>
+          <input
+            type="number"
+            min={0}
+            value={retention.maxRuns}
+            onChange={(e) => setRetention(prev => ({ ...prev, maxRuns: Math.max(0, Number(e.target.value) || 0) }))}
+            onBlur={applyRetention}
+            className={`w-16 ${inputClassName}`}
+          />
+          <span>runs, up to</span>
+          <input
+            type="number"
+            min={0}
+            value={retention.maxAgeDays}
+            onChange={(e) => setRetention(prev => ({ ...prev, maxAgeDays: Math.max(0, Number(e.target.value) || 0) }))}
+            onBlur={applyRetention}
+            className={`w-16 ${inputClassName}`}
+          />
+          <span>days (0 = no limit)</span>
+          <button
+            onClick={handleClear}
+            disabled={runs.length === 0}
+            className="ml-auto px-2 py-1 rounded-md hover:text-error hover:bg-error/10
+              transition-colors disabled:opacity-50"
+          >
+            Clear all
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { WorkflowParam, WorkflowParamValues } from '../types/workflow';
+import { getDefaultValues, validateParamValues } from '../utils/workflowParams';
+
+interface RunInputFormProps {
+  params: WorkflowParam[];
+  initialValues?: WorkflowParamValues;
+  title?: string;
+  submitLabel?: string;
+  onRun: (values: WorkflowParamValues) => void;
+  onCancel: () => void;
+}
+
+const fieldClassName = `w-full px-3 py-1.5 text-sm rounded-lg bg-surface-2
+  border border-surface-2 focus:border-primary
+  focus:ring-1 focus:ring-primary`;
+
+/**
+ * Dialog asking for the workflow's input values, before a run starts or
+ * for a schedule's fixed inputs
+ */
+export default function RunInputForm({
+  params,
+  initialValues,
+  title = 'Run Workflow',
+  submitLabel = 'Run',
+  onRun,
+  onCancel
+}: RunInputFormProps) {
+  const [values, setValues] = useState<WorkflowParamValues>(() => ({
+    ...getDefaultValues(params),
+    ...initialValues
+  }));
+  const [fileNames, setFileNames] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const setValue = (name: string, value: string | number) => {
+    setValues(prev => ({ ...prev, [name]: value }));
+    setErrors(prev => ({ ...prev, [name]: '' }));
+  };
+
+  const handleFile = (name: string, file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      setValue(name, event.target?.result as string);
+      setFileNames(prev => ({ ...prev, [name]: file.name }));
+    };
+    reader.readAsText(file);
+  };
+
+  const handleSubmit = () => {
+    const validationErrors = validateParamValues(params, values);
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    // Numbers are entered as text; store them as numbers
+    const parsed = Object.fromEntries(Object.entries(values).map(([name, value]) => {
+      const param = params.find(p => p.name === name);
+      return [name, param?.type === 'number' && value !== '' ? Number(value) : value];
+    }));
+    onRun(parsed);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div
+        className="absolute inset-0 bg-surface-0/80 backdrop-blur-sm"
+        onClick={onCancel}
+      />
+      <div className="relative bg-surface-1 rounded-lg shadow-lg p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-4">{title}</h3>
+
+        <div className="space-y-4">
+          {params.map(param => (
+            <div key={param.id}>
+              <label className="block text-sm font-medium text-text-secondary mb-1">
+                {param.name}{param.required && <span className="text-error"> *</span>}
+                {param.description && (
+                  <span className="block text-xs text-text-tertiary mt-0.5 font-normal">
+                    {param.description}
+                  </span>
+                )}
+              </label>
+
+              {param.type === 'text' ? (
+                <textarea
+                  value={values[param.name] ?? ''}
+                  onChange={(e) => setValue(param.name, e.target.value)}
+                  rows={5}
+                  className={`${fieldClassName} resize-y`}
+                />
+              ) : param.type === 'enum' ? (
+                <select
+                  value={values[param.name] ?? ''}
+                  onChange={(e) => setValue(param.name, e.target.value)}
+                  className={fieldClassName}
+                >
+                  {!param.required && <option value="">—</option>}
+                  {param.options?.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : param.type === 'file' ? (
+                <div className="flex items-center gap-2">
+                  <label className="px-3 py-1.5 text-sm font-medium rounded-lg
+                    bg-surface-2 hover:bg-surface-3
+                    border border-surface-2 hover:border-surface-3
+                    transition-colors cursor-pointer"
+                  >
+                    <input
+                      type="file"
+                      className="hidden"
+                      onChange={(e) => handleFile(param.name, e.target.files?.[0])}
+                    />
+                    Choose File
+                  </label>
+                  <span className="text-xs text-text-secondary truncate">
+                    {fileNames[param.name] || (values[param.name] ? 'Previous file contents' : 'No file chosen')}
+                  </span>
+                </div>
+              ) : (
+                <input
+                  type={param.type === 'number' ? 'number' : 'text'}
+                  value={values[param.name] ?? ''}
+                  onChange={(e) => setValue(param.name, e.target.value)}
+                  className={fieldClassName}
+                />
+              )}
+
+              {errors[param.name] && (
+                <p className="mt-1 text-xs text-error">{errors[param.name]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg
+              bg-surface-2 hover:bg-surface-3
+              border border-surface-2 hover:border-surface-3
+              transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg
+              bg-primary hover:bg-primary-hover text-white
+              transition-colors"
+          >
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { WorkflowModuleData, WorkflowParam, WorkflowParamValues } from '../types/workflow';
+import { parseCron } from '../utils/cron';
+import { getWorkflowLabel } from '../utils/runHistory';
+import { getBrowserApiKeys, getUsedCustomProviders } from '../utils/serverWorkflows';
+import { formatParamValues, getDefaultValues, validateParamValues } from '../utils/workflowParams';
+import {
+  MissedRunPolicy,
+  ScheduledRun,
+  ScheduledRunStatus,
+  WorkflowSchedule,
+  createSchedule,
+  deleteSchedule,
+  listSchedules,
+  updateSchedule
+} from '../utils/schedules';
+import RunInputForm from './RunInputForm';
+
+interface SchedulesPanelProps {
+  modules: WorkflowModuleData[];
+  params: WorkflowParam[];
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ScheduledRunStatus, string> = {
+  running: 'bg-blue-500/10 text-blue-400',
+  completed: 'bg-green-500/10 text-green-400',
+  failed: 'bg-error/10 text-error',
+  cancelled: 'bg-[var(--surface-3)] text-text-secondary',
+  skipped: 'bg-[var(--surface-3)] text-text-secondary'
+};
+
+const CRON_PRESETS = [
+  { label: 'Every hour', cron: '0 * * * *' },
+  { label: 'Every day at 9:00', cron: '0 9 * * *' },
+  { label: 'Weekdays at 9:00', cron: '0 9 * * 1-5' },
+  { label: 'Mondays at 9:00', cron: '0 9 * * 1' }
+];
+
+// How often the list is refreshed while open, to show new runs
+const REFRESH_INTERVAL_MS = 15 * 1000;
+
+const inputClassName = `w-full px-2 py-1 text-sm rounded-md bg-surface-2
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary`;
+
+const buttonClassName = `px-2 py-1 text-xs font-medium rounded-md
+  bg-surface-2 hover:bg-surface-3
+  border border-surface-2 hover:border-surface-3
+  transition-colors disabled:opacity-50 disabled:cursor-not-allowed`;
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+/**
+ * Dialog for running the workflow on a cron schedule with fixed inputs,
+ * listing each schedule's upcoming times and the runs they started
+ */
+export default function SchedulesPanel({ modules, params, onClose }: SchedulesPanelProps) {
+  const [schedules, setSchedules] = useState<WorkflowSchedule[]>([]);
+  const [runs, setRuns] = useState<ScheduledRun[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState(() => getWorkflowLabel(modules));
+  const [cron, setCron] = useState(CRON_PRESETS[1].cron);
+  const [inputValues, setInputValues] = useState<WorkflowParamValues>(() => getDefaultValues(params));
+  const [inputText, setInputText] = useState('');
+  const [showInputForm, setShowInputForm] = useState(false);
+  const [missedRunPolicy, setMissedRunPolicy] = useState<MissedRunPolicy>('skip');
+  const [saveKeys, setSaveKeys] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const approvalModule = modules.find(m => m.kind === 'approval');
+
+  const cronError = useMemo(() => {
+    try {
+      parseCron(cron);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }, [cron]);
+  const inputsMissing = Object.keys(validateParamValues(params, inputValues)).length > 0;
+
+  const loadSchedules = useCallback(() => {
+    listSchedules()
+      .then(data => {
+        setSchedules(data.schedules);
+        setRuns(data.runs);
+      })
+      .catch(error => setError((error as Error).message));
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+    const timer = setInterval(loadSchedules, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadSchedules]);
+
+  const handle = (action: () => Promise<unknown>) => {
+    setError(null);
+    action()
+      .then(loadSchedules)
+      .catch(error => setError((error as Error).message));
+  };
+
+  const handleCreate = () => {
+    setIsSaving(true);
+    handle(() => createSchedule({
+      name,
+      modules,
+      params,
+      customProviders: getUsedCustomProviders(modules),
+      inputs: inputValues,
+      input: inputText,
+      cron,
+      missedRunPolicy,
+      ...(saveKeys && { apiKeys: getBrowserApiKeys() })
+    }).finally(() => setIsSaving(false)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-surface-0/80 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-surface-1 rounded-lg shadow-lg max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-[var(--border)]">
+          <h2 className="text-xl font-semibold">Schedules</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-[var(--surface-3)] transition-colors hover:text-primary"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <div className="p-3 text-sm rounded-lg bg-error/10 text-error border border-error/20">
+              {error}
+            </div>
+          )}
+
+          {/* New schedule for the current workflow */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">New schedule for this workflow</h3>
+            <div className="grid grid-cols-[auto_1fr] items-start gap-x-3 gap-y-2 text-sm">
+              <span className="py-1 text-text-secondary">Name</span>
+              <input value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+
+              <span className="py-1 text-text-secondary">Cron</span>
+              <div className="space-y-1">
+                <input
+                  value={cron}
+                  onChange={(e) => setCron(e.target.value)}
+                  className={`font-mono ${inputClassName}`}
+                  placeholder="minute hour day-of-month month day-of-week"
+                />
+                <div className="flex flex-wrap gap-1">
+                  {CRON_PRESETS.map(preset => (
+                    <button key={preset.cron} onClick={() => setCron(preset.cron)} className={buttonClassName}>
+                      {preset.label}
+                    </button>
+                  ))}
+                </div>
+                {cronError
+                  ? <p className="text-xs text-error">{cronError}</p>
+                  : <p className="text-xs text-text-tertiary">Times are in the server&apos;s time zone.</p>}
+              </div>
+
+              <span className="py-1 text-text-secondary">Inputs</span>
+              {params.length > 0 ? (
+                <div className="flex items-center gap-2 min-w-0">
+                  <button onClick={() => setShowInputForm(true)} className={`shrink-0 ${buttonClassName}`}>
+                    Set Inputs
+                  </button>
+                  <span className={`text-xs truncate ${inputsMissing ? 'text-error' : 'text-text-secondary'}`}>
+                    {inputsMissing ? 'Some required inputs are missing' : formatParamValues(params, inputValues)}
+                  </span>
+                </div>
+              ) : (
+                <textarea
+                  value={inputText}
+                  onChange={(e) => setInputText(e.target.value)}
+                  rows={2}
+                  className={`${inputClassName} resize-y`}
+                  placeholder="Text the first agents receive on every run"
+                />
+              )}
+
+              <span className="py-1 text-text-secondary">Missed runs</span>
+              <select
+                value={missedRunPolicy}
+                onChange={(e) => setMissedRunPolicy(e.target.value as MissedRunPolicy)}
+                className={inputClassName}
+              >
+                <option value="skip">Skip them and wait for the next time</option>
+                <option value="catch-up">Run once to catch up when the server is back</option>
+              </select>
+            </div>
+            <label className="flex items-start gap-2 text-xs text-text-secondary">
+              <input type="checkbox" checked={saveKeys} onChange={(e) => setSaveKeys(e.target.checked)} className="mt-0.5" />
+              Save my API keys with the schedule. Otherwise runs use the server&apos;s ANTHROPIC_API_KEY,
+              OPENAI_API_KEY and GOOGLE_API_KEY.
+            </label>
+            {approvalModule && (
+              <p className="text-sm text-error">
+                {approvalModule.title} is an approval module, which needs a reviewer. Remove it to add a schedule.
+              </p>
+            )}
+            <button
+              onClick={handleCreate}
+              disabled={isSaving || !name.trim() || !!cronError || inputsMissing || modules.length === 0 || !!approvalModule}
+              className="px-3 py-1.5 text-sm font-medium rounded-lg
+                bg-primary hover:bg-primary-hover text-white
+                transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Creating...' : 'Create Schedule'}
+            </button>
+          </div>
+
+          {/* Saved schedules */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Schedules</h3>
+            {schedules.length === 0 && (
+              <div className="text-center py-6 text-sm text-[var(--text-secondary)]">No schedules yet</div>
+            )}
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="p-3 rounded-lg bg-surface-2 border border-surface-2 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-sm font-medium truncate">{schedule.name}</span>
+                    <code className="shrink-0 text-xs text-text-secondary">{schedule.cron}</code>
+                    {schedule.paused && (
+                      <span className="shrink-0 px-1.5 py-0.5 text-xs rounded bg-[var(--surface-3)] text-text-secondary">
+                        paused
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => handle(() => updateSchedule(schedule.id, { paused: !schedule.paused }))}
+                      className={buttonClassName}
+                    >
+                      {schedule.paused ? 'Resume' : 'Pause'}
+                    </button>
+                    <button
+                      onClick={() => handle(() => updateSchedule(schedule.id, {
+                        modules,
+                        params,
+                        customProviders: getUsedCustomProviders(modules)
+                      }))}
+                      disabled={modules.length === 0 || !!approvalModule}
+                      className={buttonClassName}
+                      title="Replace the schedule's workflow with the one in the editor"
+                    >
+                      Use Current Workflow
+                    </button>
+                    <button
+                      onClick={() => handle(() => deleteSchedule(schedule.id))}
+                      className={`${buttonClassName} hover:text-error`}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <div className="text-xs text-text-secondary">
+                  {schedule.paused
+                    ? 'Not running while paused'
+                    : schedule.upcoming.length > 0
+                      ? `Next: ${schedule.upcoming.slice(0, 3).map(formatTime).join(', ')}`
+                      : 'Never runs'}
+                  {' · '}{schedule.missedRunPolicy === 'catch-up' ? 'catches up missed runs' : 'skips missed runs'}
+                  {schedule.hasApiKeys && ' · uses saved API keys'}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Past scheduled runs */}
+          {runs.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Recent scheduled runs</h3>
+              <div className="rounded-lg border border-[var(--border)] overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-[var(--surface-2)] text-left text-xs text-text-secondary">
+                    <tr>
+                      <th className="px-3 py-2">Schedule</th>
+                      <th className="px-3 py-2">Due</th>
+                      <th className="px-3 py-2 w-24">Status</th>
+                      <th className="px-3 py-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {runs.map(run => (
+                      <tr key={run.id} className="border-t border-[var(--border)] align-top">
+                        <td className="px-3 py-2 truncate max-w-[10rem]">{run.scheduleName}</td>
+                        <td className="px-3 py-2 text-text-secondary whitespace-nowrap">{formatTime(run.scheduledFor)}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-1.5 py-0.5 text-xs rounded ${STATUS_STYLES[run.status]}`}>
+                            {run.status}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-xs">
+                          {run.error && <div className="text-error">{run.error}</div>}
+                          {run.note && <div className="text-text-secondary">{run.note}</div>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-text-tertiary">Finished runs also appear in the run history.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showInputForm && (
+        <RunInputForm
+          params={params}
+          initialValues={inputValues}
+          title="Schedule Inputs"
+          submitLabel="Save Inputs"
+          onRun={(values) => {
+            setInputValues(values);
+            setShowInputForm(false);
+          }}
+          onCancel={() => setShowInputForm(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getAdminToken, setAdminToken } from '../utils/apiRequest';
+
+/**
+ * Settings section for the admin token the server's triggers, schedules
+ * and runs are managed with
+ */
+export default function ServerAccessSettings() {
+  const [token, setToken] = useState('');
+
+  useEffect(() => {
+    setToken(getAdminToken());
+  }, []);
+
+  const handleChange = (value: string) => {
+    setToken(value);
+    setAdminToken(value.trim());
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-4">Server Access</h3>
+      <label className="block text-sm">
+        Admin token
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => handleChange(e.target.value)}
+          placeholder="The server's AGENT_LINK_ADMIN_TOKEN"
+          autoComplete="off"
+          className="mt-1 w-full px-3 py-2 text-sm rounded-lg bg-surface-2
+            border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary"
+        />
+      </label>
+      <p className="mt-1 text-xs text-text-tertiary">
+        Needed to manage triggers and schedules and to run workflows on the server. Kept for this
+        browser session only.
+      </p>
+    </div>
+  );
+}
@@ -3,6 +3,10 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { getCustomProviders, saveCustomProvider, deleteCustomProvider, exportProviders, importProviders, CustomProvider, updateCustomProvider } from '../utils/customProviders';
 import CustomProviderForm from './CustomProviderForm';
+import ResponseCacheSettings from './ResponseCacheSettings';
+import RequestLimitSettings from './RequestLimitSettings';
+import ModelPriceSettings from './ModelPriceSettings';
+import ServerAccessSettings from './ServerAccessSettings';
 
 /**
  * Interface for API key validation status
@@ -772,6 +776,14 @@ export default function SettingsSidebar() {
                     </div>
                   )}
                 </div>
+
+                <RequestLimitSettings customProviders={customProviders} />
+
+                <ModelPriceSettings customProviders={customProviders} />
+
+                <ResponseCacheSettings />
+
+                <ServerAccessSettings />
               </div>
             </div>
           </div>
@@ -1,25 +1,137 @@
 'use client';
 
 import LoadingSpinner from './LoadingSpinner';
+import { getModelDisplayName } from '../types/workflow';
 
 interface StatusIndicatorProps {
   isExecuting: boolean;
   isComplete: boolean;
   error: string | null;
   executionTime?: number;
+  isSkipped?: boolean;
+  routedTo?: string;
+  iteration?: number;
+  iterations?: number;
+  itemsCompleted?: number;
+  itemsTotal?: number;
+  isCancelled?: boolean;
+  attempt?: number;
+  maxAttempts?: number;
+  retryReason?: string;
+  retryDelayMs?: number;
+  retryModel?: string;
+  fallbackModel?: string;
+  pausedAt?: 'before' | 'after';
+  isAwaitingApproval?: boolean;
+  reviewDecision?: 'approved' | 'edited' | 'rejected';
+  isCached?: boolean;
+  queuedBehind?: number;
+  queueWaitMs?: number;
 }
 
 export default function StatusIndicator({
   isExecuting,
   isComplete,
   error,
-  executionTime
+  executionTime,
+  isSkipped = false,
+  routedTo,
+  iteration,
+  iterations,
+  itemsCompleted,
+  itemsTotal,
+  isCancelled = false,
+  attempt,
+  maxAttempts,
+  retryReason,
+  retryDelayMs,
+  retryModel,
+  fallbackModel,
+  pausedAt,
+  isAwaitingApproval = false,
+  reviewDecision,
+  isCached = false,
+  queuedBehind,
+  queueWaitMs
 }: StatusIndicatorProps) {
+  if (isAwaitingApproval) {
+    return (
+      <div className="flex items-center gap-1.5 text-amber-400 animate-pulse">
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+        </svg>
+        <span className="text-sm font-medium">Waiting for approval</span>
+      </div>
+    );
+  }
+
+  if (pausedAt) {
+    return (
+      <div className="flex items-center gap-1.5 text-red-400">
+        <span className="w-2.5 h-2.5 rounded-full bg-red-500" />
+        <span className="text-sm font-medium">
+          Paused {pausedAt === 'before' ? 'before running' : 'after running'}
+          {iteration !== undefined && ` (iteration ${iteration + 1})`}
+        </span>
+      </div>
+    );
+  }
+
+  if (isExecuting && queuedBehind !== undefined) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-1.5 text-amber-400 animate-pulse">
+          <LoadingSpinner className="w-3.5 h-3.5" />
+          <span className="text-sm font-medium">
+            Queued{queuedBehind > 0 && ` behind ${queuedBehind} request${queuedBehind === 1 ? '' : 's'}`}
+            {iteration !== undefined && ` (iteration ${iteration + 1})`}
+          </span>
+        </div>
+        <div className="text-xs text-text-secondary">
+          {queueWaitMs
+            ? `The provider's rate limit allows more requests in ${(queueWaitMs / 1000).toFixed(1)}s`
+            : 'Waiting for a running request to the provider to finish'}
+        </div>
+      </div>
+    );
+  }
+
+  if (isExecuting && retryReason) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-1.5 text-amber-400 animate-pulse">
+          <LoadingSpinner className="w-3.5 h-3.5" />
+          <span className="text-sm font-medium">
+            Attempt {attempt}/{maxAttempts}
+            {retryModel && ` on ${getModelDisplayName(retryModel)}`}
+            {!!retryDelayMs && ` (waited ${(retryDelayMs / 1000).toFixed(1)}s)`}
+          </span>
+        </div>
+        <div className="text-xs text-text-secondary">{retryReason}</div>
+      </div>
+    );
+  }
+
   if (isExecuting) {
     return (
       <div className="flex items-center gap-1.5 text-blue-400 animate-pulse">
         <LoadingSpinner className="w-3.5 h-3.5" />
-        <span className="text-sm font-medium">Processing</span>
+        <span className="text-sm font-medium">
+          Processing {iteration !== undefined && `(iteration ${iteration + 1})`}
+          {itemsTotal !== undefined && ` ${itemsCompleted || 0}/${itemsTotal} items`}
+        </span>
+      </div>
+    );
+  }
+
+  if (isCancelled) {
+    return (
+      <div className="flex items-center gap-1.5 text-amber-400">
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+        </svg>
+        <span className="text-sm font-medium">Cancelled</span>
       </div>
     );
   }
@@ -32,7 +144,29 @@ export default function StatusIndicator({
             d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" 
           />
         </svg>
-        <span className="text-sm font-medium">Failed</span>
+        <span className="text-sm font-medium">{reviewDecision === 'rejected' ? 'Rejected' : 'Failed'}</span>
+      </div>
+    );
+  }
+
+  if (isSkipped) {
+    return (
+      <div className="flex items-center gap-1.5 text-[var(--text-secondary)]">
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
+        </svg>
+        <span className="text-sm font-medium">Skipped</span>
+      </div>
+    );
+  }
+
+  if (isComplete && routedTo) {
+    return (
+      <div className="flex items-center gap-1.5 text-emerald-400">
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+        </svg>
+        <span className="text-sm font-medium">Routed to {routedTo}</span>
       </div>
     );
   }
@@ -44,7 +178,12 @@ export default function StatusIndicator({
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
         </svg>
         <span className="text-sm font-medium">
-          Complete {executionTime && `(${(executionTime / 1000).toFixed(1)}s)`}
+          {reviewDecision === 'edited' ? 'Approved with edits ' : reviewDecision === 'approved' ? 'Approved ' : 'Complete '}
+          {iterations !== undefined && `after ${iterations} iteration${iterations === 1 ? '' : 's'} `}
+          {attempt !== undefined && attempt > 1 && `on attempt ${attempt} `}
+          {fallbackModel && `via fallback ${getModelDisplayName(fallbackModel)} `}
+          {isCached && 'from cache '}
+          {executionTime && `(${(executionTime / 1000).toFixed(1)}s)`}
         </span>
       </div>
     );
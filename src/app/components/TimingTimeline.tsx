@@ -0,0 +1,103 @@
+'use client';
+
+import { WorkflowModuleData } from '../types/workflow';
+import { TimedResult, TimingPhase, TIMING_PHASE_LABELS, getTimingSegments } from '../utils/timing';
+
+interface TimingTimelineProps {
+  modules: WorkflowModuleData[];
+  results: Array<TimedResult & {
+    moduleId?: string;
+    agentIndex: number;
+    iteration?: number;
+    timestamp: string;
+  }>;
+}
+
+const PHASE_COLORS: Record<TimingPhase, string> = {
+  queued: 'bg-[var(--surface-3)]',
+  request: 'bg-sky-500/70',
+  firstToken: 'bg-amber-400/80',
+  streaming: 'bg-primary',
+  running: 'bg-emerald-500/70'
+};
+
+const formatMs = (ms: number) => ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`;
+
+/**
+ * Gantt chart of when each module ran, split into queueing, waiting for the
+ * provider, waiting for the first token and streaming
+ */
+export default function TimingTimeline({ modules, results }: TimingTimelineProps) {
+  const timed = results.filter(r => r.timing);
+  if (timed.length === 0) return null;
+
+  const runStart = Math.min(...timed.map(r => r.timing!.queuedAt));
+  const runEnd = Math.max(...timed.map(r => r.timing!.completedAt));
+  const span = Math.max(1, runEnd - runStart);
+  const percent = (time: number) => ((time - runStart) / span) * 100;
+
+  const titleOf = (result: typeof timed[number]) => {
+    const title = modules.find(m => m.id === result.moduleId)?.title || modules[result.agentIndex]?.title;
+    return result.iteration !== undefined ? `${title} #${result.iteration + 1}` : title;
+  };
+
+  const describe = (result: typeof timed[number]) => {
+    const timing = result.timing!;
+    const lines = getTimingSegments(timing).map(s => `${TIMING_PHASE_LABELS[s.phase]}: ${formatMs(s.end - s.start)}`);
+    lines.push(`Total: ${formatMs(timing.completedAt - timing.queuedAt)}`);
+    if (timing.upstream && timing.requestSentAt) {
+      // Whatever the provider didn't account for was spent getting to and
+      // from it
+      const requestTime = timing.completedAt - timing.requestSentAt;
+      lines.push(`Provider: ${formatMs(timing.upstream.latencyMs)}`);
+      if (timing.upstream.firstTokenMs !== undefined) {
+        lines.push(`Provider first token: ${formatMs(timing.upstream.firstTokenMs)}`);
+      }
+      lines.push(`Network overhead: ${formatMs(Math.max(0, requestTime - timing.upstream.latencyMs))}`);
+    }
+    return lines.join('\n');
+  };
+
+  const phases = Array.from(new Set(timed.flatMap(r => getTimingSegments(r.timing!).map(s => s.phase))));
+
+  return (
+    <details className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)]">
+      <summary className="px-4 py-2 text-sm cursor-pointer text-[var(--text-secondary)]">
+        Timeline · {formatMs(span)}
+      </summary>
+
+      <div className="px-4 py-3 space-y-1.5 border-t border-[var(--border)]">
+        {timed.map(result => (
+          <div key={`${result.moduleId}-${result.timestamp}`} className="flex items-center gap-3 text-xs">
+            <div className="w-32 shrink-0 truncate text-[var(--text-secondary)]">{titleOf(result)}</div>
+            <div className="relative flex-1 h-4" title={describe(result)}>
+              {getTimingSegments(result.timing!).map(segment => (
+                <div
+                  key={segment.phase}
+                  className={`absolute inset-y-0 ${PHASE_COLORS[segment.phase]}`}
+                  style={{
+                    left: `${percent(segment.start)}%`,
+                    // Keep very short phases visible
+                    width: `max(2px, ${percent(segment.end) - percent(segment.start)}%)`
+                  }}
+                />
+              ))}
+            </div>
+            <div className="w-14 shrink-0 text-right font-mono text-[var(--text-secondary)]">
+              {formatMs(result.timing!.completedAt - result.timing!.queuedAt)}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-3 pt-2 text-xs text-[var(--text-secondary)]">
+          {phases.map(phase => (
+            <span key={phase} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded-sm ${PHASE_COLORS[phase]}`} />
+              {TIMING_PHASE_LABELS[phase]}
+            </span>
+          ))}
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { WorkflowModuleData, WorkflowParam } from '../types/workflow';
+import { getWorkflowLabel } from '../utils/runHistory';
+import { getBrowserApiKeys, getUsedCustomProviders } from '../utils/serverWorkflows';
+import {
+  TRIGGER_SIGNATURE_HEADER,
+  WebhookTrigger,
+  createTrigger,
+  deleteTrigger,
+  getTriggerUrl,
+  listTriggers,
+  rotateTriggerSecret,
+  updateTrigger
+} from '../utils/triggers';
+
+interface TriggersPanelProps {
+  modules: WorkflowModuleData[];
+  params: WorkflowParam[];
+  onClose: () => void;
+}
+
+const inputClassName = `w-full px-2 py-1 text-sm rounded-md bg-surface-2
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary`;
+
+const buttonClassName = `px-2 py-1 text-xs font-medium rounded-md
+  bg-surface-2 hover:bg-surface-3
+  border border-surface-2 hover:border-surface-3
+  transition-colors disabled:opacity-50 disabled:cursor-not-allowed`;
+
+// A request body the trigger accepts, for the example command
+const getExampleBody = (trigger: WebhookTrigger) => JSON.stringify(trigger.params.length > 0
+  ? Object.fromEntries(trigger.params.map(p => [trigger.inputPaths[p.name] || p.name, p.type === 'number' ? 1 : '...']))
+  : { input: '...' });
+
+// The workflow as a trigger runs it
+const getWorkflowSettings = (modules: WorkflowModuleData[], params: WorkflowParam[]) => ({
+  modules,
+  params,
+  customProviders: getUsedCustomProviders(modules)
+});
+
+/**
+ * Dialog for starting the workflow from other systems: each trigger saves
+ * the workflow on the server behind a URL that runs it when POSTed to
+ */
+export default function TriggersPanel({ modules, params, onClose }: TriggersPanelProps) {
+  const [triggers, setTriggers] = useState<WebhookTrigger[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState(() => getWorkflowLabel(modules));
+  const [callbackUrl, setCallbackUrl] = useState('');
+  const [inputPaths, setInputPaths] = useState<Record<string, string>>({});
+  const [saveKeys, setSaveKeys] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // Secrets are only returned when created or replaced, so shown just once
+  const [revealed, setRevealed] = useState<{ triggerId: string; secret: string } | null>(null);
+
+  const approvalModule = modules.find(m => m.kind === 'approval');
+
+  const loadTriggers = useCallback(() => {
+    listTriggers()
+      .then(setTriggers)
+      .catch(error => setError((error as Error).message));
+  }, []);
+
+  useEffect(loadTriggers, [loadTriggers]);
+
+  const handle = (action: () => Promise<unknown>) => {
+    setError(null);
+    action()
+      .then(loadTriggers)
+      .catch(error => setError((error as Error).message));
+  };
+
+  const handleCreate = () => {
+    setIsSaving(true);
+    handle(async () => {
+      try {
+        const { trigger, secret } = await createTrigger({
+          name,
+          ...getWorkflowSettings(modules, params),
+          inputPaths: Object.fromEntries(Object.entries(inputPaths).filter(([, path]) => path.trim())),
+          ...(callbackUrl.trim() && { callbackUrl: callbackUrl.trim() }),
+          ...(saveKeys && { apiKeys: getBrowserApiKeys() })
+        });
+        setRevealed({ triggerId: trigger.id, secret });
+      } finally {
+        setIsSaving(false);
+      }
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-surface-0/80 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-surface-1 rounded-lg shadow-lg max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-[var(--border)]">
+          <h2 className="text-xl font-semibold">Webhook Triggers</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-[var(--surface-3)] transition-colors hover:text-primary"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <div className="p-3 text-sm rounded-lg bg-error/10 text-error border border-error/20">
+              {error}
+            </div>
+          )}
+
+          {/* New trigger for the current workflow */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">New trigger for this workflow</h3>
+            <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 text-sm">
+              <span className="text-text-secondary">Name</span>
+              <input value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+              <span className="text-text-secondary">Callback URL</span>
+              <input
+                value={callbackUrl}
+                onChange={(e) => setCallbackUrl(e.target.value)}
+                className={inputClassName}
+                placeholder="Optional. Receives the final output as JSON"
+              />
+              {params.map(param => (
+                <div key={param.id} className="contents">
+                  <span className="text-text-secondary">{param.name}</span>
+                  <input
+                    value={inputPaths[param.name] || ''}
+                    onChange={(e) => setInputPaths(prev => ({ ...prev, [param.name]: e.target.value }))}
+                    className={`font-mono ${inputClassName}`}
+                    placeholder={`Field in the request body, e.g. ${param.name} or issue.${param.name}`}
+                  />
+                </div>
+              ))}
+            </div>
+            {params.length === 0 && (
+              <p className="text-xs text-text-secondary">
+                This workflow has no inputs. It receives the body&apos;s &quot;input&quot; field, or the whole body.
+              </p>
+            )}
+            <label className="flex items-start gap-2 text-xs text-text-secondary">
+              <input type="checkbox" checked={saveKeys} onChange={(e) => setSaveKeys(e.target.checked)} className="mt-0.5" />
+              Save my API keys with the trigger. Otherwise runs use the server&apos;s ANTHROPIC_API_KEY,
+              OPENAI_API_KEY and GOOGLE_API_KEY.
+            </label>
+            {approvalModule && (
+              <p className="text-sm text-error">
+                {approvalModule.title} is an approval module, which needs a reviewer. Remove it to add a trigger.
+              </p>
+            )}
+            <button
+              onClick={handleCreate}
+              disabled={isSaving || !name.trim() || modules.length === 0 || !!approvalModule}
+              className="px-3 py-1.5 text-sm font-medium rounded-lg
+                bg-primary hover:bg-primary-hover text-white
+                transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Creating...' : 'Create Trigger'}
+            </button>
+          </div>
+
+          {/* Saved triggers */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Triggers</h3>
+            {triggers.length === 0 && (
+              <div className="text-center py-6 text-sm text-[var(--text-secondary)]">No triggers yet</div>
+            )}
+            {triggers.map(trigger => {
+              const url = getTriggerUrl(trigger.id);
+              const secret = revealed?.triggerId === trigger.id ? revealed.secret : null;
+              return (
+                <div key={trigger.id} className="p-3 rounded-lg bg-surface-2 border border-surface-2 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-sm font-medium truncate">{trigger.name}</div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button
+                        onClick={() => handle(() => updateTrigger(trigger.id, getWorkflowSettings(modules, params)))}
+                        disabled={modules.length === 0 || !!approvalModule}
+                        className={buttonClassName}
+                        title="Replace the trigger's workflow with the one in the editor"
+                      >
+                        Use Current Workflow
+                      </button>
+                      <button
+                        onClick={() => handle(async () => {
+                          setRevealed({ triggerId: trigger.id, secret: await rotateTriggerSecret(trigger.id) });
+                        })}
+                        className={buttonClassName}
+                      >
+                        New Secret
+                      </button>
+                      <button
+                        onClick={() => handle(() => deleteTrigger(trigger.id))}
+                        className={`${buttonClassName} hover:text-error`}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  <code className="block text-xs break-all select-all text-text-secondary">POST {url}</code>
+                  <div className="text-xs text-text-secondary">
+                    {trigger.modules.length} {trigger.modules.length === 1 ? 'module' : 'modules'}
+                    {' · '}created {new Date(trigger.createdAt).toLocaleString()}
+                    {' · '}{trigger.lastTriggeredAt
+                      ? `last run ${new Date(trigger.lastTriggeredAt).toLocaleString()}`
+                      : 'never run'}
+                    {trigger.callbackUrl && ` · calls back ${trigger.callbackUrl}`}
+                    {trigger.hasApiKeys && ' · uses saved API keys'}
+                  </div>
+                  {secret && (
+                    <div className="p-2 rounded-md bg-primary/10 border border-primary/20 space-y-1 text-xs">
+                      <div>Secret, shown only now: <code className="select-all break-all">{secret}</code></div>
+                      <div className="text-text-secondary">
+                        Send it as a bearer token, or sign the raw body with HMAC-SHA256 in
+                        a {TRIGGER_SIGNATURE_HEADER}: sha256=&lt;hex&gt; header:
+                      </div>
+                      <code className="block whitespace-pre-wrap break-all select-all text-text-secondary">
+                        {`curl -X POST ${url} -H "Authorization: Bearer ${secret}" -H "Content-Type: application/json" -d '${getExampleBody(trigger)}'`}
+                      </code>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
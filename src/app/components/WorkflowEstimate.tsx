@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { WorkflowModuleData, WorkflowParam, WorkflowParamValues, getModelDisplayName } from '../types/workflow';
+import { PriceTable, formatCost, getPriceTable } from '../utils/pricing';
+import { formatParamValues, getDefaultValues } from '../utils/workflowParams';
+import { WorkflowEstimate as Estimate, estimateWorkflow } from '../utils/workflowEstimate';
+
+interface WorkflowEstimateProps {
+  modules: WorkflowModuleData[];
+  params: WorkflowParam[];
+  // The input values of the last run, used in place of the defaults
+  inputValues: WorkflowParamValues;
+}
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+/**
+ * What a run of the workflow is expected to use, per agent and in total,
+ * worked out from the current prompts and models before pressing Run
+ */
+export default function WorkflowEstimate({ modules, params, inputValues }: WorkflowEstimateProps) {
+  const [prices, setPrices] = useState<PriceTable>({});
+
+  // Prices live in the settings; they are read again whenever the details
+  // are opened in case they changed
+  useEffect(() => {
+    setPrices(getPriceTable());
+  }, []);
+
+  const estimate = useMemo((): Estimate | null => {
+    const values = { ...getDefaultValues(params), ...inputValues };
+    try {
+      return estimateWorkflow(modules, {
+        workflowInput: formatParamValues(params, values),
+        params: values,
+        prices
+      });
+    } catch {
+      // A workflow with a cycle can't run; the cycle is shown elsewhere
+      return null;
+    }
+  }, [modules, params, inputValues, prices]);
+
+  if (!estimate || estimate.modules.length === 0) return null;
+
+  const overContext = estimate.modules.filter(e => e.exceedsContext);
+  const titleOf = (id: string) => modules.find(m => m.id === id)?.title || id;
+  const modelOf = (id: string) => {
+    const model = modules.find(m => m.id === id)?.selectedModel;
+    return model ? getModelDisplayName(model) : 'No model';
+  };
+
+  return (
+    <details
+      className="w-full max-w-xl text-xs text-text-secondary"
+      onToggle={(e) => (e.target as HTMLDetailsElement).open && setPrices(getPriceTable())}
+    >
+      <summary className="cursor-pointer select-none text-center">
+        Estimated: up to {formatTokens(estimate.tokens)} tokens
+        {estimate.cost !== undefined && <> · {formatCost(estimate.cost)}</>}
+        {overContext.length > 0 && (
+          <span className="text-error">
+            {' · '}{overContext.length} {overContext.length === 1 ? 'agent exceeds' : 'agents exceed'} the context window
+          </span>
+        )}
+      </summary>
+
+      <div className="mt-2 p-3 rounded-lg bg-surface-2 border border-surface-2 space-y-2">
+        <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-4 gap-y-1">
+          <span>Agent</span>
+          <span className="text-right">Input</span>
+          <span className="text-right">Output</span>
+          <span className="text-right">Cost</span>
+          {estimate.modules.map(e => (
+            <div key={e.moduleId} className="contents">
+              <div className="min-w-0">
+                <div className="text-text-primary truncate">{titleOf(e.moduleId)}</div>
+                <div className="text-text-tertiary truncate">
+                  {modelOf(e.moduleId)}
+                  {e.calls > 1 && <> · {e.calls} calls</>}
+                  {e.itemsUnknown && <> · per item</>}
+                </div>
+                {e.exceedsContext && (
+                  <div className="text-error">
+                    Input exceeds the {formatTokens(e.contextWindow!)} token context window
+                  </div>
+                )}
+              </div>
+              <span className={`text-right ${e.exceedsContext ? 'text-error' : ''}`}>
+                {formatTokens(e.inputTokens)}
+              </span>
+              <span className="text-right">{formatTokens(e.outputTokens)}</span>
+              <span className="text-right">{e.cost !== undefined ? formatCost(e.cost) : '—'}</span>
+            </div>
+          ))}
+        </div>
+        <p className="text-text-tertiary">
+          Tokens per call, counted locally from the prompts with the last run&apos;s inputs. Every
+          call is assumed to answer with as many tokens as it may, and loops to run every
+          iteration. Costs come from the prices in the settings.
+        </p>
+      </div>
+    </details>
+  );
+}
@@ -1,10 +1,20 @@
 'use client';
 
-import { useState, useCallback, memo } from 'react';
+import { useState, useCallback, useEffect, useMemo, memo } from 'react';
 import ModelSelect from './ModelSelect';
+import RouterConfig from './RouterConfig';
+import LoopConfig from './LoopConfig';
+import { MapSettings, ReduceSettings } from './MapReduceConfig';
+import RetryConfig from './RetryConfig';
+import FallbackModels from './FallbackModels';
+import ApprovalConfig from './ApprovalConfig';
+import OutputSchemaConfig from './OutputSchemaConfig';
 import { getProviderEndpoint } from '../utils/providerEndpoints';
 import { getCustomProviders } from '../utils/customProviders';
-import { Provider, isBuiltInProvider, isCustomProvider, CustomProvider } from '../types/workflow';
+import { readCompletionStream } from '../utils/streaming';
+import { analyzeTemplate, TemplateAgent } from '../utils/promptTemplate';
+import { withSchemaInstructions } from '../utils/structuredOutput';
+import { Provider, isBuiltInProvider, isCustomProvider, CustomProvider, ModuleKind, RouteBranch, LoopConfig as LoopSettings, MapConfig, ReduceConfig, RetryPolicy, ModelChoice, BreakpointMode, ApprovalConfig as ApprovalSettings, JsonSchema, isModelModule } from '../types/workflow';
 
 interface WorkflowModuleData {
   id: string;
@@ -12,6 +22,22 @@ interface WorkflowModuleData {
   prompt: string;
   provider: Provider | null;
   selectedModel: string | null;
+  dependsOn?: string[];
+  kind?: ModuleKind;
+  branches?: RouteBranch[];
+  loop?: LoopSettings;
+  map?: MapConfig;
+  reduce?: ReduceConfig;
+  approval?: ApprovalSettings;
+  retry?: RetryPolicy;
+  fallbacks?: ModelChoice[];
+  breakpoint?: BreakpointMode;
+  outputSchema?: JsonSchema;
+}
+
+interface UpstreamOption {
+  id: string;
+  title: string;
 }
 
 interface WorkflowModuleProps {
@@ -20,10 +46,19 @@ interface WorkflowModuleProps {
   onDelete: (moduleId: string) => void;
   canDelete: boolean;
   index: number;
+  upstreamOptions?: UpstreamOption[];
+  dependencies?: string[];
+  downstreamOptions?: UpstreamOption[];
+  bodyOptions?: UpstreamOption[];
+  loopTitle?: string;
   isExecuting?: boolean;
   isComplete?: boolean;
   executionError?: string | null;
   executionTime?: number;
+  templateAgents?: TemplateAgent[];
+  unavailableReferenceIds?: Set<string>;
+  paramNames?: string[];
+  streamingOutput?: string;
 }
 
 interface TestResponse {
@@ -55,10 +90,19 @@ const WorkflowModule = memo(function WorkflowModule({
   onDelete,
   canDelete,
   index,
+  upstreamOptions = [],
+  dependencies = [],
+  downstreamOptions = [],
+  bodyOptions = [],
+  loopTitle,
   isExecuting = false,
   isComplete = false,
   executionError = null,
-  executionTime
+  executionTime,
+  templateAgents = [],
+  unavailableReferenceIds,
+  paramNames,
+  streamingOutput
 }: WorkflowModuleProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -67,6 +111,29 @@ const WorkflowModule = memo(function WorkflowModule({
   const [isResponseExpanded, setIsResponseExpanded] = useState(true);
   const [showApiKey, setShowApiKey] = useState(false);
 
+  // Split the prompt into text and {{references}} so unresolved ones can be highlighted
+  const promptSegments = useMemo(
+    () => analyzeTemplate(module.prompt, templateAgents, unavailableReferenceIds, paramNames),
+    [module.prompt, templateAgents, unavailableReferenceIds, paramNames]
+  );
+  const unresolvedReferences = promptSegments.filter(s => s.reference?.error);
+
+  // The title as typed. It's saved when the field loses focus, so other
+  // prompts' references to the module are rewritten once per rename.
+  const [titleDraft, setTitleDraft] = useState(module.title);
+  useEffect(() => setTitleDraft(module.title), [module.title]);
+
+  const handleTitleCommit = useCallback(() => {
+    const title = titleDraft.trim();
+    // Prompts refer to agents by title, so it can't be empty or shared
+    const isTaken = templateAgents.some(a => a.id !== module.id && a.title === title);
+    if (!title || isTaken || title === module.title) {
+      setTitleDraft(module.title);
+      return;
+    }
+    onUpdate(module.id, { title });
+  }, [titleDraft, templateAgents, module.id, module.title, onUpdate]);
+
   // Memoize update handlers to prevent re-renders
   const handlePromptChange = useCallback((newPrompt: string) => {
     onUpdate(module.id, { prompt: newPrompt });
@@ -83,6 +150,69 @@ const WorkflowModule = memo(function WorkflowModule({
     onUpdate(module.id, { selectedModel: model });
   }, [module.id, onUpdate]);
 
+  const isRouter = module.kind === 'router';
+  const isLoop = module.kind === 'loop';
+  // Routers, loops and non-agent reduces don't call a model themselves
+  const isControlNode = !isModelModule(module);
+
+  const handleKindChange = useCallback((kind: ModuleKind) => {
+    onUpdate(module.id, {
+      kind,
+      ...(kind === 'router' && !module.branches && { branches: [] }),
+      ...(kind === 'loop' && !module.loop && {
+        loop: { bodyIds: [], exitCondition: null, maxIterations: 5 }
+      }),
+      ...(kind === 'map' && !module.map && {
+        map: { splitStrategy: 'lines', concurrency: 3 }
+      }),
+      ...(kind === 'reduce' && !module.reduce && {
+        reduce: { strategy: 'concat' }
+      }),
+      ...(kind === 'approval' && !module.approval && {
+        approval: { onReject: 'end' }
+      })
+    });
+  }, [module.id, module.branches, module.loop, module.map, module.reduce, module.approval, onUpdate]);
+
+  const handleApprovalChange = useCallback((approval: ApprovalSettings) => {
+    onUpdate(module.id, { approval });
+  }, [module.id, onUpdate]);
+
+  const handleMapChange = useCallback((map: MapConfig) => {
+    onUpdate(module.id, { map });
+  }, [module.id, onUpdate]);
+
+  const handleReduceChange = useCallback((reduce: ReduceConfig) => {
+    onUpdate(module.id, { reduce });
+  }, [module.id, onUpdate]);
+
+  const handleRetryChange = useCallback((retry: RetryPolicy | undefined) => {
+    onUpdate(module.id, { retry });
+  }, [module.id, onUpdate]);
+
+  const handleOutputSchemaChange = useCallback((outputSchema: JsonSchema | undefined) => {
+    onUpdate(module.id, { outputSchema });
+  }, [module.id, onUpdate]);
+
+  const handleFallbacksChange = useCallback((fallbacks: ModelChoice[]) => {
+    onUpdate(module.id, { fallbacks });
+  }, [module.id, onUpdate]);
+
+  const handleLoopChange = useCallback((loop: LoopSettings) => {
+    onUpdate(module.id, { loop });
+  }, [module.id, onUpdate]);
+
+  const handleBranchesChange = useCallback((branches: RouteBranch[]) => {
+    onUpdate(module.id, { branches });
+  }, [module.id, onUpdate]);
+
+  const handleDependencyToggle = useCallback((upstreamId: string) => {
+    const next = dependencies.includes(upstreamId)
+      ? dependencies.filter(id => id !== upstreamId)
+      : [...dependencies, upstreamId];
+    onUpdate(module.id, { dependsOn: next });
+  }, [module.id, dependencies, onUpdate]);
+
   const handleTest = useCallback(async () => {
     if (!module.prompt || !module.provider || !module.selectedModel) {
       setError('Please select a provider and model, and enter a prompt.');
@@ -120,9 +250,11 @@ const WorkflowModule = memo(function WorkflowModule({
 
       // Prepare request payload
       const requestPayload = {
-        prompt: module.prompt,
+        prompt: module.outputSchema ? withSchemaInstructions(module.prompt, module.outputSchema) : module.prompt,
         apiKey, // API key is now always at top level
         model: module.selectedModel,
+        stream: true,
+        ...(module.outputSchema && { jsonSchema: module.outputSchema }),
         ...(customProvider && {
           providerConfig: {
             ...customProvider,
@@ -148,8 +280,12 @@ const WorkflowModule = memo(function WorkflowModule({
         throw new Error(errorData.error || 'Failed to get response');
       }
 
-      const data = await response.json();
-      
+      // Show tokens as they arrive, then the final usage once the stream closes
+      const startedAt = new Date().toISOString();
+      const data = await readCompletionStream(response, (text) => {
+        setTestResponse(prev => ({ text: (prev?.text || '') + text, timestamp: startedAt }));
+      });
+
       const newResponse = {
         text: data.response,
         timestamp: new Date().toISOString(),
@@ -163,7 +299,7 @@ const WorkflowModule = memo(function WorkflowModule({
     } finally {
       setIsLoading(false);
     }
-  }, [module.prompt, module.provider, module.selectedModel]);
+  }, [module.prompt, module.provider, module.selectedModel, module.outputSchema]);
 
   const handleCopyResponse = () => {
     if (testResponse?.text) {
@@ -187,113 +323,275 @@ const WorkflowModule = memo(function WorkflowModule({
             }`}>
             {index + 1}
           </div>
-          <h3 className="font-medium">{module.title}</h3>
+          <input
+            value={titleDraft}
+            onChange={(e) => setTitleDraft(e.target.value)}
+            onBlur={handleTitleCommit}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            disabled={isExecuting}
+            aria-label="Module title"
+            title="Rename the module; prompts that refer to it are updated"
+            className="w-40 px-1 font-medium bg-transparent rounded-md border border-transparent
+              hover:border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary"
+          />
+          <select
+            value={module.kind || 'agent'}
+            onChange={(e) => handleKindChange(e.target.value as ModuleKind)}
+            disabled={isExecuting}
+            className="ml-1 px-2 py-0.5 text-xs rounded-md bg-surface-2
+              border border-surface-2 text-text-secondary
+              focus:border-primary focus:ring-1 focus:ring-primary"
+          >
+            <option value="agent">Agent</option>
+            <option value="router">Router</option>
+            <option value="loop">Loop</option>
+            <option value="map">Map</option>
+            <option value="reduce">Reduce</option>
+            <option value="approval">Approval</option>
+          </select>
+          {loopTitle && (
+            <span className="px-2 py-0.5 text-xs rounded-md bg-primary/10 text-primary">
+              ↻ {loopTitle}
+            </span>
+          )}
         </div>
-        {canDelete && (
-          <button
-            onClick={() => onDelete(module.id)}
-            className="p-1.5 text-text-secondary hover:text-error
-              hover:bg-error/10 rounded transition-colors"
+        <div className="flex items-center gap-1">
+          {/* Breakpoint */}
+          <label
+            className={`flex items-center gap-1.5 px-2 py-0.5 text-xs rounded-md border ${
+              module.breakpoint ? 'border-red-500/40 text-red-400' : 'border-surface-2 text-text-secondary'
+            }`}
+            title="Pause the run at this module to inspect or edit it"
           >
-            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
-                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-              />
-            </svg>
-          </button>
-        )}
+            <span className={`w-2 h-2 rounded-full ${module.breakpoint ? 'bg-red-500' : 'bg-surface-3'}`} />
+            <select
+              value={module.breakpoint || ''}
+              onChange={(e) => onUpdate(module.id, { breakpoint: (e.target.value || undefined) as BreakpointMode | undefined })}
+              className="bg-transparent focus:outline-none"
+            >
+              <option value="">No breakpoint</option>
+              <option value="before">Pause before</option>
+              <option value="after">Pause after</option>
+              <option value="both">Pause before &amp; after</option>
+            </select>
+          </label>
+          {canDelete && (
+            <button
+              onClick={() => onDelete(module.id)}
+              className="p-1.5 text-text-secondary hover:text-error
+                hover:bg-error/10 rounded transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Map / Reduce Settings */}
+      {module.kind === 'map' && module.map && (
+        <MapSettings map={module.map} onChange={handleMapChange} disabled={isExecuting} />
+      )}
+      {module.kind === 'reduce' && module.reduce && (
+        <ReduceSettings reduce={module.reduce} onChange={handleReduceChange} disabled={isExecuting} />
+      )}
+
+      {/* Approval Settings */}
+      {module.kind === 'approval' && module.approval && (
+        <ApprovalConfig approval={module.approval} onChange={handleApprovalChange} disabled={isExecuting} />
+      )}
+
       {/* Model Selection */}
-      <div className="mb-4">
-        <ModelSelect
-          selectedProvider={module.provider}
-          selectedModel={module.selectedModel}
-          onProviderChange={handleProviderChange}
-          onModelChange={handleModelChange}
-        />
-      </div>
+      {!isControlNode && (
+        <div className="mb-4">
+          <ModelSelect
+            selectedProvider={module.provider}
+            selectedModel={module.selectedModel}
+            onProviderChange={handleProviderChange}
+            onModelChange={handleModelChange}
+          />
+        </div>
+      )}
 
-      {/* Prompt Editor */}
-      <div className="relative">
-        {isEditing ? (
-          <div className="space-y-2">
-            <textarea
-              value={module.prompt}
-              onChange={(e) => handlePromptChange(e.target.value)}
-              className="w-full min-h-[120px] p-3 text-sm rounded-lg
-                bg-surface-2 border border-surface-2
-                focus:border-primary focus:ring-1 focus:ring-primary
-                placeholder-text-tertiary resize-none"
-              placeholder="Enter your prompt..."
-            />
-            <div className="flex justify-end gap-2">
-              <button
-                onClick={() => setIsEditing(false)}
-                className="px-3 py-1.5 text-sm font-medium rounded-lg
-                  bg-surface-2 hover:bg-surface-3
-                  border border-surface-2 hover:border-surface-3
-                  transition-colors"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={() => setIsEditing(false)}
-                className="px-3 py-1.5 text-sm font-medium rounded-lg
-                  bg-primary hover:bg-primary-hover text-white
-                  transition-colors"
-              >
-                Save
-              </button>
-            </div>
+      {/* Upstream Inputs */}
+      {upstreamOptions.length > 0 && (
+        <div className="mb-4">
+          <div className="text-xs text-text-secondary mb-2">
+            {dependencies.length === 0 ? 'Inputs from: none (starts the workflow)' : 'Inputs from:'}
           </div>
-        ) : (
-          <div
-            onClick={() => setIsEditing(true)}
-            className="min-h-[120px] p-3 rounded-lg border border-dashed
-              border-surface-3 hover:border-primary
-              transition-colors cursor-text"
-          >
-            {module.prompt ? (
-              <div className="text-sm whitespace-pre-wrap">{module.prompt}</div>
-            ) : (
-              <div className="text-sm text-text-tertiary">
-                Click to add prompt...
-              </div>
-            )}
+          <div className="flex flex-wrap gap-2">
+            {upstreamOptions.map(option => {
+              const isSelected = dependencies.includes(option.id);
+              return (
+                <button
+                  key={option.id}
+                  onClick={() => handleDependencyToggle(option.id)}
+                  disabled={isExecuting}
+                  className={`px-2 py-1 text-xs rounded-md border transition-colors
+                    disabled:opacity-50 disabled:cursor-not-allowed
+                    ${isSelected
+                      ? 'bg-primary/10 border-primary text-primary'
+                      : 'bg-surface-2 border-surface-2 text-text-secondary hover:border-surface-3'
+                    }`}
+                >
+                  {option.title}
+                </button>
+              );
+            })}
           </div>
-        )}
-      </div>
+        </div>
+      )}
 
-      {/* Actions */}
-      <div className="mt-4 flex justify-end">
-        <button
-          onClick={handleTest}
-          disabled={!module.prompt || !module.provider || !module.selectedModel || isLoading || isExecuting}
-          className="px-3 py-1.5 text-sm font-medium rounded-lg
-            bg-primary hover:bg-primary-hover text-white
-            transition-colors disabled:opacity-50 disabled:cursor-not-allowed
-            flex items-center gap-2"
-        >
-          {isLoading ? (
-            <>
-              <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-              </svg>
-              Testing...
-            </>
+      {/* Prompt Editor */}
+      {!isControlNode && (
+        <div className="relative">
+          {isEditing ? (
+            <div className="space-y-2">
+              <textarea
+                value={module.prompt}
+                onChange={(e) => handlePromptChange(e.target.value)}
+                className="w-full min-h-[120px] p-3 text-sm rounded-lg
+                  bg-surface-2 border border-surface-2
+                  focus:border-primary focus:ring-1 focus:ring-primary
+                  placeholder-text-tertiary resize-none"
+                placeholder="Enter your prompt..."
+              />
+              <div className="text-xs text-text-tertiary">
+                Use {'{{input}}'}, {'{{workflow.input}}'}, {'{{params.name}}'}, {'{{agents.Title.output}}'} or
+                {' {{agents[2].output}}'} to place inputs anywhere. Without {'{{input}}'}, the input is added at the end.
+              </div>
+              {unresolvedReferences.length > 0 && (
+                <div className="text-xs text-error">
+                  Unresolved: {unresolvedReferences.map(s => `${s.text} (${s.reference!.error})`).join(', ')}
+                </div>
+              )}
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1.5 text-sm font-medium rounded-lg
+                    bg-surface-2 hover:bg-surface-3
+                    border border-surface-2 hover:border-surface-3
+                    transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1.5 text-sm font-medium rounded-lg
+                    bg-primary hover:bg-primary-hover text-white
+                    transition-colors"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
           ) : (
-            <>
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-              Test
-            </>
+            <div
+              onClick={() => setIsEditing(true)}
+              className="min-h-[120px] p-3 rounded-lg border border-dashed
+                border-surface-3 hover:border-primary
+                transition-colors cursor-text"
+            >
+              {module.prompt ? (
+                <div className="text-sm whitespace-pre-wrap">
+                  {promptSegments.map((segment, i) => segment.reference ? (
+                    <span
+                      key={i}
+                      title={segment.reference.error}
+                      className={`px-1 rounded font-mono ${segment.reference.error
+                        ? 'bg-error/10 text-error underline decoration-wavy'
+                        : 'bg-primary/10 text-primary'
+                      }`}
+                    >
+                      {segment.text}
+                    </span>
+                  ) : (
+                    <span key={i}>{segment.text}</span>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-sm text-text-tertiary">
+                  Click to add prompt...
+                </div>
+              )}
+            </div>
           )}
-        </button>
-      </div>
+        </div>
+      )}
+
+      {/* Output Schema */}
+      {!isControlNode && (
+        <OutputSchemaConfig schema={module.outputSchema} onChange={handleOutputSchemaChange} disabled={isExecuting} />
+      )}
+
+      {/* Retry Policy */}
+      {!isControlNode && (
+        <RetryConfig retry={module.retry} onChange={handleRetryChange} disabled={isExecuting} />
+      )}
+
+      {/* Fallback Models */}
+      {!isControlNode && (
+        <FallbackModels
+          fallbacks={module.fallbacks || []}
+          onChange={handleFallbacksChange}
+          disabled={isExecuting}
+        />
+      )}
+
+      {/* Router Branches */}
+      {isRouter && (
+        <RouterConfig
+          branches={module.branches || []}
+          targetOptions={downstreamOptions}
+          onChange={handleBranchesChange}
+          disabled={isExecuting}
+        />
+      )}
+
+      {/* Loop Settings */}
+      {isLoop && module.loop && (
+        <LoopConfig
+          loop={module.loop}
+          bodyOptions={bodyOptions}
+          onChange={handleLoopChange}
+          disabled={isExecuting}
+        />
+      )}
+
+      {/* Actions */}
+      {!isControlNode && (
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={handleTest}
+            disabled={!module.prompt || !module.provider || !module.selectedModel || isLoading || isExecuting}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg
+              bg-primary hover:bg-primary-hover text-white
+              transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+              flex items-center gap-2"
+          >
+            {isLoading ? (
+              <>
+                <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                </svg>
+                Testing...
+              </>
+            ) : (
+              <>
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Test
+              </>
+            )}
+          </button>
+        </div>
+      )}
 
       {/* Test Response Section */}
       {testResponse && (
@@ -351,6 +649,16 @@ const WorkflowModule = memo(function WorkflowModule({
         </div>
       )}
 
+      {/* Streaming Output */}
+      {isExecuting && streamingOutput && (
+        <div className="mt-4 p-3 rounded-lg bg-surface-1 border border-primary/30 max-h-64 overflow-y-auto">
+          <div className="font-mono text-sm whitespace-pre-wrap">
+            {streamingOutput}
+            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+          </div>
+        </div>
+      )}
+
       {/* Execution Error */}
       {executionError && (
         <div className="mt-4 p-3 text-sm rounded-lg bg-error/10 text-error border border-error/20">
@@ -1,20 +1,42 @@
 'use client';
 
 import { useState } from 'react';
-import { WorkflowModuleData } from '../types/workflow';
+import { WorkflowModuleData, getModelDisplayName } from '../types/workflow';
+import { TimedResult, getRunDuration } from '../utils/timing';
+import { getBilledCost, getBilledTokens } from '../utils/usage';
+import { formatCost } from '../utils/pricing';
+import TimingTimeline from './TimingTimeline';
 
 interface WorkflowOutputProps {
   modules: WorkflowModuleData[];
-  results: Array<{
+  results: Array<TimedResult & {
     agentIndex: number;
+    moduleId?: string;
     input: string;
     output: string;
     timestamp: string;
-    executionTime: number;
+    iteration?: number;
+    model?: string;
+    isFallback?: boolean;
+    cached?: boolean;
     usage?: {
       input_tokens?: number;
       output_tokens?: number;
     };
+    cost?: number;
+    items?: Array<{
+      itemIndex?: number;
+      input: string;
+      output: string;
+      cached?: boolean;
+      cost?: number;
+    }>;
+    reviews?: Array<{
+      decision: 'approved' | 'edited' | 'rejected';
+      note?: string;
+      requestedAt: string;
+      decidedAt: string;
+    }>;
   }>;
   onExport: () => void;
 }
@@ -26,12 +48,23 @@ export default function WorkflowOutput({
 }: WorkflowOutputProps) {
   const [copySuccess, setCopySuccess] = useState(false);
   const finalResult = results[results.length - 1];
+  const mappedResults = results.filter(r => r.items && r.items.length > 0);
+  const reviewedResults = results.filter(r => r.reviews && r.reviews.length > 0);
+
+  // The model that actually answered for each module, which differs from the
+  // selected one when a fallback was used
+  const modelUsed = (moduleId: string) => {
+    const result = results.filter(r => r.moduleId === moduleId).pop();
+    return result?.model
+      ? { model: result.model, isFallback: !!result.isFallback, isCached: !!result.cached }
+      : null;
+  };
   
-  // Calculate total execution time and tokens
-  const totalTime = results.reduce((sum, r) => sum + r.executionTime, 0);
-  const totalTokens = results.reduce((sum, r) => {
-    return sum + (r.usage?.input_tokens || 0) + (r.usage?.output_tokens || 0);
-  }, 0);
+  // Agents on parallel branches overlap, so use wall-clock time rather than
+  // adding up each agent's time
+  const totalTime = getRunDuration(results);
+  const totalTokens = getBilledTokens(results);
+  const totalCost = getBilledCost(results);
 
   const handleCopy = async () => {
     await navigator.clipboard.writeText(finalResult.output);
@@ -78,6 +111,16 @@ export default function WorkflowOutput({
           </svg>
           {totalTokens.toLocaleString()} tokens
         </div>
+        {totalCost !== undefined && (
+          <div className="flex items-center gap-2" title="Priced from the model prices in the settings">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+              />
+            </svg>
+            {formatCost(totalCost)}
+          </div>
+        )}
         <div className="flex items-center gap-2">
           <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
@@ -91,20 +134,36 @@ export default function WorkflowOutput({
       {/* Workflow Path */}
       <div className="flex items-center gap-2 text-sm text-[var(--text-secondary)] flex-wrap">
         <span>Path:</span>
-        {modules.map((module, index) => (
-          <span key={module.id} className="flex items-center">
-            {index > 0 && (
-              <svg className="w-4 h-4 mx-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            )}
-            <span className="px-2 py-1 rounded-md bg-[var(--surface-2)] border border-[var(--border)]">
-              {module.title}
+        {modules.map((module, index) => {
+          const used = modelUsed(module.id);
+          return (
+            <span key={module.id} className="flex items-center">
+              {index > 0 && (
+                <svg className="w-4 h-4 mx-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              )}
+              <span className="px-2 py-1 rounded-md bg-[var(--surface-2)] border border-[var(--border)]">
+                {module.title}
+                {used && (
+                  <span
+                    className={used.isFallback ? 'text-amber-400' : ''}
+                    title={used.isFallback ? 'Answered by a fallback model' : undefined}
+                  >
+                    {' · '}{getModelDisplayName(used.model)}
+                  </span>
+                )}
+                {used?.isCached && (
+                  <span className="text-text-tertiary" title="Served from the response cache">{' · '}cached</span>
+                )}
+              </span>
             </span>
-          </span>
-        ))}
+          );
+        })}
       </div>
 
+      <TimingTimeline modules={modules} results={results} />
+
       {/* Final Output */}
       <div className="relative">
         <div className="absolute right-4 top-4 flex items-center gap-2">
@@ -133,6 +192,56 @@ export default function WorkflowOutput({
         </div>
       </div>
 
+      {/* Per-item results from map modules */}
+      {mappedResults.map(result => (
+        <div key={`${result.moduleId}-${result.timestamp}`} className="space-y-2">
+          <h3 className="text-sm font-medium text-[var(--text-secondary)]">
+            {modules[result.agentIndex]?.title} · {result.items!.length} items
+          </h3>
+          {result.items!.map((item, index) => (
+            <details
+              key={index}
+              className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] overflow-hidden"
+            >
+              <summary className="px-4 py-2 text-sm cursor-pointer text-[var(--text-secondary)] truncate">
+                Item {(item.itemIndex ?? index) + 1}{item.cached && ' (cached)'}: {item.input.split('\n')[0]}
+              </summary>
+              <pre className="px-4 py-3 whitespace-pre-wrap font-mono text-sm text-[var(--text-primary)] border-t border-[var(--border)]">
+                {item.output}
+              </pre>
+            </details>
+          ))}
+        </div>
+      ))}
+
+      {/* Approval decisions */}
+      {reviewedResults.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-[var(--text-secondary)]">Approvals</h3>
+          {reviewedResults.flatMap(result => result.reviews!.map((review, index) => (
+            <div
+              key={`${result.moduleId}-${index}`}
+              className="px-4 py-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--surface-2)]"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span>
+                  {modules[result.agentIndex]?.title}{' · '}
+                  <span className={review.decision === 'rejected' ? 'text-error' : 'text-emerald-400'}>
+                    {review.decision === 'edited' ? 'approved with edits' : review.decision}
+                  </span>
+                </span>
+                <span className="text-xs text-[var(--text-secondary)]">
+                  {new Date(review.decidedAt).toLocaleString()}
+                </span>
+              </div>
+              {review.note && (
+                <div className="mt-1 text-xs text-[var(--text-secondary)] whitespace-pre-wrap">{review.note}</div>
+              )}
+            </div>
+          )))}
+        </div>
+      )}
+
       {/* Timestamp */}
       <div className="text-xs text-[var(--text-secondary)]">
         Completed at {new Date(finalResult.timestamp).toLocaleString()}
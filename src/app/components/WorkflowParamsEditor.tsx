@@ -0,0 +1,147 @@
+'use client';
+
+import { useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { WorkflowParam, WorkflowParamType } from '../types/workflow';
+import { validateParams } from '../utils/workflowParams';
+
+interface WorkflowParamsEditorProps {
+  params: WorkflowParam[];
+  onChange: (params: WorkflowParam[]) => void;
+  disabled?: boolean;
+}
+
+const TYPE_LABELS: Record<WorkflowParamType, string> = {
+  string: 'Text',
+  text: 'Long text',
+  number: 'Number',
+  enum: 'Choice',
+  file: 'File'
+};
+
+const inputClassName = `px-2 py-1 text-xs rounded-md bg-surface-1
+  border border-surface-2 focus:border-primary focus:ring-1 focus:ring-primary
+  disabled:opacity-50`;
+
+/**
+ * Define the inputs a workflow asks for when it is run
+ */
+export default function WorkflowParamsEditor({ params, onChange, disabled = false }: WorkflowParamsEditorProps) {
+  const errors = useMemo(() => validateParams(params), [params]);
+
+  const updateParam = (paramId: string, updates: Partial<WorkflowParam>) => {
+    onChange(params.map(p => p.id === paramId ? { ...p, ...updates } : p));
+  };
+
+  const addParam = () => {
+    onChange([
+      ...params,
+      { id: uuidv4(), name: `input${params.length + 1}`, type: 'string', required: true }
+    ]);
+  };
+
+  return (
+    <details className="w-full mb-8 text-sm" open={params.length > 0}>
+      <summary className="cursor-pointer select-none font-medium text-[var(--text-secondary)]">
+        Workflow Inputs{params.length > 0 && ` (${params.length})`}
+      </summary>
+
+      <div className="mt-3 space-y-2">
+        <div className="text-xs text-text-secondary">
+          Asked for when you run the workflow. Use a value in any prompt as {'{{params.name}}'};
+          the first agents also receive all values as their input.
+        </div>
+
+        {params.map(param => (
+          <div key={param.id} className="p-3 rounded-lg bg-surface-2 border border-surface-2 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={param.name}
+                onChange={(e) => updateParam(param.id, { name: e.target.value.trim() })}
+                disabled={disabled}
+                className={`w-36 font-mono ${inputClassName}`}
+                placeholder="name"
+              />
+              <select
+                value={param.type}
+                onChange={(e) => updateParam(param.id, { type: e.target.value as WorkflowParamType })}
+                disabled={disabled}
+                className={inputClassName}
+              >
+                {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 text-xs text-text-secondary">
+                <input
+                  type="checkbox"
+                  checked={!!param.required}
+                  onChange={(e) => updateParam(param.id, { required: e.target.checked })}
+                  disabled={disabled}
+                />
+                Required
+              </label>
+              <button
+                onClick={() => onChange(params.filter(p => p.id !== param.id))}
+                disabled={disabled}
+                className="ml-auto p-1 text-text-secondary hover:text-error
+                  hover:bg-error/10 rounded transition-colors disabled:opacity-50"
+                title="Remove input"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={param.description || ''}
+                onChange={(e) => updateParam(param.id, { description: e.target.value })}
+                disabled={disabled}
+                className={`flex-1 min-w-[160px] ${inputClassName}`}
+                placeholder="Description shown in the run form"
+              />
+              {param.type === 'enum' && (
+                // Parsed on blur so commas can be typed freely
+                <input
+                  defaultValue={param.options?.join(', ') || ''}
+                  onBlur={(e) => updateParam(param.id, {
+                    options: e.target.value.split(',').map(o => o.trim()).filter(Boolean)
+                  })}
+                  disabled={disabled}
+                  className={`flex-1 min-w-[160px] ${inputClassName}`}
+                  placeholder="Options, comma separated"
+                />
+              )}
+              {param.type !== 'file' && (
+                <input
+                  value={param.defaultValue || ''}
+                  onChange={(e) => updateParam(param.id, { defaultValue: e.target.value })}
+                  disabled={disabled}
+                  className={`w-32 ${inputClassName}`}
+                  placeholder="Default"
+                />
+              )}
+            </div>
+
+            {errors[param.id] && (
+              <div className="text-xs text-error">{errors[param.id]}</div>
+            )}
+          </div>
+        ))}
+
+        <button
+          onClick={addParam}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm font-medium rounded-lg
+            bg-surface-2 hover:bg-surface-3
+            border border-surface-2 hover:border-surface-3
+            transition-colors disabled:opacity-50"
+        >
+          Add Input
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import AddModuleButton from './components/AddModuleButton';
 import WorkflowModule from './components/WorkflowModule';
 import FlowIndicator from './components/FlowIndicator';
@@ -8,8 +8,53 @@ import WorkflowOutput from './components/WorkflowOutput';
 import ErrorDisplay from './components/ErrorDisplay';
 import ProgressBar from './components/ProgressBar';
 import StatusIndicator from './components/StatusIndicator';
-import { WorkflowModuleData } from './types/workflow';
+import WorkflowParamsEditor from './components/WorkflowParamsEditor';
+import RunInputForm from './components/RunInputForm';
+import RunHistoryPanel from './components/RunHistoryPanel';
+import BatchPanel from './components/BatchPanel';
+import TriggersPanel from './components/TriggersPanel';
+import SchedulesPanel from './components/SchedulesPanel';
+import DebugPanel from './components/DebugPanel';
+import ApprovalPanel from './components/ApprovalPanel';
+import RunBudgetConfig from './components/RunBudgetConfig';
+import WorkflowEstimate from './components/WorkflowEstimate';
+import { WorkflowModuleData, WorkflowParam, WorkflowParamValues, isModelModule } from './types/workflow';
 import { useWorkflowStore } from './store/workflowStore';
+import { getUpstreamMap, getDownstreamMap, getLoopMembership, getDescendants, findCycle } from './utils/workflowGraph';
+import { formatParamValues, validateParams } from './utils/workflowParams';
+import { ExportedRun, buildWorkflowExport } from './utils/workflowExport';
+import { RunRecord } from './utils/runHistory';
+import { rewriteAgentReferences } from './utils/promptTemplate';
+
+/**
+ * Download a workflow and the results of one of its runs as JSON
+ */
+function downloadExport(modules: WorkflowModuleData[], params: WorkflowParam[], run: ExportedRun) {
+  const exportData = buildWorkflowExport(modules, params, run);
+  const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `workflow-${new Date().toISOString().split('.')[0].replace(/:/g, '-')}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Rewrite the agent references in each prompt so they still point at the
+ * same modules once `prev` has become `next`, e.g. after a rename or a
+ * module being added or removed
+ */
+function withReferencesKept(prev: WorkflowModuleData[], next: WorkflowModuleData[]): WorkflowModuleData[] {
+  const before = prev.map(m => ({ id: m.id, title: m.title }));
+  const after = next.map(m => ({ id: m.id, title: m.title }));
+  return next.map(module => {
+    const prompt = rewriteAgentReferences(module.prompt, before, after);
+    return prompt === module.prompt ? module : { ...module, prompt };
+  });
+}
 
 export default function Home() {
   const [modules, setModules] = useState<WorkflowModuleData[]>([{
@@ -19,6 +64,14 @@ export default function Home() {
     selectedModel: null,
     prompt: ''
   }]);
+  const [params, setParams] = useState<WorkflowParam[]>([]);
+  const [showRunForm, setShowRunForm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [showTriggers, setShowTriggers] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  // A past run reopened from the history, shown in place of the latest one
+  const [viewedRun, setViewedRun] = useState<RunRecord | null>(null);
 
   const { 
     isRunning, 
@@ -27,102 +80,140 @@ export default function Home() {
     agentStatus, 
     error, 
     failedAgentIndex,
+    overBudget,
+    workflowInput: runInput,
+    inputValues,
+    paused,
+    pendingApproval,
     startWorkflow,
-    stopWorkflow
+    stopWorkflow,
+    resumeWorkflow,
+    submitApproval
   } = useWorkflowStore();
 
+  // Starting a run goes back to showing the latest results
+  useEffect(() => {
+    if (isRunning) setViewedRun(null);
+  }, [isRunning]);
+
   // Memoize module management functions
   const createModule = useCallback((index: number) => {
-    const newModule: WorkflowModuleData = {
-      id: String(Date.now()),
-      title: `Agent ${modules.length + 1}`,
-      provider: null,
-      selectedModel: null,
-      prompt: ''
-    };
-
-    setModules(prev => [
-      ...prev.slice(0, index + 1),
-      newModule,
-      ...prev.slice(index + 1)
-    ]);
-  }, [modules.length]);
+    setModules(prev => {
+      // Titles stay as they are when modules are removed, so the next
+      // number may already be taken
+      let number = prev.length + 1;
+      while (prev.some(m => m.title === `Agent ${number}`)) number++;
+      const newModule: WorkflowModuleData = {
+        id: String(Date.now()),
+        title: `Agent ${number}`,
+        provider: null,
+        selectedModel: null,
+        prompt: ''
+      };
+
+      return withReferencesKept(prev, [
+        ...prev.slice(0, index + 1),
+        newModule,
+        ...prev.slice(index + 1)
+      ]);
+    });
+  }, []);
 
   const updateModule = useCallback((moduleId: string, updates: Partial<WorkflowModuleData>) => {
     console.log('Updating module:', moduleId, updates); // Debug log
-    setModules(prev => prev.map(module => 
-      module.id === moduleId
-        ? { ...module, ...updates }
-        : module
-    ));
+    setModules(prev => {
+      const next = prev.map(module =>
+        module.id === moduleId
+          ? { ...module, ...updates }
+          : module
+      );
+      return updates.title !== undefined ? withReferencesKept(prev, next) : next;
+    });
   }, []);
 
   const deleteModule = useCallback((moduleId: string) => {
     setModules(prev => {
       const newModules = prev.filter(m => m.id !== moduleId);
-      // Renumber modules
-      return newModules.map((module, index) => ({
+      // Drop edges pointing at the deleted module
+      return withReferencesKept(prev, newModules).map(module => ({
         ...module,
-        title: `Agent ${index + 1}`
+        ...(module.dependsOn && {
+          dependsOn: module.dependsOn.filter(id => id !== moduleId)
+        }),
+        ...(module.branches && {
+          branches: module.branches.map(b => ({
+            ...b,
+            targetIds: b.targetIds.filter(id => id !== moduleId)
+          }))
+        }),
+        ...(module.loop && {
+          loop: {
+            ...module.loop,
+            bodyIds: module.loop.bodyIds.filter(id => id !== moduleId)
+          }
+        })
       }));
     });
   }, []);
 
+  // Resolved upstream module IDs for every module
+  const upstreamMap = useMemo(() => getUpstreamMap(modules), [modules]);
+  const downstreamMap = useMemo(() => getDownstreamMap(modules), [modules]);
+  const loopMembership = useMemo(() => getLoopMembership(modules), [modules]);
+  const templateAgents = useMemo(() => modules.map(m => ({ id: m.id, title: m.title })), [modules]);
+
+  // Cycles are rejected by the executor, so surface them before running
+  const graphError = useMemo(() => {
+    const cycle = findCycle(modules);
+    if (!cycle) return null;
+    const titles = cycle.map(id => modules.find(m => m.id === id)?.title || id);
+    return `Workflow contains a cycle: ${titles.join(' → ')}`;
+  }, [modules]);
+
   const handleRetryFromFailed = useCallback(() => {
     if (failedAgentIndex >= 0) {
-      startWorkflow(modules, failedAgentIndex);
+      startWorkflow(modules, failedAgentIndex, undefined, { params });
+    }
+  }, [failedAgentIndex, modules, params, startWorkflow]);
+
+  const handleRetryAll = useCallback((fresh: boolean) => {
+    startWorkflow(modules, 0, undefined, { fresh, params });
+  }, [modules, params, startWorkflow]);
+
+  const paramsInvalid = useMemo(() => Object.keys(validateParams(params)).length > 0, [params]);
+  const paramNames = useMemo(() => params.map(p => p.name), [params]);
+
+  // Workflows with inputs ask for their values before running
+  const handleRun = useCallback(() => {
+    if (params.length > 0) {
+      setShowRunForm(true);
+    } else {
+      startWorkflow(modules, 0, { text: '', values: {} }, { params });
     }
-  }, [failedAgentIndex, modules, startWorkflow]);
+  }, [modules, params, startWorkflow]);
 
-  const handleRetryAll = useCallback(() => {
-    startWorkflow(modules, 0);
-  }, [modules, startWorkflow]);
+  const handleRunWithInputs = useCallback((values: WorkflowParamValues) => {
+    setShowRunForm(false);
+    startWorkflow(modules, 0, { text: formatParamValues(params, values), values }, { params });
+  }, [modules, params, startWorkflow]);
 
   const handleExport = useCallback(() => {
-    const exportData = {
-      metadata: {
-        timestamp: new Date().toISOString(),
-        totalTime: results.reduce((sum, r) => sum + r.executionTime, 0),
-        totalTokens: results.reduce((sum, r) => {
-          return sum + (r.usage?.input_tokens || 0) + (r.usage?.output_tokens || 0);
-        }, 0),
-      },
-      workflow: {
-        agents: modules.map(m => ({
-          title: m.title,
-          model: m.selectedModel,
-          role: m.prompt
-        })),
-        results: results.map(r => ({
-          agent: modules[r.agentIndex].title,
-          input: r.input,
-          output: r.output,
-          executionTime: r.executionTime,
-          usage: r.usage,
-          timestamp: r.timestamp
-        }))
-      }
-    };
-
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `workflow-${new Date().toISOString().split('.')[0].replace(/:/g, '-')}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [modules, results]);
+    downloadExport(modules, params, { input: runInput, inputValues, results });
+  }, [modules, params, results, runInput, inputValues]);
 
   // Memoize module rendering
   const renderModules = useMemo(() => {
     return modules.map((module, index) => {
       const status = agentStatus[module.id];
       const isActive = isRunning && currentAgentIndex === index;
-      const isPreviousActive = isRunning && currentAgentIndex === index - 1;
-      const previousModule = index > 0 ? modules[index - 1] : null;
-      const isTransitioning = isPreviousActive && status?.isExecuting;
+      const upstreamIds = upstreamMap[module.id] || [];
+      const upstreamModules = modules.filter(m => upstreamIds.includes(m.id));
+      const isUpstreamActive = isRunning && upstreamIds.some(id => agentStatus[id]?.isExecuting);
+      const isTransitioning = isRunning && upstreamIds.length > 0 && status?.isExecuting;
+      // Only label the edge when it isn't the plain "previous agent" link
+      const isLinear = upstreamIds.length === 1 && index > 0 && upstreamIds[0] === modules[index - 1].id;
+      // A prompt can't refer to itself or to modules that run after it
+      const unavailableIds = new Set([module.id, ...Array.from(getDescendants(modules, module.id))]);
 
       return (
         <div 
@@ -130,12 +221,13 @@ export default function Home() {
           className="w-full flex flex-col items-center animate-slide-in"
           style={{ animationDelay: `${index * 0.1}s` }}
         >
-          {index > 0 && (
+          {upstreamModules.length > 0 && (
             <FlowIndicator 
-              isActive={isPreviousActive}
-              fromAgent={previousModule?.title}
+              isActive={isUpstreamActive}
+              fromAgents={upstreamModules.map(m => m.title)}
               toAgent={module.title}
               isTransitioning={isTransitioning}
+              showSources={!isLinear}
             />
           )}
 
@@ -148,20 +240,54 @@ export default function Home() {
               onDelete={deleteModule}
               canDelete={modules.length > 1}
               index={index}
+              upstreamOptions={modules.filter(m => m.id !== module.id).map(m => ({ id: m.id, title: m.title }))}
+              dependencies={upstreamIds}
+              downstreamOptions={modules
+                .filter(m => downstreamMap[module.id]?.includes(m.id))
+                .map(m => ({ id: m.id, title: m.title }))}
+              bodyOptions={modules
+                .filter(m => m.id !== module.id && m.kind !== 'loop')
+                .map(m => ({ id: m.id, title: m.title }))}
+              loopTitle={loopMembership[module.id]
+                ? modules.find(m => m.id === loopMembership[module.id])?.title
+                : undefined}
               isExecuting={status?.isExecuting}
               isComplete={status?.isComplete}
               executionError={status?.error}
               executionTime={status?.executionTime}
+              templateAgents={templateAgents}
+              unavailableReferenceIds={unavailableIds}
+              paramNames={paramNames}
+              streamingOutput={status?.isExecuting ? status.partialOutput : undefined}
             />
           </div>
 
-          {(status?.isExecuting || status?.isComplete || status?.error) && (
+          {(status?.isExecuting || status?.isComplete || status?.error || status?.isSkipped || status?.isCancelled || status?.pausedAt || status?.isAwaitingApproval) && (
             <div className="mt-4 animate-fade-in">
               <StatusIndicator
                 isExecuting={status.isExecuting}
                 isComplete={status.isComplete}
                 error={status.error}
                 executionTime={status.executionTime}
+                isSkipped={status.isSkipped}
+                routedTo={status.routedTo}
+                iteration={status.iteration}
+                iterations={status.iterations}
+                itemsCompleted={status.itemsCompleted}
+                itemsTotal={status.itemsTotal}
+                isCancelled={status.isCancelled}
+                attempt={status.attempt}
+                maxAttempts={status.maxAttempts}
+                retryReason={status.retryReason}
+                retryDelayMs={status.retryDelayMs}
+                retryModel={status.retryModel}
+                fallbackModel={status.fallbackModel}
+                pausedAt={status.pausedAt}
+                isAwaitingApproval={status.isAwaitingApproval}
+                reviewDecision={status.reviewDecision}
+                isCached={status.isCached}
+                queuedBehind={status.queuedBehind}
+                queueWaitMs={status.queueWaitMs}
               />
             </div>
           )}
@@ -174,7 +300,7 @@ export default function Home() {
         </div>
       );
     });
-  }, [modules, agentStatus, isRunning, currentAgentIndex, updateModule, deleteModule, createModule]);
+  }, [modules, agentStatus, isRunning, currentAgentIndex, upstreamMap, downstreamMap, loopMembership, templateAgents, paramNames, updateModule, deleteModule, createModule]);
 
   return (
     <div className="min-h-screen bg-[var(--surface-0)] flex flex-col">
@@ -189,6 +315,79 @@ export default function Home() {
               />
             )}
 
+            <div className="w-full flex justify-end gap-2 mb-4">
+              <button
+                onClick={() => setShowBatch(true)}
+                disabled={modules.length === 0 || !!graphError || paramsInvalid}
+                className="px-3 py-1.5 text-sm bg-[var(--surface-2)] hover:bg-[var(--surface-3)]
+                  text-[var(--text-secondary)] rounded-lg transition-colors flex items-center gap-2
+                  disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                </svg>
+                Batch
+              </button>
+              <button
+                onClick={() => setShowTriggers(true)}
+                disabled={modules.length === 0 || !!graphError || paramsInvalid}
+                className="px-3 py-1.5 text-sm bg-[var(--surface-2)] hover:bg-[var(--surface-3)]
+                  text-[var(--text-secondary)] rounded-lg transition-colors flex items-center gap-2
+                  disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+                Triggers
+              </button>
+              <button
+                onClick={() => setShowSchedules(true)}
+                disabled={modules.length === 0 || !!graphError || paramsInvalid}
+                className="px-3 py-1.5 text-sm bg-[var(--surface-2)] hover:bg-[var(--surface-3)]
+                  text-[var(--text-secondary)] rounded-lg transition-colors flex items-center gap-2
+                  disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                Schedules
+              </button>
+              <button
+                onClick={() => setShowHistory(true)}
+                className="px-3 py-1.5 text-sm bg-[var(--surface-2)] hover:bg-[var(--surface-3)]
+                  text-[var(--text-secondary)] rounded-lg transition-colors flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                History
+              </button>
+            </div>
+
+            {showHistory && (
+              <RunHistoryPanel
+                onOpen={(run) => {
+                  setViewedRun(run);
+                  setShowHistory(false);
+                }}
+                onClose={() => setShowHistory(false)}
+              />
+            )}
+
+            {showBatch && (
+              <BatchPanel modules={modules} params={params} onClose={() => setShowBatch(false)} />
+            )}
+
+            {showTriggers && (
+              <TriggersPanel modules={modules} params={params} onClose={() => setShowTriggers(false)} />
+            )}
+
+            {showSchedules && (
+              <SchedulesPanel modules={modules} params={params} onClose={() => setShowSchedules(false)} />
+            )}
+
+            <WorkflowParamsEditor params={params} onChange={setParams} disabled={isRunning} />
+
             <AddModuleButton 
               className="mb-8 animate-slide-in" 
               onClick={() => createModule(0)}
@@ -196,7 +395,7 @@ export default function Home() {
             
             {renderModules}
 
-            <div className="w-full flex justify-center mb-16">
+            <div className="w-full flex flex-col items-center gap-3 mb-16">
               {isRunning ? (
                 <button
                   onClick={stopWorkflow}
@@ -210,10 +409,10 @@ export default function Home() {
                 </button>
               ) : (
                 <button
-                  onClick={() => startWorkflow(modules)}
+                  onClick={handleRun}
                   className="px-8 py-3 bg-[var(--primary)] hover:bg-[var(--primary-hover)] text-white rounded-lg 
                     font-medium transition-all duration-200 hover:shadow-[var(--glow)] flex items-center gap-3"
-                  disabled={isRunning || modules.some(m => !m.prompt)}
+                  disabled={isRunning || !!graphError || paramsInvalid || modules.some(m => isModelModule(m) && !m.prompt)}
                 >
                   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
@@ -222,13 +421,53 @@ export default function Home() {
                   Run Workflow
                 </button>
               )}
+              <RunBudgetConfig disabled={isRunning} />
+              {!isRunning && !graphError && (
+                <WorkflowEstimate modules={modules} params={params} inputValues={inputValues} />
+              )}
             </div>
 
+            {paused && (
+              <DebugPanel
+                key={`${paused.moduleId}-${paused.phase}-${paused.iteration ?? ''}`}
+                step={paused}
+                moduleTitle={modules[paused.moduleIndex]?.title || ''}
+                onResume={resumeWorkflow}
+                onAbort={stopWorkflow}
+              />
+            )}
+
+            {pendingApproval && (
+              <ApprovalPanel
+                key={`${pendingApproval.moduleId}-${pendingApproval.revisions}`}
+                request={pendingApproval}
+                moduleTitle={modules[pendingApproval.moduleIndex]?.title || ''}
+                onDecide={submitApproval}
+                onStop={stopWorkflow}
+              />
+            )}
+
+            {showRunForm && (
+              <RunInputForm
+                params={params}
+                initialValues={inputValues}
+                onRun={handleRunWithInputs}
+                onCancel={() => setShowRunForm(false)}
+              />
+            )}
+
+            {graphError && !isRunning && (
+              <div className="w-full mb-8 p-3 text-sm rounded-lg bg-error/10 text-error border border-error/20">
+                {graphError}
+              </div>
+            )}
+
             {error && !isRunning && (
               <div className="w-full mb-16">
                 <ErrorDisplay
                   error={error}
                   failedAgentIndex={failedAgentIndex}
+                  overBudget={overBudget}
                   modules={modules}
                   onRetryFromFailed={handleRetryFromFailed}
                   onRetryAll={handleRetryAll}
@@ -236,7 +475,40 @@ export default function Home() {
               </div>
             )}
 
-            {!isRunning && results.length > 0 && !error && (
+            {viewedRun && !isRunning && (
+              <div className="w-full mt-16 pt-16 border-t border-[var(--border)] space-y-4">
+                <div className="flex items-center justify-between gap-3 px-4 py-2 text-sm rounded-lg
+                  bg-[var(--surface-2)] border border-[var(--border)] text-[var(--text-secondary)]">
+                  <span className="truncate">
+                    Viewing a {viewedRun.status} run from {new Date(viewedRun.startedAt).toLocaleString()}
+                  </span>
+                  <button
+                    onClick={() => setViewedRun(null)}
+                    className="shrink-0 hover:text-[var(--text-primary)] transition-colors"
+                  >
+                    Back to latest
+                  </button>
+                </div>
+                {viewedRun.error && (
+                  <div className="p-3 text-sm rounded-lg bg-error/10 text-error border border-error/20">
+                    {viewedRun.error}
+                  </div>
+                )}
+                {viewedRun.results.length > 0 && (
+                  <WorkflowOutput
+                    modules={viewedRun.modules}
+                    results={viewedRun.results}
+                    onExport={() => downloadExport(viewedRun.modules, viewedRun.params || [], {
+                      input: viewedRun.input.text,
+                      inputValues: viewedRun.input.values,
+                      results: viewedRun.results
+                    })}
+                  />
+                )}
+              </div>
+            )}
+
+            {!viewedRun && !isRunning && results.length > 0 && !error && (
               <div className="w-full mt-16 pt-16 border-t border-[var(--border)]">
                 <WorkflowOutput 
                   modules={modules}
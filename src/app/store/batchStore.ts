@@ -0,0 +1,173 @@
+import { create } from 'zustand';
+import { WorkflowModuleData, WorkflowParam, WorkflowParamValues } from '../types/workflow';
+import { Dataset } from '../utils/dataset';
+import { formatParamValues, validateParamValues } from '../utils/workflowParams';
+import { mapWithConcurrency } from '../utils/mapItems';
+import { isCacheEnabled } from '../utils/responseCache';
+import { createBudgetTracker, getRunBudget } from '../utils/budget';
+import { getPlugins } from '../utils/workflowPlugins';
+import { AgentResult, WorkflowRunInput, executeWorkflow } from '../utils/workflowEngine';
+
+export type BatchRowStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BatchRow {
+  index: number;
+  source: Record<string, string>; // the row as read from the file
+  input?: WorkflowRunInput;
+  status: BatchRowStatus;
+  results: AgentResult[];
+  error?: string;
+}
+
+// Which dataset column feeds each workflow parameter, by parameter name.
+// A workflow without parameters maps a column to its input text under
+// INPUT_MAPPING_KEY.
+export type ColumnMapping = Record<string, string>;
+
+export const INPUT_MAPPING_KEY = '';
+
+interface BatchState {
+  isRunning: boolean;
+  columns: string[];
+  rows: BatchRow[];
+  startBatch: (
+    modules: WorkflowModuleData[],
+    params: WorkflowParam[],
+    dataset: Dataset,
+    mapping: ColumnMapping,
+    concurrency: number
+  ) => void;
+  stopBatch: () => void;
+}
+
+let batchController: AbortController | null = null;
+
+/**
+ * Build a row's run input from the mapped columns, or explain why the row
+ * can't run
+ */
+function getRowInput(
+  params: WorkflowParam[],
+  mapping: ColumnMapping,
+  source: Record<string, string>
+): { input: WorkflowRunInput } | { error: string } {
+  if (params.length === 0) {
+    const column = mapping[INPUT_MAPPING_KEY];
+    return { input: { text: column ? source[column] ?? '' : '', values: {} } };
+  }
+
+  const values: WorkflowParamValues = {};
+  params.forEach(param => {
+    const value = mapping[param.name] ? source[mapping[param.name]] : undefined;
+    if (value === undefined || value === '') return;
+    values[param.name] = param.type === 'number' ? Number(value) : value;
+  });
+
+  const errors = Object.entries(validateParamValues(params, values));
+  if (errors.length > 0) {
+    return { error: errors.map(([name, message]) => `${name}: ${message}`).join('; ') };
+  }
+  return { input: { text: formatParamValues(params, values), values } };
+}
+
+export const useBatchStore = create<BatchState>((set) => ({
+  isRunning: false,
+  columns: [],
+  rows: [],
+
+  startBatch: async (modules, params, dataset, mapping, concurrency) => {
+    batchController?.abort();
+    const controller = new AbortController();
+    batchController = controller;
+    const { signal } = controller;
+
+    // Rows with invalid inputs fail straight away
+    const rows: BatchRow[] = dataset.rows.map((source, index) => {
+      const prepared = getRowInput(params, mapping, source);
+      return 'error' in prepared
+        ? { index, source, status: 'failed', results: [], error: `Invalid input. ${prepared.error}` }
+        : { index, source, input: prepared.input, status: 'pending', results: [] };
+    });
+    set({ isRunning: true, columns: dataset.columns, rows });
+
+    const updateRow = (index: number, update: Partial<BatchRow>) => {
+      if (batchController !== controller) return;
+      set(state => ({
+        rows: state.rows.map(row => row.index === index ? { ...row, ...update } : row)
+      }));
+    };
+
+    // Each row runs in isolation; its progress isn't shown module by module
+    const cacheMode = isCacheEnabled() ? 'use' : 'off';
+    // The budget covers the whole batch, so its rows share one tracker
+    const budget = getRunBudget();
+    const budgetTracker = budget.maxTokens || budget.maxCost ? createBudgetTracker(budget, 'batch') : undefined;
+    await mapWithConcurrency(
+      rows.filter(row => row.input),
+      Math.max(1, concurrency),
+      async (row) => {
+        if (signal.aborted) return;
+        updateRow(row.index, { status: 'running' });
+
+        const outcome = await executeWorkflow(modules, {
+          input: row.input!,
+          signal,
+          update: () => {},
+          cacheMode,
+          budgetTracker,
+          plugins: getPlugins()
+        });
+        updateRow(row.index, {
+          status: outcome.status,
+          results: outcome.results,
+          error: outcome.error?.message
+        });
+      }
+    );
+
+    if (batchController === controller) {
+      set(state => ({
+        isRunning: false,
+        rows: state.rows.map(row => row.status === 'pending' ? { ...row, status: 'cancelled' } : row)
+      }));
+    }
+  },
+
+  stopBatch: () => {
+    batchController?.abort();
+    batchController = null;
+    set(state => ({
+      isRunning: false,
+      rows: state.rows.map(row =>
+        row.status === 'pending' || row.status === 'running' ? { ...row, status: 'cancelled' } : row
+      )
+    }));
+  }
+}));
+
+/**
+ * Lay out a batch's results as a table: the row's original columns, its
+ * status and error, then one column per module with that module's output
+ */
+export function getBatchResultsTable(modules: WorkflowModuleData[], columns: string[], rows: BatchRow[]) {
+  const taken = new Set([...columns, 'status', 'error']);
+  const moduleColumns = modules.map(module => {
+    let name = module.title;
+    for (let n = 2; taken.has(name); n++) name = `${module.title} (${n})`;
+    taken.add(name);
+    return { moduleId: module.id, name };
+  });
+
+  return {
+    columns: [...columns, 'status', 'error', ...moduleColumns.map(c => c.name)],
+    rows: rows.map(row => {
+      const record: Record<string, string> = { ...row.source, status: row.status, error: row.error || '' };
+      moduleColumns.forEach(({ moduleId, name }) => {
+        // A module in a loop records one result per iteration; keep the last
+        const result = row.results.filter(r => r.moduleId === moduleId).pop();
+        record[name] = result?.output ?? '';
+      });
+      return record;
+    })
+  };
+}
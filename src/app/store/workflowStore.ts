@@ -1,214 +1,181 @@
 import { create } from 'zustand';
-import { WorkflowModuleData, WorkflowResult } from '../types/workflow';
-import { getProviderEndpoint } from '../utils/providerEndpoints';
-import { getCustomProviders } from '../utils/customProviders';
-import { isBuiltInProvider, isCustomProvider, CustomProvider } from '../types/workflow';
-
-// Helper to safely access sessionStorage
-const getStorageValue = (key: string): string | null => {
-  if (typeof window === 'undefined') return null;
-  return window.sessionStorage.getItem(key);
-};
-
-interface AgentStatus {
-  isExecuting: boolean;
-  isComplete: boolean;
-  error: string | null;
-  executionTime?: number;
-}
-
-interface AgentResult {
-  agentIndex: number;
-  input: string;
-  output: string;
-  executionTime: number;
-  usage?: {
-    input_tokens: number;
-    output_tokens: number;
-  };
-  timestamp: string;
+import { v4 as uuidv4 } from 'uuid';
+import { WorkflowModuleData, WorkflowParam, WorkflowParamValues } from '../types/workflow';
+import { topologicalSort } from '../utils/workflowGraph';
+import { createRunRecord, pruneRuns, saveRun } from '../utils/runHistory';
+import { isCacheEnabled } from '../utils/responseCache';
+import { getRunBudget } from '../utils/budget';
+import { getPlugins } from '../utils/workflowPlugins';
+import {
+  AgentResult,
+  AgentStatus,
+  ApprovalDecision,
+  CacheMode,
+  PausedStep,
+  PendingApproval,
+  ResumeMode,
+  RunControls,
+  WorkflowRunInput,
+  executeWorkflow,
+  getPreservedResults
+} from '../utils/workflowEngine';
+
+export type {
+  AgentResult,
+  AgentTiming,
+  ApprovalDecision,
+  ApprovalReview,
+  PausedStep,
+  PendingApproval,
+  ResumeMode,
+  WorkflowRunInput
+} from '../utils/workflowEngine';
+
+export interface RunOptions {
+  fresh?: boolean; // call every model even when the response cache has an answer
+  params?: WorkflowParam[]; // kept with the run in the history
 }
 
 interface WorkflowState {
+  runId: string | null;
   isRunning: boolean;
+  // Set while a running workflow waits at a breakpoint
+  paused: PausedStep | null;
+  pendingApproval: PendingApproval | null;
   currentAgentIndex: number;
   startTime: number;
   results: AgentResult[];
   agentStatus: Record<string, AgentStatus>;
   error: string | null;
   failedAgentIndex: number;
-  startWorkflow: (modules: WorkflowModuleData[], startIndex?: number) => void;
+  overBudget: boolean;
+  workflowInput: string;
+  inputValues: WorkflowParamValues;
+  // Omitting the input reuses the input of the previous run, e.g. when
+  // retrying from a failed agent
+  startWorkflow: (
+    modules: WorkflowModuleData[],
+    startIndex?: number,
+    input?: WorkflowRunInput,
+    options?: RunOptions
+  ) => void;
   stopWorkflow: () => void;
+  // Leave the current breakpoint, replacing the module's output if given
+  resumeWorkflow: (mode: ResumeMode, output?: string) => void;
+  submitApproval: (decision: ApprovalDecision) => void;
 }
 
-const MAX_RETRIES = 3;
-const RETRY_DELAY_MS = 1000;
+// Controller for the run in progress; aborting it cancels every in-flight
+// agent request, including the upstream provider call made by the route
+let activeController: AbortController | null = null;
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Release the breakpoint or approval the active run is waiting at
+let activeControls: RunControls | null = null;
 
 export const useWorkflowStore = create<WorkflowState>((set, get) => ({
+  runId: null,
   isRunning: false,
+  paused: null,
+  pendingApproval: null,
   currentAgentIndex: 0,
   startTime: 0,
   results: [],
   agentStatus: {},
   error: null,
   failedAgentIndex: -1,
-
-  startWorkflow: async (modules: WorkflowModuleData[], startIndex = 0) => {
-    set({
-      isRunning: true,
-      currentAgentIndex: startIndex,
-      startTime: Date.now(),
-      results: startIndex === 0 ? [] : get().results.slice(0, startIndex),
-      error: null,
-      failedAgentIndex: -1,
-      agentStatus: {}
-    });
+  overBudget: false,
+  workflowInput: '',
+  inputValues: {},
+
+  startWorkflow: async (
+    modules: WorkflowModuleData[],
+    startIndex = 0,
+    input: WorkflowRunInput = { text: get().workflowInput, values: get().inputValues },
+    options: RunOptions = {}
+  ) => {
+    const { text: workflowInput, values: inputValues } = input;
+    // A fresh run skips cache lookups but still stores what it gets back
+    const cacheMode: CacheMode = !isCacheEnabled() ? 'off' : options.fresh ? 'refresh' : 'use';
 
     try {
-      let previousOutput: string | undefined;
-      for (let i = startIndex; i < modules.length; i++) {
-        const module = modules[i];
-        set(state => ({
-          currentAgentIndex: i,
-          agentStatus: {
-            ...state.agentStatus,
-            [module.id]: { isExecuting: true, isComplete: false, error: null }
-          }
-        }));
-
-        try {
-          const result = await executeAgent(module, previousOutput);
-          previousOutput = result.output;
-
-          set(state => ({
-            results: [...state.results, result],
-            agentStatus: {
-              ...state.agentStatus,
-              [module.id]: {
-                isExecuting: false,
-                isComplete: true,
-                error: null,
-                executionTime: result.executionTime
-              }
-            }
-          }));
-        } catch (error) {
-          set(state => ({
-            isRunning: false,
-            error: (error as Error).message,
-            failedAgentIndex: i,
-            agentStatus: {
-              ...state.agentStatus,
-              [module.id]: {
-                isExecuting: false,
-                isComplete: false,
-                error: (error as Error).message
-              }
-            }
-          }));
-          return;
-        }
-      }
-
-      set({ isRunning: false });
+      topologicalSort(modules);
     } catch (error) {
       set({
         isRunning: false,
         error: (error as Error).message,
-        failedAgentIndex: get().currentAgentIndex
+        failedAgentIndex: -1,
+        overBudget: false,
+        agentStatus: {}
       });
+      return;
     }
-  },
 
-  stopWorkflow: () => {
-    set({ isRunning: false });
-  }
-}));
+    // Cancel any previous run before starting a new one
+    activeController?.abort();
+    const controller = new AbortController();
+    activeController = controller;
+    const controls: RunControls = { resume: null, decide: null };
+    activeControls = controls;
 
-interface CustomProviderConfig extends CustomProvider {
-  auth: {
-    type: 'bearer' | 'query' | 'header';
-    key: string;
-    value: string;
-  };
-}
-
-async function executeAgent(module: WorkflowModuleData, input?: string, store = useWorkflowStore.getState()): Promise<AgentResult> {
-  try {
-    if (!module.provider || !module.selectedModel) {
-      throw new Error(`Invalid configuration for agent "${module.title}"`);
-    }
-
-    const provider = module.provider; // Capture for type narrowing
-    const endpoint = getProviderEndpoint(provider);
-    console.log(`Executing agent "${module.title}" using endpoint:`, endpoint);
-
-    let apiKey: string | null = null;
-    let customProvider: CustomProviderConfig | null = null;
-
-    if (isBuiltInProvider(provider)) {
-      apiKey = getStorageValue(`${provider}_api_key`);
-      if (!apiKey) {
-        throw new Error(`API key not found for ${provider}`);
-      }
-    } else if (isCustomProvider(provider)) {
-      const foundProvider = getCustomProviders().find(p => p.id === provider.id) as CustomProviderConfig;
-      if (!foundProvider) {
-        throw new Error('Custom provider configuration not found');
-      }
-      customProvider = foundProvider;
-      apiKey = foundProvider.auth.value; // Extract API key from custom provider config
-    } else {
-      throw new Error('Invalid provider type');
-    }
-
-    const prompt = input ? `${module.prompt}\n\nInput: ${input}` : module.prompt;
-
-    // Prepare request payload
-    const requestPayload = {
-      prompt,
-      apiKey, // API key is now always at top level
-      model: module.selectedModel,
-      ...(customProvider && {
-        providerConfig: {
-          ...customProvider,
-          // Remove auth.value from providerConfig to avoid duplication
-          auth: {
-            ...customProvider.auth,
-            value: undefined // API key is now at top level
-          }
-        }
-      })
+    // Ignore late updates from a run that has since been replaced
+    const setRun = (partial: Partial<WorkflowState> | ((state: WorkflowState) => Partial<WorkflowState>)) => {
+      if (activeController === controller) set(partial);
     };
 
-    console.log('Making API request to:', endpoint);
-
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(requestPayload)
+    const preserved = getPreservedResults(modules, startIndex, get().results);
+
+    const runId = uuidv4();
+    const startedAt = Date.now();
+    setRun({ runId, startTime: startedAt, workflowInput, inputValues });
+
+    // The outcome is saved to the history even after a newer run has
+    // replaced this one in the store
+    const outcome = await executeWorkflow(modules, {
+      input,
+      startIndex,
+      preserved,
+      signal: controller.signal,
+      update: setRun,
+      cacheMode,
+      controls,
+      budget: getRunBudget(),
+      plugins: getPlugins()
     });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || 'Failed to get response');
-    }
+    saveRun(createRunRecord({
+      id: runId,
+      modules,
+      params: options.params,
+      input: { text: workflowInput, values: inputValues },
+      startedAt,
+      outcome
+    }))
+      .then(() => pruneRuns())
+      .catch(error => console.error('Failed to save run to history:', error));
+  },
 
-    const data = await response.json();
+  stopWorkflow: () => {
+    activeController?.abort();
+    set(state => ({
+      isRunning: false,
+      paused: null,
+      pendingApproval: null,
+      agentStatus: Object.fromEntries(
+        Object.entries(state.agentStatus).map(([id, status]) => [
+          id,
+          status.isExecuting || status.pausedAt || status.isAwaitingApproval
+            ? { ...status, isExecuting: false, pausedAt: undefined, isAwaitingApproval: false, isCancelled: true }
+            : status
+        ])
+      )
+    }));
+  },
 
-    return {
-      agentIndex: store.currentAgentIndex,
-      input: prompt,
-      output: data.response,
-      executionTime: Date.now() - store.startTime,
-      usage: data.usage,
-      timestamp: new Date().toISOString()
-    };
+  resumeWorkflow: (mode: ResumeMode, output?: string) => {
+    activeControls?.resume?.(mode, output);
+  },
 
-  } catch (error) {
-    console.error(`Error executing agent "${module.title}":`, error);
-    throw error;
+  submitApproval: (decision: ApprovalDecision) => {
+    activeControls?.decide?.(decision);
   }
-} 
\ No newline at end of file
+}));
@@ -12,20 +12,165 @@ export interface CustomProvider {
 // Combined provider type
 export type Provider = BuiltInProvider | CustomProvider;
 
+// Kinds of module that can appear in a workflow
+export type ModuleKind = 'agent' | 'router' | 'loop' | 'map' | 'reduce' | 'approval';
+
+// A check run against an agent's text output
+export interface OutputCondition {
+  type: 'contains' | 'regex' | 'jsonEquals' | 'numeric';
+  value: string;
+  path?: string; // JSON field path for jsonEquals / numeric, e.g. "result.type"
+  comparator?: '>' | '>=' | '<' | '<=' | '==' | '!=';
+  caseSensitive?: boolean;
+}
+
+// A named branch of a router module. A branch without a condition is the
+// fallback taken when no other branch matches.
+export interface RouteBranch {
+  id: string;
+  name: string;
+  condition: OutputCondition | null;
+  targetIds: string[];
+}
+
+// Settings for a loop module. The body modules are re-run as a group, each
+// iteration reading the previous iteration's output, until the exit condition
+// matches or maxIterations is reached.
+export interface LoopConfig {
+  bodyIds: string[];
+  exitCondition: OutputCondition | null;
+  maxIterations: number;
+}
+
+// How a map module splits its input into items
+export type SplitStrategy = 'json' | 'lines' | 'headings';
+
+// Settings for a map module, which runs its prompt once per item
+export interface MapConfig {
+  splitStrategy: SplitStrategy;
+  concurrency: number;
+}
+
+// Settings for a reduce module, which joins mapped items back together
+export interface ReduceConfig {
+  strategy: 'concat' | 'jsonArray' | 'agent';
+  separator?: string;
+}
+
+// Settings for an approval module, which waits for a person to sign off on
+// its input before passing it on. A rejection either ends the run or sends
+// the work back to the agents before it, with the reviewer's feedback.
+export interface ApprovalConfig {
+  instructions?: string; // shown to the reviewer
+  onReject: 'end' | 'revise';
+  maxRevisions?: number;
+}
+
+// A provider/model pair, e.g. one entry in a module's fallback chain.
+// Both are null until picked in the editor.
+export interface ModelChoice {
+  provider: Provider | null;
+  model: string | null;
+}
+
+// Kinds of failure a retry policy can choose to retry
+export type RetryErrorClass = 'rateLimit' | 'server' | 'network';
+
+// How long to wait between attempts: the same delay every time, a delay that
+// grows by the base each attempt, or one that doubles each attempt
+export type BackoffCurve = 'fixed' | 'linear' | 'exponential';
+
+// Per-module policy for retrying failed model calls
+export interface RetryPolicy {
+  maxAttempts: number; // total attempts, including the first
+  backoff: BackoffCurve;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  retryOn: RetryErrorClass[];
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+// The part of JSON Schema that module outputs are checked against. Other
+// keywords are kept and sent to the provider, but not checked.
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+// Where a run pauses on a module in debug mode: before it runs, after it
+// has produced its output, or both
+export type BreakpointMode = 'before' | 'after' | 'both';
+
 export interface WorkflowModuleData {
   id: string;
   title: string;
   provider: Provider | null;
   selectedModel: string | null;
   prompt: string;
+  // IDs of upstream modules whose output feeds this module.
+  // When omitted, the module reads from the module directly before it.
+  dependsOn?: string[];
+  kind?: ModuleKind;
+  branches?: RouteBranch[];
+  loop?: LoopConfig;
+  map?: MapConfig;
+  reduce?: ReduceConfig;
+  approval?: ApprovalConfig;
+  retry?: RetryPolicy;
+  // Models tried in order when the selected model keeps failing with a
+  // retryable error
+  fallbacks?: ModelChoice[];
+  breakpoint?: BreakpointMode;
+  // Ask for JSON matching this schema instead of free text
+  outputSchema?: JsonSchema;
+}
+
+// Types of workflow input parameter: single-line text, long text, a number,
+// one of a fixed list of options, or the text contents of an uploaded file
+export type WorkflowParamType = 'string' | 'text' | 'number' | 'enum' | 'file';
+
+// A named input the workflow asks for when it is run. Prompts use the value
+// as {{params.name}}.
+export interface WorkflowParam {
+  id: string;
+  name: string;
+  type: WorkflowParamType;
+  required?: boolean;
+  description?: string;
+  options?: string[]; // choices for enum parameters
+  defaultValue?: string;
 }
 
+export type WorkflowParamValue = string | number;
+
+export type WorkflowParamValues = Record<string, WorkflowParamValue>;
+
 export interface WorkflowResult {
   agentIndex: number;
+  moduleId?: string;
   input: string;
   output: string;
   timestamp: string;
   executionTime: number;
+  iteration?: number;
+  itemIndex?: number;
   usage?: {
     input_tokens?: number;
     output_tokens?: number;
@@ -139,6 +284,22 @@ export function isCustomProvider(provider: Provider): provider is CustomProvider
   return typeof provider === 'object' && provider.type === 'custom';
 }
 
+/**
+ * Check if a module calls a model itself and therefore needs a provider,
+ * model and prompt
+ */
+export function isModelModule(module: Pick<WorkflowModuleData, 'kind' | 'reduce'>): boolean {
+  const kind = module.kind || 'agent';
+  return kind === 'agent' || kind === 'map' || (kind === 'reduce' && module.reduce?.strategy === 'agent');
+}
+
+/**
+ * Get the display name of a built-in or custom provider
+ */
+export function getProviderName(provider: Provider): string {
+  return isBuiltInProvider(provider) ? PROVIDER_NAMES[provider] : provider.name;
+}
+
 /**
  * Get the provider ID (either the built-in provider string or custom provider ID)
  */
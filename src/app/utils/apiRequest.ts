@@ -0,0 +1,42 @@
+// Routes that manage the server's triggers, schedules and runs take the
+// server's admin token in this header
+export const ADMIN_TOKEN_HEADER = 'x-agent-link-admin-token';
+
+const ADMIN_TOKEN_KEY = 'agent_link_admin_token';
+
+// Kept for the browser session, like the provider API keys
+export function getAdminToken(): string {
+  if (typeof window === 'undefined') return '';
+  return window.sessionStorage.getItem(ADMIN_TOKEN_KEY) || '';
+}
+
+export function setAdminToken(token: string): void {
+  if (token) {
+    window.sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+  } else {
+    window.sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+  }
+}
+
+/**
+ * Call one of the app's JSON routes, throwing the route's error message if
+ * it fails. The admin token is sent along when one is set.
+ */
+export async function apiRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const headers = new Headers(init?.headers);
+  const token = getAdminToken();
+  if (token) headers.set(ADMIN_TOKEN_HEADER, token);
+
+  const response = await fetch(url, { ...init, headers });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data as T;
+}
+
+export const jsonBody = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
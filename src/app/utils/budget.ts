@@ -0,0 +1,108 @@
+import { formatCost } from './pricing';
+
+// The most one run may spend. A limit left unset doesn't apply.
+export interface RunBudget {
+  maxTokens?: number;
+  maxCost?: number; // in US dollars
+}
+
+export interface Spend {
+  tokens: number;
+  cost: number;
+}
+
+// Keeps a run's spending within its budget. Calls in flight on parallel
+// branches hold their estimate until they finish, so they can't overspend
+// together.
+export interface BudgetTracker {
+  /**
+   * Set aside the estimated spend of a call, throwing if it would take the
+   * run over budget. Returns a function to call once the call is done with
+   * what it actually spent, if anything.
+   */
+  reserve: (estimate: Spend, title: string) => (actual?: Spend) => void;
+}
+
+const BUDGET_KEY = 'run_budget';
+
+// Thrown instead of making a call that would take a run over budget
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(`Budget exceeded: ${message}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function getRunBudget(): RunBudget {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(BUDGET_KEY) || '{}');
+  } catch (error) {
+    console.error('Failed to load run budget:', error);
+    return {};
+  }
+}
+
+export function saveRunBudget(budget: RunBudget): void {
+  window.localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+}
+
+/**
+ * List a budget's limits, e.g. "50,000 tokens, $1.00", or an empty string
+ * if none is set
+ */
+export function describeBudget({ maxTokens, maxCost }: RunBudget): string {
+  return [
+    maxTokens && `${maxTokens.toLocaleString()} tokens`,
+    maxCost && formatCost(maxCost)
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Whether an error stopped a run going over budget, including when a loop
+ * or map module wrapped it with the iteration or item that failed
+ */
+export function isBudgetError(error: unknown): boolean {
+  if (error instanceof BudgetExceededError) return true;
+  return error instanceof Error && error.cause !== undefined && isBudgetError(error.cause);
+}
+
+/**
+ * Track spending against a budget. `scope` names what it covers in the
+ * error, e.g. a run or a batch of them.
+ */
+export function createBudgetTracker({ maxTokens, maxCost }: RunBudget, scope = 'run'): BudgetTracker {
+  const spent: Spend = { tokens: 0, cost: 0 };
+  const reserved: Spend = { tokens: 0, cost: 0 };
+
+  return {
+    reserve: (estimate, title) => {
+      if (maxTokens && spent.tokens + reserved.tokens + estimate.tokens > maxTokens) {
+        const left = Math.max(0, maxTokens - spent.tokens - reserved.tokens);
+        throw new BudgetExceededError(
+          `${title} needs about ${estimate.tokens.toLocaleString()} tokens, ` +
+          `but only ${left.toLocaleString()} of the ${scope}'s ${maxTokens.toLocaleString()} are left`
+        );
+      }
+      if (maxCost && spent.cost + reserved.cost + estimate.cost > maxCost) {
+        const left = Math.max(0, maxCost - spent.cost - reserved.cost);
+        throw new BudgetExceededError(
+          `${title} could cost up to ${formatCost(estimate.cost)}, ` +
+          `but only ${formatCost(left)} of the ${scope}'s ${formatCost(maxCost)} is left`
+        );
+      }
+
+      reserved.tokens += estimate.tokens;
+      reserved.cost += estimate.cost;
+      let settled = false;
+      return (actual) => {
+        if (settled) return;
+        settled = true;
+        reserved.tokens -= estimate.tokens;
+        reserved.cost -= estimate.cost;
+        spent.tokens += actual?.tokens || 0;
+        spent.cost += actual?.cost || 0;
+      };
+    }
+  };
+}
@@ -0,0 +1,120 @@
+import get from 'lodash.get';
+import { OutputCondition, RouteBranch } from '../types/workflow';
+
+/**
+ * Pull a JSON value out of agent output. Accepts raw JSON, JSON inside a
+ * markdown code fence, or the first {...} / [...] block in the text.
+ */
+export function extractJson(text: string): unknown {
+  const candidates: string[] = [text.trim()];
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) candidates.push(fenced[1].trim());
+
+  const block = text.match(/[{[][\s\S]*[}\]]/);
+  if (block) candidates.push(block[0]);
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the number a numeric condition compares against: the JSON field at
+ * `path` if given, otherwise the first number that appears in the text
+ */
+function extractNumber(text: string, path?: string): number | null {
+  if (path) {
+    const value = Number(get(extractJson(text), path));
+    return Number.isFinite(value) ? value : null;
+  }
+  const match = text.match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+/**
+ * Compare a JSON field value with the expected value entered in the UI.
+ * The expected value is parsed as JSON when possible so `true`, `3` and
+ * `"bug"` all match naturally; otherwise it is compared as a string.
+ */
+function jsonValueEquals(actual: unknown, expected: string): boolean {
+  if (actual === undefined) return false;
+  try {
+    return JSON.stringify(actual) === JSON.stringify(JSON.parse(expected));
+  } catch {
+    return String(actual) === expected;
+  }
+}
+
+/**
+ * Check an agent's output against a condition
+ */
+export function evaluateCondition(condition: OutputCondition, output: string): boolean {
+  switch (condition.type) {
+    case 'contains':
+      return condition.caseSensitive
+        ? output.includes(condition.value)
+        : output.toLowerCase().includes(condition.value.toLowerCase());
+
+    case 'regex':
+      try {
+        return new RegExp(condition.value, condition.caseSensitive ? '' : 'i').test(output);
+      } catch {
+        throw new Error(`Invalid regular expression: ${condition.value}`);
+      }
+
+    case 'jsonEquals': {
+      const json = extractJson(output);
+      return jsonValueEquals(condition.path ? get(json, condition.path) : json, condition.value);
+    }
+
+    case 'numeric': {
+      const actual = extractNumber(output, condition.path);
+      const expected = Number(condition.value);
+      if (actual === null || !Number.isFinite(expected)) return false;
+      switch (condition.comparator || '==') {
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+        case '!=': return actual !== expected;
+        default: return actual === expected;
+      }
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get a short human-readable description of a condition
+ */
+export function describeCondition(condition: OutputCondition): string {
+  switch (condition.type) {
+    case 'contains':
+      return `contains "${condition.value}"`;
+    case 'regex':
+      return `matches /${condition.value}/`;
+    case 'jsonEquals':
+      return `${condition.path || '(root)'} equals ${condition.value}`;
+    case 'numeric':
+      return `${condition.path || 'number'} ${condition.comparator || '=='} ${condition.value}`;
+    default:
+      return 'unknown condition';
+  }
+}
+
+/**
+ * Pick the branch a router should follow: the first branch whose condition
+ * matches, otherwise the fallback branch (one without a condition)
+ */
+export function selectBranch(branches: RouteBranch[], output: string): RouteBranch | null {
+  const match = branches.find(b => b.condition && evaluateCondition(b.condition, output));
+  return match || branches.find(b => !b.condition) || null;
+}
@@ -0,0 +1,145 @@
+// A parsed cron expression: the values each field allows
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday first
+  // Standard cron runs on either day field when both are restricted. A
+  // field that allows every day, however it's written, isn't restricted.
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+];
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+// Give up looking for a matching time after this many years, e.g. for
+// "0 0 31 2 *"
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(value: string, field: typeof FIELDS[number]): number {
+  const named = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  if (named >= 0) return named + (field.name === 'month' ? 1 : 0);
+
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number < field.min || number > field.max) {
+    throw new Error(`Invalid ${field.name} "${value}": expected ${field.min}-${field.max}`);
+  }
+  return number;
+}
+
+// Read one field: "*", "5", "1-5", "*/15", "1-30/2", or a comma list of these
+function parseField(text: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+  text.split(',').forEach(part => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in ${field.name}`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [first, last] = range.split('-');
+      start = parseValue(first, field);
+      // "5/10" means every 10th value from 5
+      end = last !== undefined ? parseValue(last, field) : stepText !== undefined ? field.max : start;
+      if (end < start) {
+        throw new Error(`Invalid range "${range}" in ${field.name}`);
+      }
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  });
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute, hour, day of month, month,
+ * day of week) or an alias such as @daily
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = (ALIASES[expression.trim().toLowerCase()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Expected five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((text, i) => parseField(text, FIELDS[i]));
+  // 7 is another way of writing Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: daysOfMonth.size === 31,
+    anyDayOfWeek: daysOfWeek.size === 7
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) return dayOfMonth && dayOfWeek;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time after `after` that the schedule runs, in local time, or
+ * null if it never does
+ */
+export function getNextCronTime(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = new Date(after).setFullYear(after.getFullYear() + MAX_SEARCH_YEARS);
+
+  // Skip ahead a month, day or hour at a time until every field matches
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
+
+/**
+ * The next `count` times the schedule runs after `after`
+ */
+export function getUpcomingCronTimes(schedule: CronSchedule, after: Date, count: number): Date[] {
+  const times: Date[] = [];
+  let next = getNextCronTime(schedule, after);
+  while (next && times.length < count) {
+    times.push(next);
+    next = getNextCronTime(schedule, next);
+  }
+  return times;
+}
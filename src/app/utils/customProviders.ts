@@ -21,6 +21,7 @@ export interface CustomProvider {
     query?: Record<string, string>;
   };
   responsePath: string;
+  streamPath?: string; // per-chunk text path for providers that stream SSE
   models?: string[];
   createdAt: string;
   lastTested?: string;
@@ -0,0 +1,127 @@
+// A table of inputs read from an uploaded file. Every value is kept as
+// text; rows missing a column have no entry for it.
+export interface Dataset {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+/**
+ * Split CSV text into rows of fields. Fields may be quoted, with `""` for a
+ * literal quote, and quoted fields may span lines.
+ */
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV has a quoted field that is never closed');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Skip blank lines
+  return records.filter(r => r.length > 1 || r[0] !== '');
+}
+
+function parseCsv(text: string): Dataset {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new Error('CSV file is empty');
+  }
+
+  const columns = header.map(name => name.trim());
+  const rows = records.map(record => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (record[index] !== undefined) row[column] = record[index];
+    });
+    return row;
+  });
+  return { columns, rows };
+}
+
+function parseJsonl(text: string): Dataset {
+  const columns: string[] = [];
+  const rows = text.split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line)
+    .map(({ line, lineNumber }) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${lineNumber} is not valid JSON`);
+      }
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`Line ${lineNumber} is not a JSON object`);
+      }
+
+      const row: Record<string, string> = {};
+      Object.entries(parsed).forEach(([column, value]) => {
+        if (!columns.includes(column)) columns.push(column);
+        if (value === null || value === undefined) return;
+        row[column] = typeof value === 'string' ? value : JSON.stringify(value);
+      });
+      return row;
+    });
+  return { columns, rows };
+}
+
+/**
+ * Read a CSV or JSONL file's text into a dataset, picking the format from
+ * the file name. CSV files need a header row; JSONL files hold one object
+ * per line.
+ */
+export function parseDataset(text: string, fileName: string): Dataset {
+  const dataset = /\.(jsonl|ndjson)$/i.test(fileName) ? parseJsonl(text) : parseCsv(text);
+  if (dataset.rows.length === 0) {
+    throw new Error('The file has no rows');
+  }
+  return dataset;
+}
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv(columns: string[], rows: Record<string, string>[]): string {
+  return [columns, ...rows.map(row => columns.map(column => row[column] ?? ''))]
+    .map(record => record.map(escapeCsvField).join(','))
+    .join('\r\n');
+}
+
+export function toJsonl(columns: string[], rows: Record<string, string>[]): string {
+  return rows
+    .map(row => JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? '']))))
+    .join('\n');
+}
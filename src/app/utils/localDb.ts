@@ -0,0 +1,51 @@
+const DB_NAME = 'agent-link';
+const DB_VERSION = 2;
+
+// Object stores, each keyed by its records' `key` path
+const STORES = {
+  runs: 'id',
+  responses: 'key'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('Local storage for runs and responses is not available in this browser'));
+  }
+
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    // Add any store that's missing, keeping the data in existing ones
+    request.onupgradeneeded = () => {
+      Object.entries(STORES).forEach(([name, keyPath]) => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Run one request against an object store of the app's IndexedDB database
+ * and resolve with its result
+ */
+export async function withStore<T>(
+  storeName: keyof typeof STORES,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
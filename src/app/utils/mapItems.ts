@@ -0,0 +1,108 @@
+import { SplitStrategy, ReduceConfig } from '../types/workflow';
+import { extractJson } from './conditions';
+
+/**
+ * Split a JSON array into items. Strings are used as-is, anything else is
+ * pretty-printed so the per-item agent still sees valid JSON.
+ */
+function splitJsonArray(text: string): string[] {
+  const parsed = extractJson(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Expected a JSON array to split into items');
+  }
+  return parsed.map(item => typeof item === 'string' ? item : JSON.stringify(item, null, 2));
+}
+
+/**
+ * One item per non-empty line, with list markers like "- " or "1. " removed
+ */
+function splitLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim().replace(/^([-*+]|\d+[.)])\s+/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * One item per markdown heading, each including its heading line and the
+ * content up to the next heading. Text before the first heading is dropped.
+ */
+function splitHeadings(text: string): string[] {
+  const items: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of text.split('\n')) {
+    if (/^#{1,6}\s+/.test(line)) {
+      if (current) items.push(current.join('\n').trim());
+      current = [line];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  if (current) items.push(current.join('\n').trim());
+
+  return items;
+}
+
+/**
+ * Split a map module's input into the items it runs its prompt on
+ */
+export function splitIntoItems(text: string, strategy: SplitStrategy): string[] {
+  switch (strategy) {
+    case 'json':
+      return splitJsonArray(text);
+    case 'headings':
+      return splitHeadings(text);
+    case 'lines':
+    default:
+      return splitLines(text);
+  }
+}
+
+/**
+ * Join mapped item outputs for a reduce module that doesn't use an agent
+ */
+export function joinItems(items: string[], config: ReduceConfig): string {
+  if (config.strategy === 'jsonArray') {
+    return JSON.stringify(items, null, 2);
+  }
+  return items.join(config.separator ?? '\n\n');
+}
+
+/**
+ * Format items as a numbered list for a reduce agent's prompt
+ */
+export function formatItemsForPrompt(items: string[]): string {
+  return items.map((item, i) => `Item ${i + 1}:\n${item}`).join('\n\n');
+}
+
+/**
+ * Run `worker` over every item with at most `concurrency` calls in flight,
+ * returning results in item order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let stopped = false;
+
+  const runWorker = async () => {
+    // Stop handing out new items once any item has failed
+    while (!stopped && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+}
@@ -0,0 +1,68 @@
+import { MODEL_IDS, Provider, isBuiltInProvider } from '../types/workflow';
+
+// What a model charges, in US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Prices by built-in model ID, or by custom provider ID for every model of
+// that provider
+export type PriceTable = Record<string, ModelPrice>;
+
+const PRICES_KEY = 'model_prices';
+
+// List prices at the time of writing; change them in the settings when
+// they go out of date
+export const DEFAULT_PRICES: PriceTable = {
+  [MODEL_IDS.CLAUDE_SONNET]: { input: 3, output: 15 },
+  [MODEL_IDS.CLAUDE_HAIKU]: { input: 0.25, output: 1.25 },
+  [MODEL_IDS.CLAUDE_OPUS]: { input: 15, output: 75 },
+  [MODEL_IDS.GPT4]: { input: 10, output: 30 },
+  [MODEL_IDS.GPT4_MINI]: { input: 10, output: 30 },
+  [MODEL_IDS.GEMINI_PRO]: { input: 1.25, output: 5 },
+  [MODEL_IDS.GEMINI_FLASH]: { input: 0.075, output: 0.3 }
+};
+
+export function getPriceKey(provider: Provider, model: string): string {
+  return isBuiltInProvider(provider) ? model : provider.id;
+}
+
+/**
+ * The prices changed in the settings, which take the place of the defaults
+ */
+export function getPriceOverrides(): PriceTable {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(PRICES_KEY) || '{}');
+  } catch (error) {
+    console.error('Failed to load model prices:', error);
+    return {};
+  }
+}
+
+export function savePriceOverrides(prices: PriceTable): void {
+  window.localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+}
+
+export function getPriceTable(overrides = getPriceOverrides()): PriceTable {
+  return { ...DEFAULT_PRICES, ...overrides };
+}
+
+/**
+ * What a call cost in dollars, or undefined if the model has no price
+ */
+export function getCost(
+  price: ModelPrice | undefined,
+  usage: { input_tokens?: number; output_tokens?: number } | undefined
+): number | undefined {
+  if (!price || !usage) return undefined;
+  return ((usage.input_tokens || 0) * price.input + (usage.output_tokens || 0) * price.output) / 1_000_000;
+}
+
+/**
+ * Format dollars with enough places to show the cost of a single call
+ */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+}
@@ -0,0 +1,183 @@
+import { WorkflowParamValues } from '../types/workflow';
+
+// Matches a {{ reference }} in a module prompt
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+// agents.Researcher.output, agents["Agent 1"].output or agents[2].output
+const AGENT_REFERENCE_PATTERN = /^agents(?:\.(.+)|\[\s*(?:"([^"]+)"|'([^']+)'|(\d+))\s*\])\.output$/;
+
+export type TemplateReference =
+  | { type: 'input' }
+  | { type: 'workflowInput' }
+  | { type: 'param'; name: string }
+  | { type: 'agent'; title?: string; number?: number };
+
+export interface TemplateAgent {
+  id: string;
+  title: string;
+  output?: string;
+}
+
+export interface TemplateContext {
+  input?: string;
+  workflowInput?: string;
+  params?: WorkflowParamValues;
+  // Every module in the workflow, in display order, with the output of
+  // those that have run
+  agents: TemplateAgent[];
+}
+
+export interface TemplateSegment {
+  text: string;
+  reference?: {
+    expression: string;
+    agentId?: string;
+    error?: string;
+  };
+}
+
+/**
+ * Parse the expression inside {{ }}. Agent numbers are 1-based to match the
+ * numbers shown on each module.
+ */
+export function parseReference(expression: string): TemplateReference | null {
+  if (expression === 'input') return { type: 'input' };
+  if (expression === 'workflow.input') return { type: 'workflowInput' };
+  if (expression.startsWith('params.')) return { type: 'param', name: expression.slice('params.'.length) };
+
+  const match = expression.match(AGENT_REFERENCE_PATTERN);
+  if (!match) return null;
+  const [, dotted, doubleQuoted, singleQuoted, number] = match;
+  return number !== undefined
+    ? { type: 'agent', number: Number(number) }
+    : { type: 'agent', title: dotted ?? doubleQuoted ?? singleQuoted };
+}
+
+function findAgent(reference: Extract<TemplateReference, { type: 'agent' }>, agents: TemplateAgent[]) {
+  return reference.number !== undefined
+    ? agents[reference.number - 1]
+    : agents.find(a => a.title === reference.title);
+}
+
+/**
+ * Split a prompt into plain text and references, flagging references that
+ * can't be resolved: unknown syntax, missing agents or workflow inputs, or
+ * agents in `unavailableIds` (e.g. the module itself or modules that run
+ * after it). Parameter names are only checked when `paramNames` is given.
+ */
+export function analyzeTemplate(
+  prompt: string,
+  agents: TemplateAgent[],
+  unavailableIds: Set<string> = new Set(),
+  paramNames?: string[]
+): TemplateSegment[] {
+  const segments: TemplateSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(prompt.matchAll(TEMPLATE_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ text: prompt.slice(lastIndex, index) });
+    lastIndex = index + match[0].length;
+
+    const expression = match[1];
+    const reference = parseReference(expression);
+    let agentId: string | undefined;
+    let error: string | undefined;
+
+    if (!reference) {
+      error = 'Unknown reference';
+    } else if (reference.type === 'agent') {
+      const agent = findAgent(reference, agents);
+      agentId = agent?.id;
+      if (!agent) error = 'No agent with that name or number';
+      else if (unavailableIds.has(agent.id)) error = 'This agent runs after the current one';
+    } else if (reference.type === 'param' && paramNames && !paramNames.includes(reference.name)) {
+      error = 'No workflow input with that name';
+    }
+
+    segments.push({ text: match[0], reference: { expression, agentId, error } });
+  }
+
+  if (lastIndex < prompt.length) segments.push({ text: prompt.slice(lastIndex) });
+  return segments;
+}
+
+/**
+ * Get the IDs of the agents a prompt refers to
+ */
+export function getReferencedAgentIds(prompt: string, agents: TemplateAgent[]): string[] {
+  const ids = analyzeTemplate(prompt, agents)
+    .map(s => s.reference?.agentId)
+    .filter((id): id is string => !!id);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Keep a prompt's agent references pointing at the same agents after the
+ * agents were renamed, added or removed: each reference is resolved
+ * against `before` and written again, in the same form, for `after`.
+ * A numbered reference to an agent that is gone is written with its title
+ * instead, so it shows as missing rather than pointing at whichever agent
+ * now has its number.
+ */
+export function rewriteAgentReferences(prompt: string, before: TemplateAgent[], after: TemplateAgent[]): string {
+  return prompt.replace(TEMPLATE_PATTERN, (placeholder, expression: string) => {
+    const reference = parseReference(expression);
+    if (reference?.type !== 'agent') return placeholder;
+    const agent = findAgent(reference, before);
+    if (!agent) return placeholder;
+    const index = after.findIndex(a => a.id === agent.id);
+    if (index === -1) {
+      return reference.number !== undefined ? `{{agents["${agent.title}"].output}}` : placeholder;
+    }
+    if (findAgent(reference, after)?.id === agent.id) return placeholder;
+
+    if (reference.number !== undefined) return `{{agents[${index + 1}].output}}`;
+    const title = after[index].title;
+    if (/^agents\["/.test(expression) && !title.includes('"')) return `{{agents["${title}"].output}}`;
+    if (/^agents\['/.test(expression) && !title.includes("'")) return `{{agents['${title}'].output}}`;
+    return `{{agents.${title}.output}}`;
+  });
+}
+
+/**
+ * Resolve the references in a module prompt. If the prompt doesn't place
+ * {{input}} itself, or refer to the agent it came from, the input is
+ * appended at the end as before.
+ * Throws if a reference can't be resolved; an agent that was skipped or an
+ * optional input left blank resolves to an empty string.
+ */
+export function renderPrompt(prompt: string, context: TemplateContext): string {
+  let usesInput = false;
+
+  const rendered = prompt.replace(TEMPLATE_PATTERN, (placeholder, expression: string) => {
+    const reference = parseReference(expression);
+    if (!reference) {
+      throw new Error(`Unknown reference ${placeholder} in prompt`);
+    }
+
+    switch (reference.type) {
+      case 'input':
+        usesInput = true;
+        return context.input || '';
+      case 'workflowInput':
+        // A module at the start of the workflow gets the workflow input as
+        // its input, so don't append it a second time
+        if (context.input === context.workflowInput) usesInput = true;
+        return context.workflowInput || '';
+      case 'param':
+        return String(context.params?.[reference.name] ?? '');
+      case 'agent': {
+        const agent = findAgent(reference, context.agents);
+        if (!agent) {
+          throw new Error(`Reference ${placeholder} doesn't match any agent`);
+        }
+        // The module this one takes its input from is already in the prompt
+        if (context.input && agent.output === context.input) usesInput = true;
+        return agent.output || '';
+      }
+    }
+  });
+
+  return !usesInput && context.input ? `${rendered}\n\nInput: ${context.input}` : rendered;
+}
@@ -15,6 +15,7 @@ export type ProviderTemplate = {
       query?: Record<string, string>;
     };
     responsePath: string;
+    streamPath?: string;
     models?: string[];
   };
   documentation: {
@@ -49,7 +50,8 @@ export const PROVIDER_TEMPLATES: ProviderTemplate[] = [
           ]
         }
       },
-      responsePath: 'choices[0].message.content'
+      responsePath: 'choices[0].message.content',
+      streamPath: 'choices[0].delta.content'
     },
     documentation: {
       endpoint: 'The base URL for your API endpoint',
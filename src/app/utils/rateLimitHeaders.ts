@@ -0,0 +1,100 @@
+// Response headers the provider routes pass back to the client so it can
+// decide how long to wait before retrying
+const FORWARDED_HEADER_PATTERN = /^(retry-after(-ms)?|x-ratelimit-.+|anthropic-ratelimit-.+)$/i;
+
+/**
+ * Copy the Retry-After and rate-limit headers from a provider response
+ * (or SDK error) so a route can forward them to the client
+ */
+export function pickRateLimitHeaders(headers?: Headers | null): Record<string, string> {
+  const picked: Record<string, string> = {};
+  headers?.forEach((value, key) => {
+    if (FORWARDED_HEADER_PATTERN.test(key)) picked[key.toLowerCase()] = value;
+  });
+  return picked;
+}
+
+/**
+ * Parse a duration such as "1s", "6m0s", "20ms" or "1.5s" into milliseconds
+ */
+export function parseDuration(value: string): number | undefined {
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  const parts = Array.from(value.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g));
+  if (parts.length === 0) return undefined;
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * units[unit], 0);
+}
+
+// One of a provider's rate limits, e.g. on requests or tokens, as reported
+// in its response headers
+export interface RateLimitWindow {
+  name: string; // e.g. "requests", "tokens", "input-tokens"
+  remaining: number;
+  limit?: number;
+  resetMs?: number; // time until the limit resets
+}
+
+/**
+ * Read the rate limits a provider reported in its response headers, in the
+ * OpenAI style (x-ratelimit-remaining-requests, x-ratelimit-reset-requests
+ * = "6m0s") or the Anthropic style (anthropic-ratelimit-requests-remaining,
+ * anthropic-ratelimit-requests-reset = RFC 3339 time)
+ */
+export function readRateLimits(headers: Headers, now = Date.now()): RateLimitWindow[] {
+  const windows: RateLimitWindow[] = [];
+  const toNumber = (value: string | null) =>
+    value !== null && Number.isFinite(Number(value)) ? Number(value) : undefined;
+
+  headers.forEach((value, key) => {
+    const remaining = toNumber(value);
+    if (remaining === undefined) return;
+
+    const openAi = key.match(/^x-ratelimit-remaining-(.+)$/i);
+    if (openAi) {
+      const name = openAi[1].toLowerCase();
+      const reset = headers.get(`x-ratelimit-reset-${name}`);
+      windows.push({
+        name,
+        remaining,
+        limit: toNumber(headers.get(`x-ratelimit-limit-${name}`)),
+        resetMs: reset ? parseDuration(reset) : undefined
+      });
+    }
+
+    const anthropic = key.match(/^anthropic-ratelimit-(.+)-remaining$/i);
+    if (anthropic) {
+      const name = anthropic[1].toLowerCase();
+      const reset = Date.parse(headers.get(`anthropic-ratelimit-${name}-reset`) || '');
+      windows.push({
+        name,
+        remaining,
+        limit: toNumber(headers.get(`anthropic-ratelimit-${name}-limit`)),
+        resetMs: Number.isNaN(reset) ? undefined : Math.max(0, reset - now)
+      });
+    }
+  });
+  return windows;
+}
+
+/**
+ * Work out how long the provider asked us to wait, in milliseconds.
+ * Checks Retry-After (seconds or an HTTP date), then the reset time of any
+ * rate limit whose remaining count has hit zero.
+ */
+export function parseRetryAfter(headers: Headers, now = Date.now()): number | undefined {
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs && Number.isFinite(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    if (Number.isFinite(Number(retryAfter))) return Number(retryAfter) * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const waits = readRateLimits(headers, now)
+    .filter(window => window.remaining === 0 && window.resetMs !== undefined)
+    .map(window => window.resetMs!);
+  return waits.length > 0 ? Math.max(...waits) : undefined;
+}
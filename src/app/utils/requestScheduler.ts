@@ -0,0 +1,194 @@
+import { Provider, isBuiltInProvider } from '../types/workflow';
+import { parseRetryAfter, readRateLimits } from './rateLimitHeaders';
+
+// Limits on the requests sent to one provider. A limit left unset doesn't
+// apply.
+export interface ProviderLimits {
+  maxConcurrent?: number;
+  requestsPerMinute?: number;
+}
+
+// Limits by provider key: a built-in provider's name or a custom
+// provider's ID
+export type ProviderLimitSettings = Record<string, ProviderLimits>;
+
+// Where a request waiting for its turn stands
+export interface QueuePosition {
+  ahead: number; // requests to the same provider queued before this one
+  waitMs?: number; // until the provider's limits let the next request go
+}
+
+interface QueuedRequest {
+  start: () => void;
+  onWait?: (position: QueuePosition | null) => void;
+  reported?: string; // the last position reported, to skip repeats
+}
+
+interface ProviderQueue {
+  limits: ProviderLimits;
+  active: number;
+  sentAt: number[]; // when the requests of the last minute were sent
+  // A rate limit ran out, so nothing is sent before this time
+  pausedUntil: number;
+  // A rate limit is nearly used up, so requests go one at a time until it
+  // resets
+  slowUntil: number;
+  waiting: QueuedRequest[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const LIMITS_KEY = 'provider_limits';
+const MINUTE_MS = 60_000;
+
+// Below this share of a rate limit left, the queue slows down
+const LOW_REMAINING_FRACTION = 0.1;
+
+// Kept on globalThis so parallel branches, batch rows and server runs all
+// share one queue per provider
+const globalForQueues = globalThis as typeof globalThis & { providerQueues?: Map<string, ProviderQueue> };
+const queues = globalForQueues.providerQueues ??= new Map<string, ProviderQueue>();
+
+export function getProviderKey(provider: Provider): string {
+  return isBuiltInProvider(provider) ? provider : provider.id;
+}
+
+export function getProviderLimitSettings(): ProviderLimitSettings {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(LIMITS_KEY) || '{}');
+  } catch (error) {
+    console.error('Failed to load provider limits:', error);
+    return {};
+  }
+}
+
+export function saveProviderLimitSettings(settings: ProviderLimitSettings): void {
+  window.localStorage.setItem(LIMITS_KEY, JSON.stringify(settings));
+}
+
+function getQueue(key: string): ProviderQueue {
+  let queue = queues.get(key);
+  if (!queue) {
+    queue = { limits: {}, active: 0, sentAt: [], pausedUntil: 0, slowUntil: 0, waiting: [] };
+    queues.set(key, queue);
+  }
+  return queue;
+}
+
+/**
+ * How long until the queue may send another request: 0 if it can now, or
+ * Infinity if it has to wait for a running request to finish
+ */
+function getWait(queue: ProviderQueue, now: number): number {
+  const { maxConcurrent, requestsPerMinute } = queue.limits;
+  const concurrency = now < queue.slowUntil ? 1 : maxConcurrent || Infinity;
+  if (queue.active >= concurrency) return Infinity;
+
+  let wait = Math.max(0, queue.pausedUntil - now);
+  if (requestsPerMinute && queue.sentAt.length >= requestsPerMinute) {
+    const oldest = queue.sentAt[queue.sentAt.length - requestsPerMinute];
+    wait = Math.max(wait, oldest + MINUTE_MS - now);
+  }
+  return wait;
+}
+
+// Start as many waiting requests as the limits allow, then tell the rest
+// where they stand
+function drain(queue: ProviderQueue) {
+  clearTimeout(queue.timer);
+  queue.timer = undefined;
+
+  let wait = 0;
+  while (queue.waiting.length > 0) {
+    const now = Date.now();
+    queue.sentAt = queue.sentAt.filter(sentAt => sentAt > now - MINUTE_MS);
+    wait = getWait(queue, now);
+    if (wait > 0) break;
+
+    const next = queue.waiting.shift()!;
+    queue.active++;
+    queue.sentAt.push(now);
+    next.start();
+  }
+  if (queue.waiting.length === 0) return;
+
+  const waitMs = Number.isFinite(wait) ? wait : undefined;
+  if (waitMs !== undefined) {
+    queue.timer = setTimeout(() => drain(queue), waitMs);
+  }
+  queue.waiting.forEach((request, ahead) => {
+    const position = { ahead, ...(waitMs !== undefined && { waitMs }) };
+    const reported = JSON.stringify(position);
+    if (reported === request.reported) return;
+    request.reported = reported;
+    request.onWait?.(position);
+  });
+}
+
+/**
+ * Run `send` once the provider's limits allow, queueing behind other
+ * requests to it until then. The request counts as running until `send`
+ * settles, so a streamed answer keeps its place until it finishes.
+ * `onWait` hears where the request stands while it waits, then null once
+ * it starts.
+ */
+export function scheduleRequest<T>(
+  key: string,
+  limits: ProviderLimits,
+  send: () => Promise<T>,
+  { signal, onWait }: { signal?: AbortSignal; onWait?: (position: QueuePosition | null) => void } = {}
+): Promise<T> {
+  const queue = getQueue(key);
+  queue.limits = limits;
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Workflow cancelled'));
+      return;
+    }
+
+    const request: QueuedRequest = {
+      onWait,
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        if (request.reported) onWait?.(null);
+        send()
+          .then(resolve, reject)
+          .finally(() => {
+            queue.active--;
+            drain(queue);
+          });
+      }
+    };
+    const onAbort = () => {
+      queue.waiting = queue.waiting.filter(r => r !== request);
+      reject(new Error('Workflow cancelled'));
+      drain(queue);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    queue.waiting.push(request);
+    drain(queue);
+  });
+}
+
+/**
+ * Slow a provider's queue down to suit the rate limits in one of its
+ * responses: hold every request until the reset when a limit has run out
+ * or the provider asked us to wait, and send one at a time while a limit
+ * is nearly used up
+ */
+export function throttleFromHeaders(key: string, headers: Headers, now = Date.now()): void {
+  const queue = getQueue(key);
+
+  const retryAfter = parseRetryAfter(headers, now);
+  if (retryAfter !== undefined) {
+    queue.pausedUntil = Math.max(queue.pausedUntil, now + retryAfter);
+  }
+
+  readRateLimits(headers, now).forEach(({ remaining, limit, resetMs }) => {
+    if (limit && resetMs !== undefined && remaining < limit * LOW_REMAINING_FRACTION) {
+      queue.slowUntil = Math.max(queue.slowUntil, now + resetMs);
+    }
+  });
+}
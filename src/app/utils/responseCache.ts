@@ -0,0 +1,97 @@
+import { Provider, getProviderId } from '../types/workflow';
+import { withStore } from './localDb';
+
+const ENABLED_KEY = 'response_cache_enabled';
+
+// What a cached response is keyed on. `params` holds any request setting
+// besides the prompt that changes the answer.
+export interface CacheRequest {
+  provider: Provider;
+  model: string;
+  prompt: string;
+  params?: Record<string, unknown>;
+}
+
+export interface CachedResponse {
+  key: string;
+  providerId: string;
+  model: string;
+  prompt: string;
+  params: Record<string, unknown>;
+  output: string;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+  createdAt: string;
+  hits: number;
+  lastHitAt?: string;
+}
+
+export function isCacheEnabled(): boolean {
+  if (typeof window === 'undefined') return false;
+  return window.localStorage.getItem(ENABLED_KEY) === 'true';
+}
+
+export function setCacheEnabled(enabled: boolean): void {
+  window.localStorage.setItem(ENABLED_KEY, String(enabled));
+}
+
+/**
+ * Hash the provider, model, rendered prompt and parameters into the
+ * entry's key, so only an exact match is a hit
+ */
+export async function getCacheKey({ provider, model, prompt, params = {} }: CacheRequest): Promise<string> {
+  const sortedParams = Object.keys(params).sort().map(name => [name, params[name]]);
+  const data = new TextEncoder().encode(JSON.stringify([getProviderId(provider), model, prompt, sortedParams]));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Look up a cached response, counting the hit
+ */
+export async function getCachedResponse(request: CacheRequest): Promise<CachedResponse | undefined> {
+  const key = await getCacheKey(request);
+  const entry = await withStore<CachedResponse | undefined>('responses', 'readonly', store => store.get(key));
+  if (!entry) return undefined;
+
+  const updated = { ...entry, hits: entry.hits + 1, lastHitAt: new Date().toISOString() };
+  await withStore('responses', 'readwrite', store => store.put(updated));
+  return updated;
+}
+
+export async function saveCachedResponse(
+  request: CacheRequest,
+  output: string,
+  usage?: CachedResponse['usage']
+): Promise<void> {
+  const entry: CachedResponse = {
+    key: await getCacheKey(request),
+    providerId: getProviderId(request.provider)!,
+    model: request.model,
+    prompt: request.prompt,
+    params: request.params || {},
+    output,
+    usage,
+    createdAt: new Date().toISOString(),
+    hits: 0
+  };
+  await withStore('responses', 'readwrite', store => store.put(entry));
+}
+
+/**
+ * Get every cached response, newest first
+ */
+export async function listCachedResponses(): Promise<CachedResponse[]> {
+  const entries = await withStore<CachedResponse[]>('responses', 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteCachedResponse(key: string): Promise<void> {
+  await withStore('responses', 'readwrite', store => store.delete(key));
+}
+
+export async function clearResponseCache(): Promise<void> {
+  await withStore('responses', 'readwrite', store => store.clear());
+}
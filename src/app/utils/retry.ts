@@ -0,0 +1,143 @@
+import { RetryErrorClass, RetryPolicy } from '../types/workflow';
+
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+// Policy used by modules that don't configure their own
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: MAX_RETRIES,
+  backoff: 'exponential',
+  baseDelayMs: RETRY_DELAY_MS,
+  maxDelayMs: MAX_RETRY_DELAY_MS,
+  jitter: true,
+  retryOn: ['rateLimit', 'server', 'network']
+};
+
+export const RETRY_ERROR_LABELS: Record<RetryErrorClass, string> = {
+  rateLimit: 'Rate limited',
+  server: 'Server error',
+  network: 'Network error'
+};
+
+/**
+ * A failed request to one of the provider routes, carrying the HTTP status
+ * and how long the provider asked us to wait before trying again
+ */
+export class AgentRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'AgentRequestError';
+  }
+}
+
+/**
+ * Sort an error into one of the classes a retry policy can choose to retry.
+ * Returns null for errors that retrying won't fix, such as a bad API key.
+ */
+export function classifyError(error: unknown): RetryErrorClass | null {
+  if (error instanceof AgentRequestError) {
+    if (error.status === 429) return 'rateLimit';
+    // 499 is a request we cancelled ourselves
+    if (error.status >= 500 || error.status === 408) return 'server';
+    return null;
+  }
+  // fetch rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError) return 'network';
+  return null;
+}
+
+/**
+ * Describe a retryable failure for the module status, e.g.
+ * "Rate limited (429): Rate limit exceeded"
+ */
+export function describeFailure(error: unknown, errorClass: RetryErrorClass): string {
+  const status = error instanceof AgentRequestError ? ` (${error.status})` : '';
+  return `${RETRY_ERROR_LABELS[errorClass]}${status}: ${(error as Error).message}`;
+}
+
+/**
+ * Get the delay before the next attempt. `attempt` is the number of the
+ * attempt that just failed, starting at 1. A Retry-After from the provider
+ * is treated as a minimum.
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, retryAfterMs?: number): number {
+  const multiplier = policy.backoff === 'fixed' ? 1
+    : policy.backoff === 'linear' ? attempt
+    : 2 ** (attempt - 1);
+  let delay = Math.min(policy.baseDelayMs * multiplier, policy.maxDelayMs);
+
+  // Equal jitter: keep half the delay and randomise the rest so parallel
+  // agents that failed together don't all retry at the same moment
+  if (policy.jitter) {
+    delay = delay / 2 + Math.random() * (delay / 2);
+  }
+
+  return Math.round(Math.max(delay, retryAfterMs || 0));
+}
+
+/**
+ * Wait for `ms`, rejecting early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Workflow cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Workflow cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface RetryAttempt {
+  attempt: number; // the attempt about to start
+  maxAttempts: number;
+  reason: string;
+  delayMs: number;
+  model?: string; // the model the next attempt goes to
+}
+
+/**
+ * Run `fn`, retrying failures the policy covers with backoff between
+ * attempts. `onRetry` is called before each wait so callers can show why.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  { signal, onRetry }: { signal?: AbortSignal; onRetry?: (retry: RetryAttempt) => void } = {}
+): Promise<T> {
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const errorClass = signal?.aborted ? null : classifyError(error);
+      if (!errorClass || !policy.retryOn.includes(errorClass) || attempt >= maxAttempts) {
+        throw error;
+      }
+
+      const retryAfterMs = error instanceof AgentRequestError ? error.retryAfterMs : undefined;
+      const delayMs = getRetryDelay(policy, attempt, retryAfterMs);
+      onRetry?.({
+        attempt: attempt + 1,
+        maxAttempts,
+        reason: describeFailure(error, errorClass),
+        delayMs
+      });
+      await sleep(delayMs, signal);
+    }
+  }
+}
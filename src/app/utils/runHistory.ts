@@ -0,0 +1,234 @@
+import { WorkflowModuleData, WorkflowParam, Provider, isCustomProvider } from '../types/workflow';
+import { AgentResult, WorkflowOutcome, WorkflowRunInput } from './workflowEngine';
+import { withStore } from './localDb';
+import { apiRequest, getAdminToken } from './apiRequest';
+import { getBilledTokens } from './usage';
+
+const RETENTION_KEY = 'run_history_retention';
+const SERVER_RUNS_IMPORTED_KEY = 'server_runs_imported_at';
+
+export type RunStatus = 'completed' | 'failed' | 'cancelled';
+
+// What started a run on the server, by its ID and name at the time. Runs
+// without a source were started in the editor.
+export interface RunSource {
+  type: 'trigger' | 'schedule';
+  id: string;
+  name: string;
+}
+
+export interface RunRecord {
+  id: string;
+  // Runs of the same workflow definition share an ID, so they can be
+  // filtered together
+  workflowId: string;
+  workflowLabel: string;
+  status: RunStatus;
+  startedAt: number;
+  completedAt: number;
+  modules: WorkflowModuleData[];
+  // The workflow's input definitions; runs saved before these were kept
+  // don't have them
+  params?: WorkflowParam[];
+  input: WorkflowRunInput;
+  results: AgentResult[];
+  error?: string;
+  failedAgentIndex?: number;
+  models: string[];
+  totalTokens: number;
+  source?: RunSource;
+}
+
+export interface RetentionSettings {
+  maxRuns: number;
+  maxAgeDays: number;
+}
+
+export const DEFAULT_RETENTION: RetentionSettings = {
+  maxRuns: 100,
+  maxAgeDays: 30
+};
+
+export interface RunFilters {
+  search?: string;
+  workflowId?: string;
+  model?: string;
+  status?: RunStatus;
+}
+
+// Short, stable hash of a string (FNV-1a)
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Custom providers can carry their API key; only keep what identifies them
+const stripProvider = <T extends Provider | null>(provider: T): T =>
+  provider && isCustomProvider(provider)
+    ? { id: provider.id, name: provider.name, type: provider.type, models: provider.models } as T
+    : provider;
+
+/**
+ * Copy a workflow definition for the history, without provider credentials
+ */
+export function snapshotModules(modules: WorkflowModuleData[]): WorkflowModuleData[] {
+  return modules.map(m => ({
+    ...m,
+    provider: stripProvider(m.provider),
+    ...(m.fallbacks && {
+      fallbacks: m.fallbacks.map(f => ({ ...f, provider: stripProvider(f.provider) }))
+    })
+  }));
+}
+
+/**
+ * Identify a workflow by what it does: its modules' titles, prompts, models
+ * and kinds. Editing any of these starts a new workflow in the history.
+ */
+export function getWorkflowId(modules: WorkflowModuleData[]): string {
+  return hashString(JSON.stringify(modules.map(m => [m.title, m.kind, m.selectedModel, m.prompt])));
+}
+
+/**
+ * Name a workflow after the start of its first prompt
+ */
+export function getWorkflowLabel(modules: WorkflowModuleData[]): string {
+  const prompt = modules.find(m => m.prompt.trim())?.prompt.trim().split('\n')[0] || 'Untitled workflow';
+  const label = prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt;
+  return `${label} (${modules.length} ${modules.length === 1 ? 'module' : 'modules'})`;
+}
+
+/**
+ * Describe a finished run for the history
+ */
+export function createRunRecord({ id, modules, params = [], input, startedAt, outcome, source }: {
+  id: string;
+  modules: WorkflowModuleData[];
+  params?: WorkflowParam[];
+  input: WorkflowRunInput;
+  startedAt: number;
+  outcome: WorkflowOutcome;
+  source?: RunSource;
+}): RunRecord {
+  const { status, results, error } = outcome;
+  return {
+    id,
+    workflowId: getWorkflowId(modules),
+    workflowLabel: getWorkflowLabel(modules),
+    status,
+    startedAt,
+    completedAt: Date.now(),
+    modules: snapshotModules(modules),
+    params,
+    input,
+    results,
+    ...(error && { error: error.message, failedAgentIndex: error.failedAgentIndex }),
+    models: Array.from(new Set(results.flatMap(r => [r.model, ...(r.items || []).map(i => i.model)])
+      .filter((model): model is string => !!model))),
+    totalTokens: getBilledTokens(results),
+    ...(source && { source })
+  };
+}
+
+export async function saveRun(run: RunRecord): Promise<void> {
+  await withStore('runs', 'readwrite', store => store.put(run));
+}
+
+export async function getRun(id: string): Promise<RunRecord | undefined> {
+  return withStore<RunRecord | undefined>('runs', 'readonly', store => store.get(id));
+}
+
+/**
+ * Keep the runs matching every filter. The search matches the workflow,
+ * inputs, outputs and error text.
+ */
+export function filterRuns(runs: RunRecord[], filters: RunFilters): RunRecord[] {
+  const search = filters.search?.trim().toLowerCase();
+
+  return runs
+    .filter(run => !filters.workflowId || run.workflowId === filters.workflowId)
+    .filter(run => !filters.model || run.models.includes(filters.model))
+    .filter(run => !filters.status || run.status === filters.status)
+    .filter(run => !search || [
+      run.workflowLabel,
+      run.source?.name || '',
+      run.input.text,
+      run.error || '',
+      ...run.modules.map(m => `${m.title}\n${m.prompt}`),
+      ...run.results.map(r => r.output)
+    ].some(text => text.toLowerCase().includes(search)));
+}
+
+/**
+ * Get saved runs matching the filters, newest first
+ */
+export async function listRuns(filters: RunFilters = {}): Promise<RunRecord[]> {
+  const runs = await withStore<RunRecord[]>('runs', 'readonly', store => store.getAll());
+  return filterRuns(runs, filters).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Copy runs started on the server by triggers and schedules into the
+ * history, fetching only those finished since the last import. Returns how
+ * many were added. Needs the server's admin token; without one set there's
+ * nothing to import.
+ */
+export async function importServerRuns(): Promise<number> {
+  if (!getAdminToken()) return 0;
+
+  const since = Number(window.localStorage.getItem(SERVER_RUNS_IMPORTED_KEY)) || 0;
+  let runs: RunRecord[];
+  try {
+    ({ runs } = await apiRequest<{ runs: RunRecord[] }>(`/api/workflows/history?since=${since}`));
+  } catch (error) {
+    throw new Error(`Could not load runs started on the server: ${(error as Error).message}`);
+  }
+
+  await Promise.all(runs.map(saveRun));
+  if (runs.length > 0) {
+    window.localStorage.setItem(SERVER_RUNS_IMPORTED_KEY, String(Math.max(...runs.map(run => run.completedAt))));
+  }
+  return runs.length;
+}
+
+export async function deleteRun(id: string): Promise<void> {
+  await withStore('runs', 'readwrite', store => store.delete(id));
+}
+
+export async function clearRuns(): Promise<void> {
+  await withStore('runs', 'readwrite', store => store.clear());
+}
+
+export function getRetention(): RetentionSettings {
+  if (typeof window === 'undefined') return DEFAULT_RETENTION;
+  try {
+    const saved = window.localStorage.getItem(RETENTION_KEY);
+    return saved ? { ...DEFAULT_RETENTION, ...JSON.parse(saved) } : DEFAULT_RETENTION;
+  } catch (error) {
+    return DEFAULT_RETENTION;
+  }
+}
+
+export function saveRetention(retention: RetentionSettings): void {
+  window.localStorage.setItem(RETENTION_KEY, JSON.stringify(retention));
+}
+
+/**
+ * Delete runs older than the retention period and anything beyond the
+ * maximum number of runs, oldest first. A limit of 0 means no limit.
+ */
+export async function pruneRuns(retention: RetentionSettings = getRetention()): Promise<number> {
+  const runs = await listRuns();
+  const cutoff = Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+  const expired = runs.filter((run, index) =>
+    (retention.maxRuns > 0 && index >= retention.maxRuns) ||
+    (retention.maxAgeDays > 0 && run.startedAt < cutoff)
+  );
+
+  await Promise.all(expired.map(run => deleteRun(run.id)));
+  return expired.length;
+}
@@ -0,0 +1,77 @@
+import { BuiltInProvider, WorkflowModuleData, WorkflowParam, WorkflowParamValues } from '../types/workflow';
+import { CustomProvider } from './customProviders';
+import { apiRequest, jsonBody } from './apiRequest';
+import { RunStatus } from './runHistory';
+
+// What to do about times a schedule should have run while the server was
+// down: run once to catch up, or skip to the next time
+export type MissedRunPolicy = 'catch-up' | 'skip';
+
+// A workflow saved on the server that runs with fixed inputs whenever its
+// cron expression matches, in the server's time zone
+export interface WorkflowSchedule {
+  id: string;
+  name: string;
+  modules: WorkflowModuleData[];
+  params: WorkflowParam[];
+  inputs: WorkflowParamValues;
+  input: string; // used instead of inputs by workflows without parameters
+  cron: string;
+  missedRunPolicy: MissedRunPolicy;
+  paused: boolean;
+  // Whether runs use keys saved from the browser rather than the server's
+  // environment
+  hasApiKeys: boolean;
+  createdAt: number;
+  // The next few times the schedule will run; empty while paused
+  upcoming: number[];
+}
+
+export interface ScheduleSettings {
+  name: string;
+  modules: WorkflowModuleData[];
+  params: WorkflowParam[];
+  inputs?: WorkflowParamValues;
+  input?: string;
+  cron: string;
+  missedRunPolicy?: MissedRunPolicy;
+  paused?: boolean;
+  apiKeys?: Partial<Record<BuiltInProvider, string>>;
+  customProviders?: CustomProvider[];
+}
+
+export type ScheduledRunStatus = 'running' | 'skipped' | RunStatus;
+
+// One time a schedule came due, and what happened
+export interface ScheduledRun {
+  id: string;
+  scheduleId: string;
+  scheduleName: string;
+  scheduledFor: number;
+  status: ScheduledRunStatus;
+  runId?: string;
+  startedAt?: number;
+  completedAt?: number;
+  // Why a run was skipped or started late
+  note?: string;
+  error?: string;
+}
+
+/**
+ * Every schedule, with the most recent times they came due, newest first
+ */
+export function listSchedules(): Promise<{ schedules: WorkflowSchedule[]; runs: ScheduledRun[] }> {
+  return apiRequest('/api/schedules');
+}
+
+export function createSchedule(settings: ScheduleSettings): Promise<WorkflowSchedule> {
+  return apiRequest('/api/schedules', jsonBody('POST', settings));
+}
+
+export function updateSchedule(id: string, settings: Partial<ScheduleSettings>): Promise<WorkflowSchedule> {
+  return apiRequest(`/api/schedules/${id}`, jsonBody('PATCH', settings));
+}
+
+export async function deleteSchedule(id: string): Promise<void> {
+  await apiRequest(`/api/schedules/${id}`, { method: 'DELETE' });
+}
@@ -0,0 +1,22 @@
+import { BuiltInProvider, WorkflowModuleData, getProviderId } from '../types/workflow';
+import { CustomProvider, getCustomProviders } from './customProviders';
+
+const BUILT_IN_PROVIDERS: BuiltInProvider[] = ['anthropic', 'openai', 'google'];
+
+/**
+ * The custom providers the workflow's modules and fallbacks use, which the
+ * server needs to run it
+ */
+export function getUsedCustomProviders(modules: WorkflowModuleData[]): CustomProvider[] {
+  const ids = new Set(modules.flatMap(m => [m.provider, ...(m.fallbacks || []).map(f => f.provider)])
+    .map(getProviderId)
+    .filter((id): id is string => !!id));
+  return getCustomProviders().filter(p => ids.has(p.id));
+}
+
+// The keys entered in settings, for workflows saved to run on the server
+export function getBrowserApiKeys(): Partial<Record<BuiltInProvider, string>> {
+  return Object.fromEntries(BUILT_IN_PROVIDERS
+    .map(provider => [provider, window.sessionStorage.getItem(`${provider}_api_key`)])
+    .filter(([, key]) => key));
+}
@@ -0,0 +1,169 @@
+import { AgentRequestError } from './retry';
+
+// How long the provider itself took, measured by the route: from sending the
+// upstream request to its last byte, and to its first token when streaming
+export interface UpstreamTiming {
+  latencyMs: number;
+  firstTokenMs?: number;
+}
+
+// Events sent by the provider routes in streaming mode, one per SSE message
+export type StreamEvent =
+  | { type: 'delta'; text: string }
+  | {
+    type: 'done';
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+    };
+    timestamp: string;
+    timing?: UpstreamTiming;
+  }
+  // `status` is the provider's, or 502 when it gave none, so the client
+  // can retry a stream that failed partway like a request that failed
+  | { type: 'error'; error: string; status?: number };
+
+export interface StreamedCompletion {
+  response: string;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+  timestamp: string;
+  timing?: UpstreamTiming;
+}
+
+/**
+ * Build a server-sent events response. `produce` sends events as the
+ * provider streams them; a thrown error is sent as an error event.
+ * When `upstreamStartedAt` is given, the done event carries the upstream
+ * latency and time to first token. `headers`, such as the provider's rate
+ * limits, are added to the response. Routes open the upstream stream
+ * before calling this, so a provider error such as a rate limit still
+ * comes back with its own status rather than inside a 200 stream.
+ */
+export function createEventStream(
+  produce: (send: (event: StreamEvent) => void) => Promise<void>,
+  upstreamStartedAt?: number,
+  headers: Record<string, string> = {}
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let isClosed = false;
+      let firstTokenAt: number | undefined;
+      const send = (event: StreamEvent) => {
+        if (isClosed) return;
+        if (event.type === 'delta' && firstTokenAt === undefined) {
+          firstTokenAt = Date.now();
+        }
+        if (event.type === 'done' && upstreamStartedAt !== undefined) {
+          event = {
+            ...event,
+            timing: {
+              latencyMs: Date.now() - upstreamStartedAt,
+              firstTokenMs: firstTokenAt !== undefined ? firstTokenAt - upstreamStartedAt : undefined
+            }
+          };
+        }
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        await produce(send);
+      } catch (error) {
+        console.error('Stream error:', error);
+        const status = (error as { status?: unknown })?.status;
+        send({
+          type: 'error',
+          error: (error as Error).message || 'Stream failed',
+          status: typeof status === 'number' ? status : 502
+        });
+      } finally {
+        isClosed = true;
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+/**
+ * Read the `data:` payloads of a server-sent events stream as they arrive
+ */
+export async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Messages are separated by a blank line
+      const messages = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : messages.pop() || '';
+
+      for (const message of messages) {
+        const data = message
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) yield data;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read a streaming response from one of the provider routes, calling
+ * `onDelta` with each chunk of text. Resolves with the full completion once
+ * the stream closes. A stream that fails or is cut off partway throws an
+ * AgentRequestError, so the module's retry policy can try again from the
+ * start.
+ */
+export async function readCompletionStream(
+  response: Response,
+  onDelta?: (text: string) => void
+): Promise<StreamedCompletion> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  let text = '';
+  let done: Extract<StreamEvent, { type: 'done' }> | null = null;
+
+  for await (const data of readEventStream(response.body)) {
+    const event = JSON.parse(data) as StreamEvent;
+    if (event.type === 'delta') {
+      text += event.text;
+      onDelta?.(event.text);
+    } else if (event.type === 'done') {
+      done = event;
+    } else if (event.type === 'error') {
+      throw new AgentRequestError(event.error, event.status ?? 502);
+    }
+  }
+
+  if (!done) {
+    throw new AgentRequestError('Stream ended before the response was complete', 502);
+  }
+
+  return { response: text, usage: done.usage, timestamp: done.timestamp, timing: done.timing };
+}
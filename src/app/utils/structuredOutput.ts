@@ -0,0 +1,140 @@
+import { JsonSchema, JsonSchemaType } from '../types/workflow';
+
+// Enough of the errors for a model to fix its answer without drowning the
+// prompt in them
+const MAX_REPORTED_ERRORS = 10;
+
+export type StructuredOutputCheck =
+  | { valid: true; value: unknown }
+  | { valid: false; errors: string[] };
+
+const typeOf = (value: unknown): JsonSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+};
+
+const matchesType = (value: unknown, type: JsonSchemaType) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Check a value against a schema, returning a message for each problem
+ * found, e.g. `$.items[2].name: expected string, got number`
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      // Nothing else about the value means much once its type is wrong
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => isEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.anyOf && !schema.anyOf.some(option => validateJson(value, option, path).length === 0)) {
+    errors.push(`${path}: doesn't match any of the allowed shapes`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${plural(schema.minLength, 'character')}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${plural(schema.maxLength, 'character')}`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${plural(schema.minItems, 'item')}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${plural(schema.maxItems, 'item')}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJson(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    (schema.required || [])
+      .filter(key => !(key in object))
+      .forEach(key => errors.push(`${path}: missing required property "${key}"`));
+
+    Object.entries(object).forEach(([key, child]) => {
+      const childPath = `${path}.${key}`;
+      if (properties[key]) {
+        errors.push(...validateJson(child, properties[key], childPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${childPath}: is not an allowed property`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJson(child, schema.additionalProperties, childPath));
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Parse a model's answer as JSON and check it against the schema. Answers
+ * wrapped in a Markdown code block are unwrapped first.
+ */
+export function checkStructuredOutput(text: string, schema: JsonSchema): StructuredOutputCheck {
+  const fenced = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  let value: unknown;
+  try {
+    value = JSON.parse(fenced ? fenced[1] : text);
+  } catch (error) {
+    return { valid: false, errors: [`Not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const errors = validateJson(value, schema);
+  return errors.length === 0 ? { valid: true, value } : { valid: false, errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+}
+
+/**
+ * Tell the model the shape to answer in. Providers with a native JSON mode
+ * enforce it as well, but the rest only have the prompt to go by.
+ */
+export function withSchemaInstructions(prompt: string, schema: JsonSchema): string {
+  return `${prompt}\n\nRespond with only a JSON value, without any other text, that matches this JSON Schema:\n` +
+    JSON.stringify(schema, null, 2);
+}
+
+/**
+ * Ask the model to fix an answer that didn't match the schema
+ */
+export function getRepairPrompt(prompt: string, output: string, errors: string[]): string {
+  return `${prompt}\n\nYour previous answer:\n${output}\n\n` +
+    `It doesn't match the schema:\n${errors.map(error => `- ${error}`).join('\n')}\n\n` +
+    'Answer again with only JSON that fixes these problems.';
+}
@@ -0,0 +1,68 @@
+import { UpstreamTiming } from './streaming';
+
+export interface TimedResult {
+  executionTime: number;
+  timing?: {
+    queuedAt: number;
+    requestSentAt?: number;
+    firstByteAt?: number;
+    firstTokenAt?: number;
+    completedAt: number;
+    upstream?: UpstreamTiming;
+  };
+}
+
+export type TimingPhase = 'queued' | 'request' | 'firstToken' | 'streaming' | 'running';
+
+export interface TimingSegment {
+  phase: TimingPhase;
+  start: number;
+  end: number;
+}
+
+export const TIMING_PHASE_LABELS: Record<TimingPhase, string> = {
+  queued: 'Queued / retrying',
+  request: 'Waiting for response',
+  firstToken: 'Waiting for first token',
+  streaming: 'Receiving output',
+  running: 'Running'
+};
+
+/**
+ * Wall-clock time of a run, from the first module being queued to the last
+ * one finishing. Results from before timing was recorded fall back to the
+ * sum of their execution times.
+ */
+export function getRunDuration(results: TimedResult[]): number {
+  const timed = results.filter(r => r.timing);
+  if (timed.length === 0 || timed.length < results.length) {
+    return results.reduce((sum, r) => sum + r.executionTime, 0);
+  }
+  const start = Math.min(...timed.map(r => r.timing!.queuedAt));
+  const end = Math.max(...timed.map(r => r.timing!.completedAt));
+  return end - start;
+}
+
+/**
+ * Split a result's timing into consecutive phases. Modules that don't call a
+ * model (routers, loops, joins) are a single running phase.
+ */
+export function getTimingSegments(timing: NonNullable<TimedResult['timing']>): TimingSegment[] {
+  const { queuedAt, requestSentAt, firstByteAt, firstTokenAt, completedAt } = timing;
+  if (!requestSentAt) {
+    return [{ phase: 'running', start: queuedAt, end: completedAt }];
+  }
+
+  const points: Array<[TimingPhase, number | undefined]> = [
+    ['queued', queuedAt],
+    ['request', requestSentAt],
+    // Without a streamed first token, the rest is reading the response
+    [firstTokenAt ? 'firstToken' : 'streaming', firstByteAt],
+    ['streaming', firstTokenAt]
+  ];
+  const present = points.filter((p): p is [TimingPhase, number] => p[1] !== undefined);
+
+  return present
+    .map(([phase, start], i) => ({ phase, start, end: present[i + 1]?.[1] ?? completedAt }))
+    .filter(segment => segment.end > segment.start);
+}
@@ -0,0 +1,77 @@
+import { BuiltInProvider, WorkflowModuleData, WorkflowParam } from '../types/workflow';
+import { CustomProvider } from './customProviders';
+import { apiRequest, jsonBody } from './apiRequest';
+
+// Headers an inbound webhook can authenticate with: the trigger's secret
+// itself, or an HMAC-SHA256 of the raw body keyed with it ("sha256=<hex>")
+export const TRIGGER_TOKEN_HEADER = 'x-agent-link-token';
+export const TRIGGER_SIGNATURE_HEADER = 'x-agent-link-signature';
+
+// A URL that starts a workflow saved on the server. Its secret is only
+// shown when the trigger is created or the secret is replaced.
+export interface WebhookTrigger {
+  id: string;
+  name: string;
+  modules: WorkflowModuleData[];
+  params: WorkflowParam[];
+  // Where in the request body each parameter's value is found, as a path
+  // like "issue.title". Parameters without one read the top-level field of
+  // the same name.
+  inputPaths: Record<string, string>;
+  // Sent the run's final output once it finishes
+  callbackUrl?: string;
+  // Whether the trigger runs with keys saved from the browser rather than
+  // the server's environment
+  hasApiKeys: boolean;
+  createdAt: number;
+  lastTriggeredAt?: number;
+}
+
+export interface TriggerSettings {
+  name: string;
+  modules: WorkflowModuleData[];
+  params: WorkflowParam[];
+  inputPaths?: Record<string, string>;
+  callbackUrl?: string;
+  apiKeys?: Partial<Record<BuiltInProvider, string>>;
+  customProviders?: CustomProvider[];
+}
+
+// What a trigger's callback URL receives once its run finishes
+export interface TriggerCallbackBody {
+  triggerId: string;
+  runId: string;
+  status: string;
+  output: string | null;
+  error: string | null;
+  results: { moduleId: string; title: string; output: string }[]; // every agent's output, in order
+}
+
+export function getTriggerUrl(triggerId: string): string {
+  return `${window.location.origin}/api/hooks/${triggerId}`;
+}
+
+export async function listTriggers(): Promise<WebhookTrigger[]> {
+  const { triggers } = await apiRequest<{ triggers: WebhookTrigger[] }>('/api/triggers');
+  return triggers;
+}
+
+export function createTrigger(settings: TriggerSettings): Promise<{ trigger: WebhookTrigger; secret: string }> {
+  return apiRequest('/api/triggers', jsonBody('POST', settings));
+}
+
+export function updateTrigger(id: string, settings: Partial<TriggerSettings>): Promise<WebhookTrigger> {
+  return apiRequest(`/api/triggers/${id}`, jsonBody('PATCH', settings));
+}
+
+export async function deleteTrigger(id: string): Promise<void> {
+  await apiRequest(`/api/triggers/${id}`, { method: 'DELETE' });
+}
+
+/**
+ * Replace a trigger's secret; requests signed with the old one are refused
+ */
+export async function rotateTriggerSecret(id: string): Promise<string> {
+  const { secret } = await apiRequest<{ secret: string }>(`/api/triggers/${id}/secret`, { method: 'POST' });
+  return secret;
+}
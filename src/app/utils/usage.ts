@@ -0,0 +1,36 @@
+// The most output tokens the Claude, OpenAI and Gemini routes ask for.
+// Estimates assume a call may use all of them.
+export const MAX_OUTPUT_TOKENS = 1024;
+
+interface UsageResult {
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+  cost?: number;
+  cached?: boolean;
+  items?: UsageResult[];
+}
+
+/**
+ * Add up the tokens paid for across results. Responses served from the
+ * cache cost nothing; a map module counts each of its items.
+ */
+export function getBilledTokens(results: UsageResult[]): number {
+  return results.reduce((sum, r) => {
+    if (r.items) return sum + getBilledTokens(r.items);
+    if (r.cached) return sum;
+    return sum + (r.usage?.input_tokens || 0) + (r.usage?.output_tokens || 0);
+  }, 0);
+}
+
+/**
+ * Add up what the results cost in dollars, or undefined if none of them
+ * had a price. Results without one count as free.
+ */
+export function getBilledCost(results: UsageResult[]): number | undefined {
+  return results.reduce<number | undefined>((sum, r) => {
+    const cost = r.items ? getBilledCost(r.items) : r.cached ? undefined : r.cost;
+    return cost === undefined ? sum : (sum || 0) + cost;
+  }, undefined);
+}
@@ -0,0 +1,1382 @@
+import { WorkflowModuleData, WorkflowParamValues } from '../types/workflow';
+import { getProviderEndpoint } from './providerEndpoints';
+import { getCustomProviders } from './customProviders';
+import { isBuiltInProvider, isCustomProvider, isModelModule, getProviderName, BuiltInProvider, CustomProvider, JsonSchema, Provider } from '../types/workflow';
+import { topologicalSort, getUpstreamMap, getDescendants, combineUpstreamOutputs, getLoopMembership } from './workflowGraph';
+import { selectBranch, evaluateCondition } from './conditions';
+import { splitIntoItems, joinItems, formatItemsForPrompt, mapWithConcurrency } from './mapItems';
+import { AgentRequestError, DEFAULT_RETRY_POLICY, RetryAttempt, classifyError, describeFailure, withRetry } from './retry';
+import { parseRetryAfter } from './rateLimitHeaders';
+import { ProviderLimits, QueuePosition, getProviderKey, getProviderLimitSettings, scheduleRequest, throttleFromHeaders } from './requestScheduler';
+import { StreamedCompletion, UpstreamTiming, readCompletionStream } from './streaming';
+import { TemplateContext, getReferencedAgentIds, renderPrompt } from './promptTemplate';
+import { getCachedResponse, saveCachedResponse } from './responseCache';
+import { ModelPrice, getCost, getPriceKey, getPriceTable } from './pricing';
+import { BudgetTracker, RunBudget, createBudgetTracker, isBudgetError } from './budget';
+import { MAX_OUTPUT_TOKENS } from './usage';
+import { countTokens } from './tokenizer';
+import { checkStructuredOutput, getRepairPrompt, withSchemaInstructions } from './structuredOutput';
+import { WorkflowEvent, createWorkflowEventBus } from './workflowEvents';
+import { WorkflowPlugin, applyOutputTransforms, applyPromptTransforms } from './workflowPlugins';
+import type { RunStatus } from './runHistory';
+
+// Helper to safely access sessionStorage
+const getStorageValue = (key: string): string | null => {
+  if (typeof window === 'undefined') return null;
+  return window.sessionStorage.getItem(key);
+};
+
+// Where agents get API keys and custom provider settings, and how they
+// send requests to the provider routes
+export interface ProviderAccess {
+  getApiKey: (provider: BuiltInProvider) => string | null;
+  getCustomProvider: (id: string) => CustomProvider | undefined;
+  // The limits on requests to a provider, by its key (see getProviderKey)
+  getLimits: (key: string) => ProviderLimits;
+  getPrice: (provider: Provider, model: string) => ModelPrice | undefined;
+  send: (endpoint: string, init: RequestInit) => Promise<Response>;
+}
+
+// In the browser, keys are kept in storage and the routes are called over HTTP
+export const browserAccess: ProviderAccess = {
+  getApiKey: (provider) => getStorageValue(`${provider}_api_key`),
+  getCustomProvider: (id) => getCustomProviders().find(p => p.id === id),
+  getLimits: (key) => getProviderLimitSettings()[key] || {},
+  getPrice: (provider, model) => getPriceTable()[getPriceKey(provider, model)],
+  send: (endpoint, init) => fetch(endpoint, init)
+};
+
+export interface AgentStatus {
+  isExecuting: boolean;
+  isComplete: boolean;
+  error: string | null;
+  executionTime?: number;
+  isSkipped?: boolean;
+  routedTo?: string;
+  iteration?: number;
+  iterations?: number;
+  itemsCompleted?: number;
+  itemsTotal?: number;
+  isCancelled?: boolean;
+  attempt?: number;
+  maxAttempts?: number;
+  retryReason?: string;
+  retryDelayMs?: number;
+  retryModel?: string;
+  fallbackModel?: string;
+  partialOutput?: string; // text streamed so far by the running agent
+  pausedAt?: 'before' | 'after';
+  isAwaitingApproval?: boolean;
+  reviewDecision?: ApprovalReview['decision'];
+  isCached?: boolean;
+  // Set while the provider's limits hold the request back
+  queuedBehind?: number;
+  queueWaitMs?: number;
+}
+
+// When each stage of a module's run happened, as epoch milliseconds. The
+// request timestamps are for the attempt that succeeded; earlier attempts
+// and backoff count as time spent queued.
+export interface AgentTiming {
+  queuedAt: number;
+  requestSentAt?: number;
+  firstByteAt?: number;
+  firstTokenAt?: number;
+  completedAt: number;
+  upstream?: UpstreamTiming; // as measured by the route
+}
+
+export interface AgentResult {
+  agentIndex: number;
+  moduleId: string;
+  input: string;
+  output: string;
+  executionTime: number;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+  timestamp: string;
+  route?: {
+    branchId: string;
+    branchName: string;
+  };
+  iteration?: number;
+  loop?: {
+    iterations: number;
+    exitReason: 'condition' | 'maxIterations';
+  };
+  itemIndex?: number;
+  items?: AgentResult[];
+  attempts?: number;
+  model?: string; // the model that actually answered
+  provider?: string;
+  isFallback?: boolean;
+  timing?: AgentTiming;
+  isEdited?: boolean; // output was changed by hand at a breakpoint or approval
+  reviews?: ApprovalReview[]; // every decision made on an approval module, in order
+  cached?: boolean; // served from the response cache without calling the provider
+  cost?: number; // in US dollars, when the model has a price
+  parsedOutput?: unknown; // the output as JSON, for modules with an output schema
+}
+
+// A reviewer's decision on an approval module
+export interface ApprovalReview {
+  decision: 'approved' | 'edited' | 'rejected';
+  note?: string;
+  requestedAt: string;
+  decidedAt: string;
+}
+
+// An approval module waiting for a reviewer
+export interface PendingApproval {
+  moduleId: string;
+  moduleIndex: number;
+  input: string;
+  instructions?: string;
+  revisions: number; // times the work has already been sent back
+  // Whether rejecting sends the work back for revision rather than ending
+  // the run
+  canRevise: boolean;
+}
+
+export type ApprovalDecision =
+  | { action: 'approve'; output?: string; note?: string }
+  | { action: 'reject'; reason: string };
+
+// Reviewer feedback for an agent re-run after its output was rejected
+interface Revision {
+  previousOutput: string;
+  feedback: string;
+}
+
+// The values entered in the run form, and the text built from them that
+// the first agents receive as input
+export interface WorkflowRunInput {
+  text: string;
+  values: WorkflowParamValues;
+}
+
+// Where a debug run is stopped: the module about to run, with the prompt it
+// will send, or the module that just ran, with its raw response and output
+export interface PausedStep {
+  moduleId: string;
+  moduleIndex: number;
+  phase: 'before' | 'after';
+  iteration?: number;
+  input?: string;
+  prompt?: string;
+  response?: unknown;
+  output?: string;
+}
+
+// Step pauses again at the next module boundary; continue runs on to the
+// next breakpoint
+export type ResumeMode = 'step' | 'continue';
+
+// The state of one run, as reported while it progresses
+export interface RunState {
+  isRunning: boolean;
+  paused: PausedStep | null;
+  pendingApproval: PendingApproval | null;
+  currentAgentIndex: number;
+  results: AgentResult[];
+  agentStatus: Record<string, AgentStatus>;
+  error: string | null;
+  failedAgentIndex: number;
+  overBudget: boolean; // the error stopped the run going over its budget
+}
+
+export type RunStateUpdate = Partial<RunState> | ((state: RunState) => Partial<RunState>);
+
+export const applyRunStateUpdate = (state: RunState, update: RunStateUpdate): RunState =>
+  ({ ...state, ...(typeof update === 'function' ? update(state) : update) });
+
+// The state of a run before it has started
+export const INITIAL_RUN_STATE: RunState = {
+  isRunning: false,
+  paused: null,
+  pendingApproval: null,
+  currentAgentIndex: 0,
+  results: [],
+  agentStatus: {},
+  error: null,
+  failedAgentIndex: -1,
+  overBudget: false
+};
+
+// Answers the breakpoint or approval a run is waiting at. The run sets
+// these while it waits and clears them once answered.
+export interface RunControls {
+  resume: ((mode: ResumeMode, output?: string) => void) | null;
+  decide: ((decision: ApprovalDecision) => void) | null;
+}
+
+// Whether agents read answers from the response cache and store new ones;
+// `refresh` stores answers without reading them
+export type CacheMode = 'off' | 'use' | 'refresh';
+
+export interface ExecuteWorkflowOptions {
+  input: WorkflowRunInput;
+  startIndex?: number;
+  preserved?: AgentResult[]; // results of modules that don't need to run again
+  signal: AbortSignal;
+  update: (update: RunStateUpdate) => void;
+  cacheMode?: CacheMode;
+  access?: ProviderAccess;
+  // Without controls, breakpoints are ignored and approval modules fail
+  controls?: RunControls;
+  // The run stops before any call that would take it over budget
+  budget?: RunBudget;
+  // Counts the run's calls against a budget shared with other runs, e.g.
+  // the rows of a batch, instead of `budget`
+  budgetTracker?: BudgetTracker;
+  // Watch the run's events and change prompts and outputs as it goes
+  plugins?: WorkflowPlugin[];
+}
+
+export interface WorkflowOutcome {
+  status: RunStatus;
+  results: AgentResult[];
+  error?: { message: string; failedAgentIndex: number; overBudget?: boolean };
+}
+
+export const DEFAULT_MAX_ITERATIONS = 5;
+const DEFAULT_MAP_CONCURRENCY = 3;
+const DEFAULT_MAX_REVISIONS = 3;
+// How many times an answer that doesn't match the output schema is sent
+// back to the model to fix
+const MAX_SCHEMA_REPAIRS = 2;
+
+// Replace one module's status
+const withStatus = (module: WorkflowModuleData, status: AgentStatus): RunStateUpdate =>
+  state => ({ agentStatus: { ...state.agentStatus, [module.id]: status } });
+
+// How each lifecycle event changes the state of the run
+const runStateUpdateFor = (event: WorkflowEvent): RunStateUpdate => {
+  switch (event.type) {
+    case 'workflowStarted':
+      return {
+        isRunning: true,
+        paused: null,
+        pendingApproval: null,
+        currentAgentIndex: event.startIndex,
+        results: event.preserved,
+        error: null,
+        failedAgentIndex: -1,
+        overBudget: false,
+        agentStatus: event.preserved.reduce((acc, r) => ({
+          ...acc,
+          [r.moduleId]: {
+            isExecuting: false,
+            isComplete: true,
+            error: null,
+            executionTime: r.executionTime
+          }
+        }), {} as Record<string, AgentStatus>)
+      };
+    case 'agentStarted':
+      return state => ({
+        currentAgentIndex: event.index,
+        agentStatus: {
+          ...state.agentStatus,
+          [event.module.id]: { isExecuting: true, isComplete: false, error: null, iteration: event.iteration }
+        }
+      });
+    case 'agentSkipped':
+      return withStatus(event.module, { isExecuting: false, isComplete: false, error: null, isSkipped: true, iteration: event.iteration });
+    // Show each retry, and why, while the module waits to try again
+    case 'agentRetried':
+      return state => ({
+        agentStatus: {
+          ...state.agentStatus,
+          [event.module.id]: {
+            ...state.agentStatus[event.module.id],
+            attempt: event.retry.attempt,
+            maxAttempts: event.retry.maxAttempts,
+            retryReason: event.retry.reason,
+            retryDelayMs: event.retry.delayMs,
+            retryModel: event.retry.model,
+            // The next attempt streams its answer from the start
+            partialOutput: undefined
+          }
+        }
+      });
+    // Show where the request stands while it waits for the provider's limits
+    case 'agentQueued':
+      return state => ({
+        agentStatus: {
+          ...state.agentStatus,
+          [event.module.id]: {
+            ...state.agentStatus[event.module.id],
+            queuedBehind: event.position?.ahead,
+            queueWaitMs: event.position?.waitMs
+          }
+        }
+      });
+    // Show the answer as it streams in
+    case 'agentOutputDelta':
+      return state => ({
+        agentStatus: {
+          ...state.agentStatus,
+          [event.module.id]: {
+            ...state.agentStatus[event.module.id],
+            partialOutput: (state.agentStatus[event.module.id]?.partialOutput || '') + event.text
+          }
+        }
+      });
+    case 'agentProgress': {
+      const { module, iteration, itemsCompleted, itemsTotal } = event;
+      return withStatus(module, { isExecuting: true, isComplete: false, error: null, iteration, itemsCompleted, itemsTotal });
+    }
+    case 'agentPaused':
+      return withStatus(event.module, { isExecuting: false, isComplete: false, error: null, iteration: event.iteration, pausedAt: event.phase });
+    case 'agentResumed':
+      return withStatus(event.module, { isExecuting: true, isComplete: false, error: null, iteration: event.iteration });
+    case 'agentAwaitingApproval':
+      return withStatus(event.module, { isExecuting: false, isComplete: false, error: null, iteration: event.iteration, isAwaitingApproval: true });
+    case 'agentCompleted': {
+      const { module, result, iteration } = event;
+      return state => ({
+        results: [...state.results, result],
+        agentStatus: {
+          ...state.agentStatus,
+          [module.id]: {
+            isExecuting: false,
+            isComplete: true,
+            error: null,
+            executionTime: result.executionTime,
+            routedTo: result.route?.branchName,
+            iteration,
+            iterations: result.loop?.iterations,
+            attempt: result.attempts,
+            fallbackModel: result.isFallback ? result.model : undefined,
+            reviewDecision: result.reviews?.[result.reviews.length - 1]?.decision,
+            isCached: result.cached
+          }
+        }
+      });
+    }
+    // A stopped workflow aborts its requests; show that as cancelled rather
+    // than as an error
+    case 'agentFailed':
+      return state => ({
+        ...(event.result && { results: [...state.results, event.result] }),
+        agentStatus: {
+          ...state.agentStatus,
+          [event.module.id]: event.cancelled
+            ? { isExecuting: false, isComplete: false, error: null, isCancelled: true, iteration: event.iteration }
+            : {
+              isExecuting: false,
+              isComplete: false,
+              error: event.error,
+              iteration: event.iteration,
+              reviewDecision: event.result?.reviews?.[event.result.reviews.length - 1]?.decision
+            }
+        }
+      });
+    case 'workflowPaused':
+      return { paused: event.step };
+    case 'workflowResumed':
+      return { paused: null };
+    case 'approvalRequested':
+      return { pendingApproval: event.request };
+    case 'approvalClosed':
+      return { pendingApproval: null };
+    case 'workflowFailed':
+      return {
+        isRunning: false,
+        error: event.error,
+        failedAgentIndex: event.failedAgentIndex,
+        overBudget: event.overBudget
+      };
+    case 'workflowCompleted':
+      return { isRunning: false };
+  }
+};
+
+const hasBreakpoint = (module: WorkflowModuleData, phase: 'before' | 'after') =>
+  module.breakpoint === phase || module.breakpoint === 'both';
+
+// Add up token usage across several results, e.g. the items of a map module
+// or the calls made to repair an answer
+const sumUsage = (results: Array<Pick<StreamedCompletion, 'usage'>>): AgentResult['usage'] => {
+  if (!results.some(r => r.usage)) return undefined;
+  return {
+    input_tokens: results.reduce((sum, r) => sum + (r.usage?.input_tokens || 0), 0),
+    output_tokens: results.reduce((sum, r) => sum + (r.usage?.output_tokens || 0), 0)
+  };
+};
+
+/**
+ * Replace a result's output, e.g. after a plugin or a breakpoint changed
+ * it. The parsed JSON is checked against the schema again and dropped if
+ * the new output no longer matches; a map module's is dropped either way,
+ * since a changed output can't be split back into its items' answers.
+ */
+function withOutput(module: WorkflowModuleData, result: AgentResult, output: string): AgentResult {
+  if (!module.outputSchema) return { ...result, output };
+  const check = module.kind === 'map' ? undefined : checkStructuredOutput(output, module.outputSchema);
+  return { ...result, output, parsedOutput: check?.valid ? check.value : undefined };
+}
+
+/**
+ * Pick the results of a previous run that a run starting at `startIndex`
+ * can keep: every module that is neither the starting module nor
+ * downstream of it. Starting inside a loop body restarts the whole loop.
+ */
+export function getPreservedResults(
+  modules: WorkflowModuleData[],
+  startIndex: number,
+  previousResults: AgentResult[]
+): AgentResult[] {
+  if (startIndex <= 0) return [];
+
+  const membership = getLoopMembership(modules);
+  const startModule = modules[startIndex];
+  const retryFrom = startModule && membership[startModule.id]
+    ? modules.find(m => m.id === membership[startModule.id])
+    : startModule;
+  if (!retryFrom) return [];
+
+  const invalidated = new Set([
+    retryFrom.id,
+    ...Array.from(getDescendants(modules, retryFrom.id)),
+    ...Object.keys(membership).filter(id => membership[id] === retryFrom.id)
+  ]);
+  return previousResults.filter(r => modules.some(m => m.id === r.moduleId) && !invalidated.has(r.moduleId));
+}
+
+/**
+ * Run a workflow's modules in dependency order, reporting progress through
+ * `update` and to the plugins as lifecycle events. Modules with a result in `preserved` are not run again, e.g.
+ * when retrying from a failed agent.
+ */
+export async function executeWorkflow(
+  modules: WorkflowModuleData[],
+  {
+    input: { text: workflowInput, values: inputValues },
+    startIndex = 0,
+    preserved = [],
+    signal,
+    update,
+    cacheMode = 'off',
+    access = browserAccess,
+    controls,
+    budget = {},
+    budgetTracker: sharedBudget,
+    plugins = []
+  }: ExecuteWorkflowOptions
+): Promise<WorkflowOutcome> {
+  // Every change to the run's state is sent as an event, and the state is
+  // only updated from them; plugins see each one once the state has changed
+  const events = createWorkflowEventBus();
+  events.onAny(event => update(runStateUpdateFor(event)));
+  plugins.forEach(plugin => plugin.onEvent && events.onAny(plugin.onEvent));
+
+  const membership = getLoopMembership(modules);
+  // Only calls made by this run count, not the preserved results
+  const budgetTracker = sharedBudget
+    ?? (budget.maxTokens || budget.maxCost ? createBudgetTracker(budget) : undefined);
+  // The results as they complete, kept here since `update` only reports them
+  const runResults: AgentResult[] = [...preserved];
+  let runError = null as WorkflowOutcome['error'] | null;
+  let currentAgentIndex = startIndex;
+
+  const fail = (error: unknown, failedAgentIndex: number) => {
+    const message = (error as Error).message;
+    const overBudget = isBudgetError(error);
+    runError = { message, failedAgentIndex, ...(overBudget && { overBudget }) };
+    events.emit({ type: 'workflowFailed', error: message, failedAgentIndex, overBudget });
+  };
+
+  // Modules on parallel branches can reach breakpoints or approvals at the
+  // same time; they wait their turn so only one is shown at once. `open`
+  // shows the prompt and hands over the function that answers it; `close`
+  // hides it again, including when the run is stopped.
+  let userQueue: Promise<unknown> = Promise.resolve();
+  const waitForUser = <T>(open: (answer: (value: T) => void) => void, close: () => void) => {
+    const answered = userQueue.then(() => new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        close();
+        reject(new Error('Workflow cancelled'));
+      };
+      if (signal.aborted) return onAbort();
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      open(value => {
+        signal.removeEventListener('abort', onAbort);
+        close();
+        resolve(value);
+      });
+    }));
+    userQueue = answered.catch(() => undefined);
+    return answered;
+  };
+
+  let stepping = false;
+  const pause = async (step: PausedStep) => {
+    const { mode, output } = await waitForUser<{ mode: ResumeMode; output?: string }>(
+      answer => {
+        controls!.resume = (mode, output) => answer({ mode, output });
+        events.emit({ type: 'workflowPaused', step });
+      },
+      () => {
+        controls!.resume = null;
+        events.emit({ type: 'workflowResumed', step });
+      }
+    );
+    stepping = mode === 'step';
+    return output;
+  };
+
+  // Breakpoints only apply when someone is there to resume the run
+  const pausesAt = (module: WorkflowModuleData, phase: 'before' | 'after') =>
+    !!controls && (stepping || hasBreakpoint(module, phase));
+
+  const requestApproval = (request: PendingApproval) => {
+    if (!controls) {
+      return Promise.reject(new Error('Approval modules need a reviewer, so they can only run interactively'));
+    }
+    return waitForUser<ApprovalDecision>(
+      answer => {
+        controls.decide = answer;
+        events.emit({ type: 'approvalRequested', request });
+      },
+      () => {
+        controls.decide = null;
+        events.emit({ type: 'approvalClosed', request });
+      }
+    );
+  };
+
+  events.emit({
+    type: 'workflowStarted',
+    modules,
+    input: { text: workflowInput, values: inputValues },
+    startIndex,
+    preserved
+  });
+
+  try {
+    const order = topologicalSort(modules);
+    const upstream = getUpstreamMap(modules);
+    const completed = new Map<string, AgentResult>(preserved.map(r => [r.moduleId, r]));
+    const skipped = new Set<string>();
+    // Loop bodies are run by their loop rather than scheduled directly
+    const pending = order.filter(m => !completed.has(m.id) && !membership[m.id]);
+    const running = new Map<string, Promise<void>>();
+    let failed = false;
+
+    const titleOf = (id: string) => modules.find(m => m.id === id)?.title || id;
+
+    // Modules at the start of the workflow read the workflow input; the
+    // rest read the combined output of their inputs in `scope`
+    const inputFor = (module: WorkflowModuleData, scope: Map<string, AgentResult>) =>
+      upstream[module.id].length === 0
+        ? workflowInput
+        : combineUpstreamOutputs(upstream[module.id]
+          .filter(id => scope.has(id))
+          .map(id => ({ title: titleOf(id), output: scope.get(id)!.output })));
+
+    // A loop waits for its own inputs and for every input its body reads
+    // from outside the loop
+    // Agents named in a prompt template must finish before it runs, just
+    // like the agents it takes input from
+    const templateAgents = modules.map(m => ({ id: m.id, title: m.title }));
+    const inputsOf = (id: string) => {
+      const current = modules.find(m => m.id === id);
+      const referenced = current && isModelModule(current)
+        ? getReferencedAgentIds(current.prompt, templateAgents).filter(ref => ref !== id)
+        : [];
+      return Array.from(new Set([...upstream[id], ...referenced]));
+    };
+
+    const schedulingDeps = (module: WorkflowModuleData) => {
+      if (module.kind !== 'loop') return inputsOf(module.id);
+      const body = Object.keys(membership).filter(id => membership[id] === module.id);
+      const external = body.flatMap(inputsOf)
+        .filter(id => id !== module.id && !body.includes(id));
+      return Array.from(new Set([...inputsOf(module.id), ...external]));
+    };
+
+    const isSettled = (id: string) => completed.has(id) || skipped.has(id);
+
+    // A module is skipped when a router upstream of it picked a branch that
+    // doesn't lead to it, or when every one of its inputs was skipped
+    const shouldSkip = (
+      module: WorkflowModuleData,
+      scope: Map<string, AgentResult>,
+      skippedIds: Set<string>
+    ) => {
+      const deps = upstream[module.id];
+      if (deps.length > 0 && deps.every(id => skippedIds.has(id))) return true;
+
+      return deps.some(id => {
+        const router = modules.find(m => m.id === id);
+        const route = scope.get(id)?.route;
+        if (router?.kind !== 'router' || !route) return false;
+        const branches = router.branches || [];
+        const isRouted = branches.some(b => b.targetIds.includes(module.id));
+        const chosen = branches.find(b => b.id === route.branchId);
+        return isRouted && !chosen?.targetIds.includes(module.id);
+      });
+    };
+
+    /**
+     * Run one agent, router or loop with its inputs taken from `scope`,
+     * recording the result and status. Returns null if the module is skipped.
+     */
+    const runStep = async (
+      module: WorkflowModuleData,
+      scope: Map<string, AgentResult>,
+      skippedIds: Set<string>,
+      iteration?: number,
+      revision?: Revision
+    ): Promise<AgentResult | null> => {
+      const index = modules.findIndex(m => m.id === module.id);
+
+      if (signal.aborted) {
+        throw new Error('Workflow cancelled');
+      }
+
+      if (shouldSkip(module, scope, skippedIds)) {
+        skippedIds.add(module.id);
+        events.emit({ type: 'agentSkipped', module, iteration });
+        return null;
+      }
+
+      let queuedAt = Date.now();
+      currentAgentIndex = index;
+      events.emit({ type: 'agentStarted', module, index, iteration });
+
+      const onRetry = (retry: RetryAttempt) => events.emit({ type: 'agentRetried', module, retry });
+
+      const onQueue = (position: QueuePosition | null) => events.emit({ type: 'agentQueued', module, position });
+      const onDelta = (text: string) => events.emit({ type: 'agentOutputDelta', module, text });
+
+      const upstreamResults = upstream[module.id]
+        .filter(id => scope.has(id))
+        .map(id => scope.get(id)!);
+      const input = inputFor(module, scope);
+
+      // Lets the prompt refer to the workflow input and any agent that has run
+      const templateContext: TemplateContext = {
+        workflowInput,
+        params: inputValues,
+        agents: modules.map(m => ({ id: m.id, title: m.title, output: scope.get(m.id)?.output }))
+      };
+
+      // Kept for the debugger to show what the provider route returned
+      let rawResponse: unknown;
+      const onResponse = (data: unknown) => {
+        rawResponse = data;
+      };
+
+      const execute = async (): Promise<AgentResult> => {
+        switch (module.kind) {
+          case 'router':
+            return executeRouter(module, index, input);
+          case 'loop':
+            return runLoop(module, index, input);
+          case 'map':
+            return runMap(module, index, input, iteration, { onRetry, onQueue, templateContext });
+          case 'reduce':
+            return executeReduce(module, index, upstreamResults, { signal, onRetry, onQueue, onDelta, onResponse, templateContext, revision, cacheMode, access, budget: budgetTracker, plugins });
+          case 'approval':
+            return runApproval(module, index, scope, skippedIds, iteration);
+          default:
+            return executeAgent(module, index, input, { signal, onRetry, onQueue, onDelta, onResponse, templateContext, revision, cacheMode, access, budget: budgetTracker, plugins });
+        }
+      };
+
+      // The prompt an agent module will send; a template error is shown in
+      // its place and raised again when the module runs
+      const previewPrompt = () => {
+        if ((module.kind || 'agent') !== 'agent') return undefined;
+        try {
+          return renderPrompt(module.prompt, { ...templateContext, input });
+        } catch (error) {
+          return (error as Error).message;
+        }
+      };
+
+      let rejected: AgentResult | undefined;
+      try {
+        if (pausesAt(module, 'before')) {
+          events.emit({ type: 'agentPaused', module, phase: 'before', iteration });
+          await pause({ moduleId: module.id, moduleIndex: index, phase: 'before', iteration, input, prompt: previewPrompt() });
+          events.emit({ type: 'agentResumed', module, iteration });
+          queuedAt = Date.now();
+        }
+
+        const result = await execute();
+        let recorded: AgentResult = {
+          ...result,
+          ...(iteration !== undefined && { iteration }),
+          timing: { ...result.timing, queuedAt, completedAt: result.timing?.completedAt ?? Date.now() }
+        };
+
+        const output = await applyOutputTransforms(plugins, recorded.output, { module, result: recorded });
+        if (output !== recorded.output) recorded = withOutput(module, recorded, output);
+
+        if (pausesAt(module, 'after')) {
+          events.emit({ type: 'agentPaused', module, phase: 'after', iteration });
+          const editedOutput = await pause({
+            moduleId: module.id,
+            moduleIndex: index,
+            phase: 'after',
+            iteration,
+            input,
+            prompt: (module.kind || 'agent') === 'agent' ? recorded.input : undefined,
+            response: rawResponse,
+            output: recorded.output
+          });
+          if (editedOutput !== undefined && editedOutput !== recorded.output) {
+            recorded = { ...withOutput(module, recorded, editedOutput), isEdited: true };
+          }
+        }
+
+        scope.set(module.id, recorded);
+        runResults.push(recorded);
+
+        // A rejection that can't be revised ends the run, with the
+        // decision kept in the results
+        const review = recorded.reviews?.[recorded.reviews.length - 1];
+        if (review?.decision === 'rejected') {
+          rejected = recorded;
+          throw new Error(`${module.title} was rejected${review.note ? `: ${review.note}` : ''}`);
+        }
+        events.emit({ type: 'agentCompleted', module, result: recorded, iteration });
+        return recorded;
+      } catch (error) {
+        events.emit({
+          type: 'agentFailed',
+          module,
+          error: (error as Error).message,
+          cancelled: signal.aborted,
+          iteration,
+          ...(rejected && { result: rejected })
+        });
+        throw error;
+      }
+    };
+
+    /**
+     * Re-run a loop's body until its exit condition matches or the
+     * iteration cap is hit. Body modules that read from the loop get the
+     * loop's input on the first pass and the previous pass's output after.
+     */
+    const runLoop = async (loop: WorkflowModuleData, agentIndex: number, input = ''): Promise<AgentResult> => {
+      const startedAt = Date.now();
+      const body = order.filter(m => membership[m.id] === loop.id);
+      const exitCondition = loop.loop?.exitCondition || null;
+      const maxIterations = Math.max(1, loop.loop?.maxIterations || DEFAULT_MAX_ITERATIONS);
+
+      let iterationInput = input;
+      let iterationScope = new Map(completed);
+      let exitReason: 'condition' | 'maxIterations' = 'maxIterations';
+      let iterations = 0;
+
+      while (iterations < maxIterations) {
+        events.emit({ type: 'agentProgress', module: loop, iteration: iterations });
+
+        iterationScope = new Map(completed);
+        iterationScope.set(loop.id, {
+          agentIndex,
+          moduleId: loop.id,
+          input,
+          output: iterationInput,
+          executionTime: 0,
+          timestamp: new Date().toISOString()
+        });
+        const iterationSkipped = new Set<string>();
+        let iterationOutput = iterationInput;
+
+        for (const member of body) {
+          try {
+            const result = await runStep(member, iterationScope, iterationSkipped, iterations);
+            if (result) iterationOutput = result.output;
+          } catch (error) {
+            throw new Error(`${member.title} failed in iteration ${iterations + 1}: ${(error as Error).message}`, { cause: error });
+          }
+        }
+
+        iterations++;
+        iterationInput = iterationOutput;
+        if (exitCondition && evaluateCondition(exitCondition, iterationOutput)) {
+          exitReason = 'condition';
+          break;
+        }
+      }
+
+      // Modules after the loop can read any body module's final output
+      body.forEach(member => {
+        const result = iterationScope.get(member.id);
+        if (result) completed.set(member.id, result);
+        else skipped.add(member.id);
+      });
+
+      return {
+        agentIndex,
+        moduleId: loop.id,
+        input,
+        output: iterationInput,
+        executionTime: Date.now() - startedAt,
+        timestamp: new Date().toISOString(),
+        loop: { iterations, exitReason }
+      };
+    };
+
+    /**
+     * Wait for a reviewer to sign off on the approval module's input. If
+     * the module is set to revise, a rejection re-runs the agents feeding
+     * it with the reviewer's feedback and asks again, up to its revision
+     * limit.
+     */
+    const runApproval = async (
+      module: WorkflowModuleData,
+      agentIndex: number,
+      scope: Map<string, AgentResult>,
+      skippedIds: Set<string>,
+      iteration?: number
+    ): Promise<AgentResult> => {
+      const startedAt = Date.now();
+      const config = module.approval || { onReject: 'end' };
+      const maxRevisions = config.maxRevisions ?? DEFAULT_MAX_REVISIONS;
+      // Only agents that answer with a single prompt can take feedback
+      const revisable = upstream[module.id]
+        .map(id => modules.find(m => m.id === id)!)
+        .filter(m => isModelModule(m) && m.kind !== 'map' && scope.has(m.id));
+      const reviews: ApprovalReview[] = [];
+
+      while (true) {
+        const input = inputFor(module, scope) || '';
+        const revisions = reviews.length;
+        const canRevise = config.onReject === 'revise' && revisable.length > 0 && revisions < maxRevisions;
+        const requestedAt = new Date().toISOString();
+
+        events.emit({ type: 'agentAwaitingApproval', module, iteration });
+        const decision = await requestApproval({
+          moduleId: module.id,
+          moduleIndex: agentIndex,
+          input,
+          instructions: config.instructions,
+          revisions,
+          canRevise
+        });
+        const decidedAt = new Date().toISOString();
+
+        const result = {
+          agentIndex,
+          moduleId: module.id,
+          input,
+          output: input,
+          executionTime: Date.now() - startedAt,
+          timestamp: decidedAt,
+          reviews
+        };
+
+        if (decision.action === 'approve') {
+          const isEdited = decision.output !== undefined && decision.output !== input;
+          reviews.push({ decision: isEdited ? 'edited' : 'approved', note: decision.note, requestedAt, decidedAt });
+          return isEdited ? { ...result, output: decision.output!, isEdited } : result;
+        }
+
+        reviews.push({ decision: 'rejected', note: decision.reason, requestedAt, decidedAt });
+        if (!canRevise) return result;
+
+        for (const agent of revisable) {
+          await runStep(agent, scope, skippedIds, iteration, {
+            previousOutput: scope.get(agent.id)?.output || '',
+            feedback: decision.reason
+          });
+        }
+      }
+    };
+
+    /**
+     * Split the input into items and run the map module's prompt once per
+     * item, keeping each item's result on the combined result
+     */
+    const runMap = async (
+      module: WorkflowModuleData,
+      agentIndex: number,
+      input = '',
+      iteration?: number,
+      { onRetry, onQueue, templateContext }: Pick<ExecuteAgentOptions, 'onRetry' | 'onQueue' | 'templateContext'> = {}
+    ): Promise<AgentResult> => {
+      const startedAt = Date.now();
+      const items = splitIntoItems(input, module.map?.splitStrategy || 'lines');
+      let itemsCompleted = 0;
+
+      // Items waiting for the provider's limits; the status shows the one
+      // nearest the front
+      const queuedItems = new Map<number, QueuePosition>();
+      const onItemQueue = (itemIndex: number, position: QueuePosition | null) => {
+        if (position) queuedItems.set(itemIndex, position);
+        else queuedItems.delete(itemIndex);
+        const positions = Array.from(queuedItems.values());
+        onQueue?.(positions.length > 0 ? positions.reduce((a, b) => a.ahead <= b.ahead ? a : b) : null);
+      };
+
+      const reportProgress = () => events.emit({
+        type: 'agentProgress',
+        module,
+        iteration,
+        itemsCompleted,
+        itemsTotal: items.length
+      });
+      reportProgress();
+
+      const itemResults = await mapWithConcurrency(
+        items,
+        module.map?.concurrency || DEFAULT_MAP_CONCURRENCY,
+        async (item, itemIndex) => {
+          try {
+            const result = await executeAgent(module, agentIndex, item, {
+              signal,
+              templateContext,
+              cacheMode,
+              access,
+              budget: budgetTracker,
+              plugins,
+              onRetry: onRetry && (retry => onRetry({ ...retry, reason: `Item ${itemIndex + 1}: ${retry.reason}` })),
+              onQueue: position => onItemQueue(itemIndex, position)
+            });
+            itemsCompleted++;
+            reportProgress();
+            return { ...result, itemIndex };
+          } catch (error) {
+            throw new Error(`Item ${itemIndex + 1} of ${items.length} failed: ${(error as Error).message}`, { cause: error });
+          }
+        }
+      );
+
+      return {
+        agentIndex,
+        moduleId: module.id,
+        input,
+        output: JSON.stringify(itemResults.map(r => r.output), null, 2),
+        executionTime: Date.now() - startedAt,
+        usage: sumUsage(itemResults),
+        timestamp: new Date().toISOString(),
+        // The schema applies to each item's answer
+        ...(module.outputSchema && { parsedOutput: itemResults.map(r => r.parsedOutput) }),
+        items: itemResults
+      };
+    };
+
+    const runModule = async (module: WorkflowModuleData) => {
+      try {
+        await runStep(module, completed, skipped);
+      } catch (error) {
+        if (signal.aborted) return;
+
+        // Only the first failure stops the workflow; agents already in
+        // flight on other branches are left to finish
+        if (!failed) {
+          failed = true;
+          fail(error, modules.findIndex(m => m.id === module.id));
+        }
+      }
+    };
+
+    // Start every module as soon as all of its dependencies have completed,
+    // so independent branches run in parallel
+    while (!failed && !signal.aborted && (pending.length > 0 || running.size > 0)) {
+      const ready = pending.filter(m => schedulingDeps(m).every(isSettled));
+      ready.forEach(m => {
+        pending.splice(pending.indexOf(m), 1);
+        running.set(m.id, runModule(m).finally(() => running.delete(m.id)));
+      });
+
+      if (running.size === 0) break;
+      await Promise.race(Array.from(running.values()));
+    }
+
+    await Promise.allSettled(Array.from(running.values()));
+
+    // Anything still pending is waiting on a module that can never run,
+    // e.g. a loop body reading from a module downstream of its own loop
+    if (!failed && !signal.aborted && pending.length > 0) {
+      failed = true;
+      fail(
+        new Error(`Could not run ${pending.map(m => m.title).join(', ')}: waiting on inputs that never complete`),
+        modules.findIndex(m => m.id === pending[0].id)
+      );
+    }
+  } catch (error) {
+    fail(error, currentAgentIndex);
+  }
+
+  const status: RunStatus = signal.aborted ? 'cancelled' : runError ? 'failed' : 'completed';
+  const outcome: WorkflowOutcome = { status, results: runResults, ...(runError && { error: runError }) };
+  events.emit({ type: 'workflowCompleted', outcome });
+  return outcome;
+}
+
+/**
+ * Evaluate a router module's branches against its input. The input is passed
+ * through unchanged so the chosen branch's agents see the original output.
+ */
+function executeRouter(module: WorkflowModuleData, agentIndex: number, input = ''): AgentResult {
+  const startedAt = Date.now();
+  const branch = selectBranch(module.branches || [], input);
+  if (!branch) {
+    throw new Error(`No branch of router "${module.title}" matched the input`);
+  }
+
+  return {
+    agentIndex,
+    moduleId: module.id,
+    input,
+    output: input,
+    executionTime: Date.now() - startedAt,
+    timestamp: new Date().toISOString(),
+    route: {
+      branchId: branch.id,
+      branchName: branch.name
+    }
+  };
+}
+
+interface ExecuteAgentOptions {
+  signal?: AbortSignal;
+  onRetry?: (retry: RetryAttempt) => void;
+  onQueue?: (position: QueuePosition | null) => void;
+  onDelta?: (text: string) => void;
+  onResponse?: (data: unknown) => void; // the route's response, before it becomes a result
+  templateContext?: Omit<TemplateContext, 'input'>;
+  revision?: Revision;
+  cacheMode?: CacheMode;
+  access?: ProviderAccess;
+  budget?: BudgetTracker;
+  plugins?: WorkflowPlugin[];
+}
+
+/**
+ * Join the items produced by upstream map modules. Upstream results without
+ * items count as a single item each.
+ */
+async function executeReduce(
+  module: WorkflowModuleData,
+  agentIndex: number,
+  upstreamResults: AgentResult[],
+  options: ExecuteAgentOptions = {}
+): Promise<AgentResult> {
+  const startedAt = Date.now();
+  const config = module.reduce || { strategy: 'concat' };
+  const items = upstreamResults.flatMap(r => r.items ? r.items.map(item => item.output) : [r.output]);
+  const input = formatItemsForPrompt(items);
+
+  if (config.strategy === 'agent') {
+    return executeAgent(module, agentIndex, input, options);
+  }
+
+  return {
+    agentIndex,
+    moduleId: module.id,
+    input,
+    output: joinItems(items, config),
+    executionTime: Date.now() - startedAt,
+    timestamp: new Date().toISOString()
+  };
+}
+
+interface CustomProviderConfig extends CustomProvider {
+  auth: {
+    type: 'bearer' | 'query' | 'header';
+    key: string;
+    value: string;
+  };
+}
+
+/**
+ * Build the request for one provider/model pair, with the API key or custom
+ * provider configuration from `access`
+ */
+function buildAgentRequest(
+  provider: Provider,
+  model: string,
+  prompt: string,
+  access: ProviderAccess,
+  stream = false,
+  outputSchema?: JsonSchema
+) {
+  const endpoint = getProviderEndpoint(provider);
+
+  let apiKey: string | null = null;
+  let customProvider: CustomProviderConfig | null = null;
+
+  if (isBuiltInProvider(provider)) {
+    apiKey = access.getApiKey(provider);
+    if (!apiKey) {
+      throw new Error(`API key not found for ${provider}`);
+    }
+  } else if (isCustomProvider(provider)) {
+    const foundProvider = access.getCustomProvider(provider.id) as CustomProviderConfig | undefined;
+    if (!foundProvider) {
+      throw new Error('Custom provider configuration not found');
+    }
+    customProvider = foundProvider;
+    apiKey = foundProvider.auth.value; // Extract API key from custom provider config
+  } else {
+    throw new Error('Invalid provider type');
+  }
+
+  // Prepare request payload
+  const payload = {
+    prompt,
+    apiKey, // API key is now always at top level
+    model,
+    stream,
+    // Routes turn this into the provider's own JSON mode where it has one
+    ...(outputSchema && { jsonSchema: outputSchema }),
+    ...(customProvider && {
+      providerConfig: {
+        ...customProvider,
+        // Remove auth.value from providerConfig to avoid duplication
+        auth: {
+          ...customProvider.auth,
+          value: undefined // API key is now at top level
+        }
+      }
+    })
+  };
+
+  return { endpoint, payload };
+}
+
+/**
+ * Call the module's model, retrying per its retry policy. When a model keeps
+ * failing with a retryable error, move on to the next model in its fallback
+ * chain; the result records which model actually answered.
+ */
+async function executeAgent(
+  module: WorkflowModuleData,
+  agentIndex: number,
+  input?: string,
+  {
+    signal,
+    onRetry,
+    onQueue,
+    onDelta,
+    onResponse,
+    templateContext = { agents: [] },
+    revision,
+    cacheMode = 'off',
+    access = browserAccess,
+    budget,
+    plugins = []
+  }: ExecuteAgentOptions = {}
+): Promise<AgentResult> {
+  const queuedAt = Date.now();
+  try {
+    if (!module.provider || !module.selectedModel) {
+      throw new Error(`Invalid configuration for agent "${module.title}"`);
+    }
+
+    const rendered = renderPrompt(module.prompt, { ...templateContext, input });
+    const revised = revision
+      ? `${rendered}\n\nYour previous answer:\n${revision.previousOutput}\n\n` +
+        `A reviewer rejected it with this feedback:\n${revision.feedback}\n\nRevise your answer to address the feedback.`
+      : rendered;
+    const schema = module.outputSchema;
+    const prompt = await applyPromptTransforms(plugins, schema ? withSchemaInstructions(revised, schema) : revised, { module, input });
+    const policy = module.retry || DEFAULT_RETRY_POLICY;
+    const candidates = [
+      { provider: module.provider, model: module.selectedModel },
+      // Skip fallbacks that haven't been fully picked yet
+      ...(module.fallbacks || []).filter((f): f is { provider: Provider; model: string } => !!f.provider && !!f.model)
+    ];
+
+    // Cached answers are looked up for the module's own model; a fallback's
+    // answer is stored under the fallback
+    if (cacheMode === 'use') {
+      const cached = await getCachedResponse({ ...candidates[0], prompt })
+        .catch(error => console.error('Failed to read response cache:', error));
+      // A cached answer that no longer matches the schema is asked for again
+      const cachedCheck = cached && schema ? checkStructuredOutput(cached.output, schema) : undefined;
+      if (cached && cachedCheck?.valid !== false) {
+        onResponse?.(cached);
+        const completedAt = Date.now();
+        return {
+          agentIndex,
+          moduleId: module.id,
+          input: prompt,
+          output: cached.output,
+          executionTime: completedAt - queuedAt,
+          usage: cached.usage,
+          timestamp: new Date().toISOString(),
+          model: cached.model,
+          provider: getProviderName(candidates[0].provider),
+          cached: true,
+          ...(cachedCheck?.valid && { parsedOutput: cachedCheck.value }),
+          timing: { queuedAt, completedAt }
+        };
+      }
+    }
+
+    // Every call to a model, the first and each schema repair, sets aside
+    // an estimate from its prompt and the most it could answer with, then
+    // is charged what it used. Providers that don't report usage are
+    // charged an estimate.
+    const withBudget = async <T extends StreamedCompletion>(
+      requestPrompt: string,
+      price: ModelPrice | undefined,
+      call: () => Promise<T>
+    ): Promise<T> => {
+      if (!budget) return call();
+      const inputTokens = countTokens(requestPrompt);
+      const settle = budget.reserve({
+        tokens: inputTokens + MAX_OUTPUT_TOKENS,
+        cost: getCost(price, { input_tokens: inputTokens, output_tokens: MAX_OUTPUT_TOKENS }) || 0
+      }, `"${module.title}"`);
+      try {
+        const data = await call();
+        const billedUsage: NonNullable<StreamedCompletion['usage']> = data.usage || {
+          input_tokens: inputTokens,
+          output_tokens: countTokens(String(data.response ?? ''))
+        };
+        settle({
+          tokens: (billedUsage.input_tokens || 0) + (billedUsage.output_tokens || 0),
+          cost: getCost(price, billedUsage) || 0
+        });
+        return data;
+      } catch (error) {
+        settle();
+        throw error;
+      }
+    };
+
+    let attempts = 0;
+    for (const [candidateIndex, candidate] of Array.from(candidates.entries())) {
+      try {
+        let requestSentAt = 0;
+        let firstByteAt = 0;
+        let firstTokenAt: number | undefined;
+
+        // Every attempt waits its turn in the provider's queue, which slows
+        // down on its own as the provider's rate limits run low
+        const providerKey = getProviderKey(candidate.provider);
+        const price = access.getPrice(candidate.provider, candidate.model);
+        const request = (requestPrompt: string) => withBudget(requestPrompt, price, () => {
+          const { endpoint, payload } = buildAgentRequest(candidate.provider, candidate.model, requestPrompt, access, true, schema);
+          console.log(`Executing agent "${module.title}" with ${candidate.model} using endpoint:`, endpoint);
+
+          return withRetry(attempt => scheduleRequest(providerKey, access.getLimits(providerKey), async () => {
+            attempts++;
+            console.log(`Making API request to: ${endpoint} (attempt ${attempt})`);
+
+            requestSentAt = Date.now();
+            firstTokenAt = undefined;
+            const response = await access.send(endpoint, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(payload),
+              signal
+            });
+            firstByteAt = Date.now();
+            throttleFromHeaders(providerKey, response.headers);
+
+            if (!response.ok) {
+              const errorData = await response.json().catch(() => ({}));
+              throw new AgentRequestError(
+                errorData.error || 'Failed to get response',
+                response.status,
+                parseRetryAfter(response.headers)
+              );
+            }
+
+            // Routes answer in streaming mode with server-sent events; the
+            // result resolves once the stream closes
+            if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+              return readCompletionStream(response, (text) => {
+                firstTokenAt ??= Date.now();
+                onDelta?.(text);
+              });
+            }
+            return response.json() as Promise<StreamedCompletion>;
+          }, { signal, onWait: onQueue }), policy, { signal, onRetry: onRetry && (retry => onRetry({ ...retry, model: candidate.model })) });
+        });
+
+        let data = await request(prompt);
+        onResponse?.(data);
+        let usage = sumUsage([data]);
+        let parsedOutput: unknown;
+
+        // An answer that doesn't match the output schema goes back to the
+        // model with what's wrong with it
+        for (let repairs = 0; schema; repairs++) {
+          const check = checkStructuredOutput(String(data.response ?? ''), schema);
+          if (check.valid) {
+            parsedOutput = check.value;
+            break;
+          }
+          if (repairs >= MAX_SCHEMA_REPAIRS) {
+            throw new Error(`The answer from ${candidate.model} doesn't match the output schema: ${check.errors.join('; ')}`);
+          }
+
+          onRetry?.({
+            attempt: repairs + 2,
+            maxAttempts: MAX_SCHEMA_REPAIRS + 1,
+            reason: `Answer doesn't match the output schema: ${check.errors[0]}`,
+            delayMs: 0,
+            model: candidate.model
+          });
+          data = await request(getRepairPrompt(prompt, String(data.response ?? ''), check.errors));
+          onResponse?.(data);
+          usage = sumUsage([{ usage }, { usage: data.usage }]);
+        }
+
+        if (cacheMode !== 'off') {
+          saveCachedResponse({ ...candidate, prompt }, data.response, usage)
+            .catch(error => console.error('Failed to save to response cache:', error));
+        }
+
+        const cost = getCost(price, usage);
+        const completedAt = Date.now();
+        return {
+          agentIndex,
+          moduleId: module.id,
+          input: prompt,
+          output: data.response,
+          executionTime: completedAt - queuedAt,
+          usage,
+          ...(cost !== undefined && { cost }),
+          ...(schema && { parsedOutput }),
+          timestamp: new Date().toISOString(),
+          attempts,
+          model: candidate.model,
+          provider: getProviderName(candidate.provider),
+          ...(candidateIndex > 0 && { isFallback: true }),
+          timing: { queuedAt, requestSentAt, firstByteAt, firstTokenAt, completedAt, upstream: data.timing }
+        };
+      } catch (error) {
+        const next = candidates[candidateIndex + 1];
+        const errorClass = signal?.aborted ? null : classifyError(error);
+        if (!next || !errorClass) throw error;
+
+        console.warn(`${candidate.model} failed for agent "${module.title}", falling back to ${next.model}`);
+        onRetry?.({
+          attempt: 1,
+          maxAttempts: Math.max(1, policy.maxAttempts),
+          reason: `Falling back from ${candidate.model}. ${describeFailure(error, errorClass)}`,
+          delayMs: 0,
+          model: next.model
+        });
+      }
+    }
+
+    // Unreachable: the last candidate either returns or throws
+    throw new Error(`No model answered for agent "${module.title}"`);
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log(`Agent "${module.title}" cancelled`);
+    } else {
+      console.error(`Error executing agent "${module.title}":`, error);
+    }
+    throw error;
+  }
+}
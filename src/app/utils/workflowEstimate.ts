@@ -0,0 +1,142 @@
+import { WorkflowModuleData, WorkflowParamValues, isModelModule } from '../types/workflow';
+import { topologicalSort, getUpstreamMap, getLoopMembership } from './workflowGraph';
+import { getReferencedAgentIds, renderPrompt } from './promptTemplate';
+import { splitIntoItems } from './mapItems';
+import { PriceTable, getCost, getPriceKey } from './pricing';
+import { DEFAULT_MAX_ITERATIONS } from './workflowEngine';
+import { MAX_OUTPUT_TOKENS } from './usage';
+import { countTokens } from './tokenizer';
+
+// The most tokens each model reads in one call, prompt and answer together.
+// Models that match none of these have no known limit.
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^claude-(?:2\.0|instant)/, 100_000],
+  [/^claude-/, 200_000],
+  [/^gpt-4o|^gpt-4-turbo|^gpt-4-\d{4}-preview/, 128_000],
+  [/^gpt-4-32k/, 32_768],
+  [/^gpt-4/, 8_192],
+  [/^gpt-3\.5-turbo/, 16_385],
+  [/^gemini-1\.5-pro/, 2_097_152],
+  [/^gemini-1\.5-flash/, 1_048_576],
+  [/^gemini-(?:1\.0-)?pro/, 32_760]
+];
+
+// What one model module is expected to send and receive
+export interface ModuleEstimate {
+  moduleId: string;
+  inputTokens: number; // per call
+  outputTokens: number; // per call, the most the model may answer with
+  calls: number; // more than one for loop bodies and map items
+  // A map module whose items aren't known until the modules before it run
+  // is counted as a single item
+  itemsUnknown?: boolean;
+  cost?: number; // undefined if the model has no price
+  contextWindow?: number;
+  exceedsContext: boolean;
+}
+
+export interface WorkflowEstimate {
+  modules: ModuleEstimate[];
+  tokens: number;
+  cost?: number; // undefined if none of the models has a price
+}
+
+export interface EstimateOptions {
+  workflowInput?: string;
+  params?: WorkflowParamValues;
+  prices: PriceTable;
+}
+
+export function getContextWindow(model: string): number | undefined {
+  return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1];
+}
+
+/**
+ * Estimate what a run of the workflow will use before it starts. Prompts
+ * are rendered with the inputs given and counted with the local tokenizer;
+ * every model call is assumed to answer with as many tokens as it may, and
+ * that answer becomes the input of the modules after it. Loop bodies count
+ * once per iteration up to the loop's cap, and read an input the size of
+ * the loop's own. Throws if the workflow has a cycle.
+ */
+export function estimateWorkflow(
+  modules: WorkflowModuleData[],
+  { workflowInput = '', params = {}, prices }: EstimateOptions
+): WorkflowEstimate {
+  const upstream = getUpstreamMap(modules);
+  const membership = getLoopMembership(modules);
+  const templateAgents = modules.map(m => ({ id: m.id, title: m.title }));
+  // The most tokens each module may pass on to the modules after it
+  const outputTokens: Record<string, number> = {};
+  const estimates: ModuleEstimate[] = [];
+
+  topologicalSort(modules).forEach(module => {
+    const isFirst = upstream[module.id].length === 0;
+    const upstreamTokens = isFirst
+      ? countTokens(workflowInput)
+      : upstream[module.id].reduce((sum, id) => sum + (outputTokens[id] || 0), 0);
+
+    if (!isModelModule(module)) {
+      // Routers, loops, approvals and joining reduces pass their input on
+      outputTokens[module.id] = upstreamTokens;
+      return;
+    }
+
+    // A map module runs once per item; they can only be counted up front
+    // when it reads the workflow input
+    const isMap = module.kind === 'map';
+    const items = isMap && isFirst
+      ? Math.max(1, splitIntoItems(workflowInput, module.map?.splitStrategy || 'lines').length)
+      : 1;
+    const itemTokens = Math.ceil(upstreamTokens / items);
+
+    // Modules at the start render the workflow input into their prompt; the
+    // rest are counted with their input and referenced agents left empty,
+    // and the most those may hold is added on
+    let rendered: string;
+    try {
+      rendered = renderPrompt(module.prompt, {
+        input: isFirst && !isMap ? workflowInput : '',
+        workflowInput,
+        params,
+        agents: templateAgents
+      });
+    } catch {
+      rendered = module.prompt;
+    }
+    const referencedTokens = getReferencedAgentIds(module.prompt, templateAgents)
+      .filter(id => id !== module.id)
+      .reduce((sum, id) => sum + (outputTokens[id] || 0), 0);
+    const inputTokens = countTokens(rendered) + referencedTokens + (isFirst && !isMap ? 0 : itemTokens);
+
+    const loop = membership[module.id] && modules.find(m => m.id === membership[module.id]);
+    const iterations = loop ? Math.max(1, loop.loop?.maxIterations || DEFAULT_MAX_ITERATIONS) : 1;
+    const calls = items * iterations;
+    outputTokens[module.id] = MAX_OUTPUT_TOKENS * items;
+
+    const price = module.provider && module.selectedModel
+      ? prices[getPriceKey(module.provider, module.selectedModel)]
+      : undefined;
+    const contextWindow = module.selectedModel ? getContextWindow(module.selectedModel) : undefined;
+
+    estimates.push({
+      moduleId: module.id,
+      inputTokens,
+      outputTokens: MAX_OUTPUT_TOKENS,
+      calls,
+      itemsUnknown: isMap && !isFirst,
+      cost: getCost(price, { input_tokens: inputTokens * calls, output_tokens: MAX_OUTPUT_TOKENS * calls }),
+      contextWindow,
+      exceedsContext: contextWindow !== undefined && inputTokens > contextWindow
+    });
+  });
+
+  return {
+    modules: estimates,
+    tokens: estimates.reduce((sum, e) => sum + (e.inputTokens + e.outputTokens) * e.calls, 0),
+    cost: estimates.reduce<number | undefined>(
+      (sum, e) => e.cost === undefined ? sum : (sum || 0) + e.cost,
+      undefined
+    )
+  };
+}
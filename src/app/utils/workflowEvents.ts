@@ -0,0 +1,142 @@
+import type { WorkflowModuleData } from '../types/workflow';
+import type { AgentResult, PausedStep, PendingApproval, WorkflowOutcome, WorkflowRunInput } from './workflowEngine';
+import type { QueuePosition } from './requestScheduler';
+import type { RetryAttempt } from './retry';
+
+// What happens over a run, in the order it happens. Agent events are sent
+// for every kind of module, once per loop iteration or approval revision.
+// Every change to the run's state comes from one of these.
+export interface WorkflowEventMap {
+  workflowStarted: {
+    modules: WorkflowModuleData[];
+    input: WorkflowRunInput;
+    startIndex: number;
+    preserved: AgentResult[]; // results kept from a previous run
+  };
+  agentStarted: {
+    module: WorkflowModuleData;
+    index: number;
+    iteration?: number;
+  };
+  agentSkipped: {
+    module: WorkflowModuleData;
+    iteration?: number;
+  };
+  agentRetried: {
+    module: WorkflowModuleData;
+    retry: RetryAttempt;
+  };
+  // The provider's limits hold the request back; null once it's sent
+  agentQueued: {
+    module: WorkflowModuleData;
+    position: QueuePosition | null;
+  };
+  // More of the answer has streamed in
+  agentOutputDelta: {
+    module: WorkflowModuleData;
+    text: string;
+  };
+  // A loop starting another iteration, or a map module finishing an item
+  agentProgress: {
+    module: WorkflowModuleData;
+    iteration?: number;
+    itemsCompleted?: number;
+    itemsTotal?: number;
+  };
+  // Stopped at a breakpoint, before it runs or before its output is passed on
+  agentPaused: {
+    module: WorkflowModuleData;
+    phase: 'before' | 'after';
+    iteration?: number;
+  };
+  agentResumed: {
+    module: WorkflowModuleData;
+    iteration?: number;
+  };
+  agentAwaitingApproval: {
+    module: WorkflowModuleData;
+    iteration?: number;
+  };
+  agentCompleted: {
+    module: WorkflowModuleData;
+    result: AgentResult;
+    iteration?: number;
+  };
+  agentFailed: {
+    module: WorkflowModuleData;
+    error: string;
+    cancelled: boolean; // the run was stopped while the module ran
+    iteration?: number;
+    // Kept in the results when the module finished but its result ends the
+    // run, e.g. a rejected approval
+    result?: AgentResult;
+  };
+  // Breakpoints and approvals wait their turn, so these are sent when the
+  // prompt is shown, which can be after the module paused
+  workflowPaused: {
+    step: PausedStep;
+  };
+  workflowResumed: {
+    step: PausedStep;
+  };
+  approvalRequested: {
+    request: PendingApproval;
+  };
+  // Answered, or the run was stopped
+  approvalClosed: {
+    request: PendingApproval;
+  };
+  workflowFailed: {
+    error: string;
+    failedAgentIndex: number;
+    overBudget: boolean;
+  };
+  workflowCompleted: {
+    outcome: WorkflowOutcome;
+  };
+}
+
+export type WorkflowEventType = keyof WorkflowEventMap;
+
+export type WorkflowEvent = {
+  [K in WorkflowEventType]: { type: K } & WorkflowEventMap[K];
+}[WorkflowEventType];
+
+export type WorkflowEventOf<K extends WorkflowEventType> = Extract<WorkflowEvent, { type: K }>;
+
+export interface WorkflowEventBus {
+  // Returns a function that removes the listener
+  on: <K extends WorkflowEventType>(type: K, listener: (event: WorkflowEventOf<K>) => void) => () => void;
+  onAny: (listener: (event: WorkflowEvent) => void) => () => void;
+  emit: (event: WorkflowEvent) => void;
+}
+
+/**
+ * Create an emitter for one run's events. Listeners are called in the order
+ * they were added; one that throws is logged and doesn't stop the others.
+ */
+export function createWorkflowEventBus(): WorkflowEventBus {
+  const listeners = new Set<{ type?: WorkflowEventType; listener: (event: WorkflowEvent) => void }>();
+
+  const add = (entry: { type?: WorkflowEventType; listener: (event: WorkflowEvent) => void }) => {
+    listeners.add(entry);
+    return () => {
+      listeners.delete(entry);
+    };
+  };
+
+  return {
+    on: (type, listener) => add({ type, listener: listener as (event: WorkflowEvent) => void }),
+    onAny: (listener) => add({ listener }),
+    emit: (event) => {
+      Array.from(listeners).forEach(({ type, listener }) => {
+        if (type && type !== event.type) return;
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(`Workflow event listener failed on ${event.type}:`, error);
+        }
+      });
+    }
+  };
+}
@@ -0,0 +1,135 @@
+import { WorkflowModuleData, WorkflowParam, WorkflowParamValues, getProviderName } from '../types/workflow';
+import { AgentResult, WorkflowRunInput } from './workflowEngine';
+import { getUpstreamMap } from './workflowGraph';
+import { getRunDuration } from './timing';
+import { getBilledCost, getBilledTokens } from './usage';
+import { snapshotModules } from './runHistory';
+
+export interface ExportedRun {
+  input: string;
+  inputValues: WorkflowParamValues;
+  results: AgentResult[];
+}
+
+// A workflow file the runner can load: an export, or just the definition
+export interface WorkflowFile {
+  modules: WorkflowModuleData[];
+  params: WorkflowParam[];
+  run?: { input: WorkflowRunInput; results: AgentResult[] };
+}
+
+/**
+ * Describe a workflow and the results of one of its runs for export
+ */
+export function buildWorkflowExport(modules: WorkflowModuleData[], params: WorkflowParam[], run: ExportedRun) {
+  const { input: runInput, inputValues, results } = run;
+  const upstreamMap = getUpstreamMap(modules);
+  return {
+    metadata: {
+      timestamp: new Date().toISOString(),
+      totalTime: getRunDuration(results),
+      totalTokens: getBilledTokens(results),
+      totalCost: getBilledCost(results),
+    },
+    workflow: {
+      parameters: params.map(({ id, ...param }) => param),
+      inputValues,
+      input: runInput,
+      agents: modules.map(m => ({
+        title: m.title,
+        model: m.selectedModel,
+        role: m.prompt,
+        dependsOn: upstreamMap[m.id].map(id => modules.find(u => u.id === id)?.title),
+        ...(m.retry && { retry: m.retry }),
+        ...(m.outputSchema && { outputSchema: m.outputSchema }),
+        ...(m.fallbacks?.length && {
+          fallbacks: m.fallbacks.map(f => ({ provider: f.provider && getProviderName(f.provider), model: f.model }))
+        }),
+        ...(m.kind === 'router' && {
+          kind: m.kind,
+          branches: m.branches?.map(b => ({
+            name: b.name,
+            condition: b.condition,
+            targets: b.targetIds.map(id => modules.find(u => u.id === id)?.title)
+          }))
+        }),
+        ...(m.kind === 'map' && { kind: m.kind, map: m.map }),
+        ...(m.kind === 'reduce' && { kind: m.kind, reduce: m.reduce }),
+        ...(m.kind === 'approval' && { kind: m.kind, approval: m.approval }),
+        ...(m.kind === 'loop' && m.loop && {
+          kind: m.kind,
+          loop: {
+            body: m.loop.bodyIds.map(id => modules.find(u => u.id === id)?.title),
+            exitCondition: m.loop.exitCondition,
+            maxIterations: m.loop.maxIterations
+          }
+        })
+      })),
+      results: results.map(r => ({
+        agent: modules[r.agentIndex].title,
+        ...(r.model && { model: r.model, provider: r.provider }),
+        ...(r.isFallback && { fallback: true }),
+        ...(r.isEdited && { edited: true }),
+        ...(r.cached && { cached: true }),
+        ...(r.reviews && { reviews: r.reviews }),
+        input: r.input,
+        output: r.output,
+        ...(r.parsedOutput !== undefined && { parsedOutput: r.parsedOutput }),
+        ...(r.route && { route: r.route.branchName }),
+        ...(r.iteration !== undefined && { iteration: r.iteration }),
+        ...(r.loop && { loop: r.loop }),
+        ...(r.attempts !== undefined && r.attempts > 1 && { attempts: r.attempts }),
+        ...(r.items && {
+          items: r.items.map(item => ({
+            input: item.input,
+            output: item.output,
+            ...(item.parsedOutput !== undefined && { parsedOutput: item.parsedOutput }),
+            usage: item.usage,
+            ...(item.cached && { cached: true })
+          }))
+        }),
+        executionTime: r.executionTime,
+        ...(r.timing && { timing: r.timing }),
+        usage: r.usage,
+        timestamp: r.timestamp
+      }))
+    },
+    // The workflow as the editor holds it and the run's raw results, so the
+    // file can be run again, e.g. by the command-line runner
+    definition: {
+      modules: snapshotModules(modules),
+      params
+    },
+    run: {
+      input: { text: runInput, values: inputValues },
+      results
+    }
+  };
+}
+
+/**
+ * Read a workflow file: either an export, which carries its definition and
+ * the results of the run it was exported from, or a bare definition with
+ * `modules` and optional `params`
+ */
+export function parseWorkflowFile(json: string): WorkflowFile {
+  let data;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Workflow file is not valid JSON');
+  }
+
+  const source = data?.definition ?? data;
+  if (!Array.isArray(source?.modules) || source.modules.length === 0) {
+    throw new Error(data?.workflow
+      ? 'This export has no workflow definition; export it again from the editor'
+      : 'Workflow file has no modules');
+  }
+
+  return {
+    modules: source.modules,
+    params: source.params || [],
+    ...(data.run && { run: data.run })
+  };
+}
@@ -0,0 +1,163 @@
+import { WorkflowModuleData } from '../types/workflow';
+
+export interface WorkflowEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * Resolve the upstream module IDs for the module at `index`.
+ * Modules without an explicit `dependsOn` list read from the module directly
+ * before them, so linear workflows keep working unchanged.
+ */
+export function getDependencies(modules: WorkflowModuleData[], index: number): string[] {
+  const current = modules[index];
+  if (!current) return [];
+  if (current.dependsOn) {
+    // Ignore references to modules that no longer exist
+    return current.dependsOn.filter(id => id !== current.id && modules.some(m => m.id === id));
+  }
+  return index > 0 ? [modules[index - 1].id] : [];
+}
+
+/**
+ * Build the list of edges for a workflow
+ */
+export function getWorkflowEdges(modules: WorkflowModuleData[]): WorkflowEdge[] {
+  return modules.flatMap((module, index) =>
+    getDependencies(modules, index).map(from => ({ from, to: module.id }))
+  );
+}
+
+/**
+ * Map each module ID to the IDs of the modules it depends on
+ */
+export function getUpstreamMap(modules: WorkflowModuleData[]): Record<string, string[]> {
+  return modules.reduce((acc, module, index) => ({
+    ...acc,
+    [module.id]: getDependencies(modules, index)
+  }), {} as Record<string, string[]>);
+}
+
+/**
+ * Map each module ID to the IDs of the modules that consume its output
+ */
+export function getDownstreamMap(modules: WorkflowModuleData[]): Record<string, string[]> {
+  const downstream: Record<string, string[]> = {};
+  modules.forEach(m => { downstream[m.id] = []; });
+  getWorkflowEdges(modules).forEach(({ from, to }) => {
+    downstream[from].push(to);
+  });
+  return downstream;
+}
+
+/**
+ * Find a dependency cycle, returned as a list of module IDs where the first
+ * and last entries are the same. Returns null if the graph is acyclic.
+ */
+export function findCycle(modules: WorkflowModuleData[]): string[] | null {
+  const upstream = getUpstreamMap(modules);
+  const state: Record<string, 'visiting' | 'done'> = {};
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state[id] === 'done') return null;
+    if (state[id] === 'visiting') {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+
+    state[id] = 'visiting';
+    stack.push(id);
+    for (const dep of upstream[id] || []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state[id] = 'done';
+    return null;
+  };
+
+  for (const m of modules) {
+    const cycle = visit(m.id);
+    if (cycle) return cycle.reverse();
+  }
+  return null;
+}
+
+/**
+ * Sort modules so every module comes after all of its dependencies.
+ * Ties keep their original array order. Throws if the workflow has a cycle.
+ */
+export function topologicalSort(modules: WorkflowModuleData[]): WorkflowModuleData[] {
+  const cycle = findCycle(modules);
+  if (cycle) {
+    const titles = cycle.map(id => modules.find(m => m.id === id)?.title || id);
+    throw new Error(`Workflow contains a cycle: ${titles.join(' → ')}`);
+  }
+
+  const upstream = getUpstreamMap(modules);
+  const sorted: WorkflowModuleData[] = [];
+  const placed = new Set<string>();
+
+  while (sorted.length < modules.length) {
+    const next = modules.find(m =>
+      !placed.has(m.id) && upstream[m.id].every(dep => placed.has(dep))
+    );
+    // findCycle guarantees progress, but guard against an infinite loop
+    if (!next) break;
+    sorted.push(next);
+    placed.add(next.id);
+  }
+
+  return sorted;
+}
+
+/**
+ * Collect every module that (directly or indirectly) depends on `moduleId`
+ */
+export function getDescendants(modules: WorkflowModuleData[], moduleId: string): Set<string> {
+  const downstream = getDownstreamMap(modules);
+  const descendants = new Set<string>();
+  const queue = [...(downstream[moduleId] || [])];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (descendants.has(id)) continue;
+    descendants.add(id);
+    queue.push(...(downstream[id] || []));
+  }
+
+  return descendants;
+}
+
+/**
+ * Combine the outputs of several upstream modules into a single input.
+ * A single upstream output is passed through untouched.
+ */
+export function combineUpstreamOutputs(outputs: Array<{ title: string; output: string }>): string | undefined {
+  if (outputs.length === 0) return undefined;
+  if (outputs.length === 1) return outputs[0].output;
+  return outputs
+    .map(({ title, output }) => `[${title}]\n${output}`)
+    .join('\n\n');
+}
+
+/**
+ * Map each module that belongs to a loop body to the ID of its loop.
+ * Loops can't be nested, and a module only belongs to the first loop that
+ * claims it.
+ */
+export function getLoopMembership(modules: WorkflowModuleData[]): Record<string, string> {
+  const membership: Record<string, string> = {};
+  modules
+    .filter(m => m.kind === 'loop' && m.loop)
+    .forEach(loop => {
+      loop.loop!.bodyIds.forEach(id => {
+        const member = modules.find(m => m.id === id);
+        if (member && member.id !== loop.id && member.kind !== 'loop' && !membership[id]) {
+          membership[id] = loop.id;
+        }
+      });
+    });
+  return membership;
+}
@@ -0,0 +1,80 @@
+import { WorkflowParam, WorkflowParamValues } from '../types/workflow';
+
+// Parameter names are used in templates as {{params.name}}
+const PARAM_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Check a workflow's parameter definitions, returning an error message per
+ * parameter ID for names that can't be used in a template or are repeated
+ */
+export function validateParams(params: WorkflowParam[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  params.forEach(param => {
+    if (!PARAM_NAME_PATTERN.test(param.name)) {
+      errors[param.id] = 'Use letters, numbers, "_" or "-", starting with a letter';
+    } else if (params.some(p => p.id !== param.id && p.name === param.name)) {
+      errors[param.id] = 'Another input has this name';
+    } else if (param.type === 'enum' && !param.options?.length) {
+      errors[param.id] = 'Add at least one option';
+    }
+  });
+  return errors;
+}
+
+/**
+ * Get the starting values for the run form from each parameter's default
+ */
+export function getDefaultValues(params: WorkflowParam[]): WorkflowParamValues {
+  const values: WorkflowParamValues = {};
+  params.forEach(param => {
+    if (param.defaultValue !== undefined && param.defaultValue !== '') {
+      values[param.name] = param.type === 'number' ? Number(param.defaultValue) : param.defaultValue;
+    } else if (param.type === 'enum' && param.options?.length) {
+      values[param.name] = param.options[0];
+    }
+  });
+  return values;
+}
+
+/**
+ * Check the values entered in the run form, returning an error message per
+ * parameter name
+ */
+export function validateParamValues(
+  params: WorkflowParam[],
+  values: WorkflowParamValues
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  params.forEach(param => {
+    const value = values[param.name];
+    const isEmpty = value === undefined || value === '';
+
+    if (isEmpty) {
+      if (param.required) errors[param.name] = 'Required';
+    } else if (param.type === 'number' && !Number.isFinite(Number(value))) {
+      errors[param.name] = 'Must be a number';
+    } else if (param.type === 'enum' && !param.options?.includes(String(value))) {
+      errors[param.name] = 'Choose one of the options';
+    }
+  });
+  return errors;
+}
+
+/**
+ * Turn the parameter values into the text the first agents receive as input
+ * and prompts see as {{workflow.input}}. A single parameter is passed
+ * through as is; several are listed by name.
+ */
+export function formatParamValues(params: WorkflowParam[], values: WorkflowParamValues): string {
+  const filled = params.filter(p => values[p.name] !== undefined && values[p.name] !== '');
+  if (params.length === 1) {
+    return filled.length === 1 ? String(values[filled[0].name]) : '';
+  }
+
+  return filled
+    .map(p => {
+      const value = String(values[p.name]);
+      return value.includes('\n') ? `${p.name}:\n${value}` : `${p.name}: ${value}`;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,75 @@
+import type { WorkflowModuleData } from '../types/workflow';
+import type { AgentResult } from './workflowEngine';
+import type { WorkflowEvent } from './workflowEvents';
+
+// Extends runs without changing the store: watch their events for logging,
+// metrics or notifications, and change what agents send or pass on.
+// Prompt and output hooks run in the order the plugins were registered,
+// each receiving the previous one's text; one that throws fails the module.
+export interface WorkflowPlugin {
+  name: string;
+  onEvent?: (event: WorkflowEvent) => void;
+  // Change the prompt an agent is about to send, after its template is
+  // rendered. Runs again for each map item and revision.
+  transformPrompt?: (prompt: string, context: { module: WorkflowModuleData; input?: string }) => string | Promise<string>;
+  // Change a module's output before the modules after it read it
+  transformOutput?: (output: string, context: { module: WorkflowModuleData; result: AgentResult }) => string | Promise<string>;
+}
+
+const plugins: WorkflowPlugin[] = [];
+
+/**
+ * Add a plugin to every run started from the app from now on. A plugin
+ * registered again under the same name replaces the earlier one. Returns a
+ * function that removes it.
+ */
+export function registerPlugin(plugin: WorkflowPlugin): () => void {
+  unregisterPlugin(plugin.name);
+  plugins.push(plugin);
+  return () => {
+    if (plugins.includes(plugin)) plugins.splice(plugins.indexOf(plugin), 1);
+  };
+}
+
+export function unregisterPlugin(name: string): void {
+  const index = plugins.findIndex(p => p.name === name);
+  if (index !== -1) plugins.splice(index, 1);
+}
+
+export function getPlugins(): WorkflowPlugin[] {
+  return [...plugins];
+}
+
+export async function applyPromptTransforms(
+  plugins: WorkflowPlugin[],
+  prompt: string,
+  context: { module: WorkflowModuleData; input?: string }
+): Promise<string> {
+  let transformed = prompt;
+  for (const plugin of plugins) {
+    if (!plugin.transformPrompt) continue;
+    try {
+      transformed = await plugin.transformPrompt(transformed, context);
+    } catch (error) {
+      throw new Error(`Plugin "${plugin.name}" failed to change the prompt: ${(error as Error).message}`);
+    }
+  }
+  return transformed;
+}
+
+export async function applyOutputTransforms(
+  plugins: WorkflowPlugin[],
+  output: string,
+  context: { module: WorkflowModuleData; result: AgentResult }
+): Promise<string> {
+  let transformed = output;
+  for (const plugin of plugins) {
+    if (!plugin.transformOutput) continue;
+    try {
+      transformed = await plugin.transformOutput(transformed, context);
+    } catch (error) {
+      throw new Error(`Plugin "${plugin.name}" failed to change the output: ${(error as Error).message}`);
+    }
+  }
+  return transformed;
+}
@@ -0,0 +1,361 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { BuiltInProvider, WorkflowParam, WorkflowParamValues } from '../app/types/workflow';
+import { CustomProvider } from '../app/utils/customProviders';
+import { ProviderLimitSettings } from '../app/utils/requestScheduler';
+import { PriceTable } from '../app/utils/pricing';
+import { RunBudget } from '../app/utils/budget';
+import { getDefaultValues } from '../app/utils/workflowParams';
+import { buildWorkflowExport, parseWorkflowFile } from '../app/utils/workflowExport';
+import { createServerAccess, parseRunRequest } from '../app/api/workflows/serverRuns';
+import {
+  AgentStatus,
+  INITIAL_RUN_STATE,
+  RunStateUpdate,
+  applyRunStateUpdate,
+  executeWorkflow,
+  getPreservedResults
+} from '../app/utils/workflowEngine';
+
+const USAGE = `Usage: agent-link run <workflow.json> [options]
+
+Runs a workflow file exported from the editor, or a file holding just
+"modules" and "params", and prints the final agent's output.
+
+Options:
+  --input key=value    Set a workflow input; repeat for each input. Use
+                       key=@path to read the value from a file. A workflow
+                       without inputs takes its text directly: --input "text"
+  --from-agent <name>  Start from this agent, by title or 1-based position,
+                       keeping the exported results of the agents before it
+  --config <path>      Read API keys, custom providers and request limits
+                       from this file
+                       (default: ./agent-link.config.json, then ~/.agent-link.json)
+  --max-tokens <n>     Stop before any call that would take the run over
+                       this many tokens
+  --max-cost <dollars> Stop before any call that could take the run over
+                       this cost, priced from the price table
+  --output <path>      Write the run to an export file
+  --json               Print the export instead of the final output
+  --verbose            Log each request made to the providers
+  -h, --help           Show this help
+
+API keys come from ANTHROPIC_API_KEY, OPENAI_API_KEY and GOOGLE_API_KEY,
+then from "apiKeys" in the config file. "limits" sets the most requests
+in flight and per minute for each provider, e.g.
+{"anthropic": {"maxConcurrent": 2, "requestsPerMinute": 50}}. "prices"
+sets the dollars per million tokens of a model or custom provider, e.g.
+{"gpt-4o": {"input": 2.5, "output": 10}}.
+
+Exit codes: 0 completed, 1 an agent failed, 2 bad arguments or workflow,
+130 interrupted.`;
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_CANCELLED = 130;
+
+const ENV_API_KEYS: Record<BuiltInProvider, string | undefined> = {
+  anthropic: process.env.ANTHROPIC_API_KEY,
+  openai: process.env.OPENAI_API_KEY,
+  google: process.env.GOOGLE_API_KEY
+};
+
+// Progress and errors go to stderr, leaving stdout for the result
+const report = (line: string) => process.stderr.write(`${line}\n`);
+
+// Thrown for mistakes in the command line, workflow file or config
+class UsageError extends Error {}
+
+interface CliOptions {
+  workflowPath: string;
+  inputs: string[];
+  fromAgent?: string;
+  configPath?: string;
+  outputPath?: string;
+  budget: RunBudget;
+  json: boolean;
+  verbose: boolean;
+}
+
+interface CliConfig {
+  apiKeys?: Partial<Record<BuiltInProvider, string>>;
+  customProviders?: CustomProvider[];
+  limits?: ProviderLimitSettings;
+  prices?: PriceTable;
+}
+
+function parseArgs(args: string[]): CliOptions | null {
+  const [command, ...rest] = args;
+  if (!command || command === '-h' || command === '--help') return null;
+  if (command !== 'run') {
+    throw new UsageError(`Unknown command "${command}"`);
+  }
+
+  const options: CliOptions = { workflowPath: '', inputs: [], budget: {}, json: false, verbose: false };
+  const valueOf = (flag: string, index: number) => {
+    const value = rest[index + 1];
+    if (value === undefined) throw new UsageError(`${flag} needs a value`);
+    return value;
+  };
+  const positiveNumberOf = (flag: string, index: number) => {
+    const value = Number(valueOf(flag, index));
+    if (!(value > 0)) throw new UsageError(`${flag} needs a number above 0`);
+    return value;
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    switch (arg) {
+      case '-h':
+      case '--help':
+        return null;
+      case '--input':
+        options.inputs.push(valueOf(arg, i++));
+        break;
+      case '--from-agent':
+        options.fromAgent = valueOf(arg, i++);
+        break;
+      case '--config':
+        options.configPath = valueOf(arg, i++);
+        break;
+      case '--output':
+        options.outputPath = valueOf(arg, i++);
+        break;
+      case '--max-tokens':
+        options.budget.maxTokens = positiveNumberOf(arg, i++);
+        break;
+      case '--max-cost':
+        options.budget.maxCost = positiveNumberOf(arg, i++);
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--verbose':
+        options.verbose = true;
+        break;
+      default:
+        if (arg.startsWith('-') || options.workflowPath) {
+          throw new UsageError(`Unexpected argument "${arg}"`);
+        }
+        options.workflowPath = arg;
+    }
+  }
+
+  if (!options.workflowPath) {
+    throw new UsageError('Give the workflow file to run');
+  }
+  return options;
+}
+
+function readFile(path: string, description: string): string {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Could not read ${description} ${path}: ${(error as Error).message}`);
+  }
+}
+
+function loadConfig(path?: string): CliConfig {
+  const candidates = path ? [path] : ['agent-link.config.json', join(homedir(), '.agent-link.json')];
+  const found = candidates.find(candidate => path || existsSync(candidate));
+  if (!found) return {};
+
+  try {
+    return JSON.parse(readFile(found, 'config file'));
+  } catch (error) {
+    if (error instanceof UsageError) throw error;
+    throw new UsageError(`Config file ${found} is not valid JSON`);
+  }
+}
+
+/**
+ * Turn the --input flags into parameter values, starting from each
+ * parameter's default
+ */
+function parseInputs(params: WorkflowParam[], inputs: string[]): WorkflowParamValues {
+  const values = getDefaultValues(params);
+  inputs.forEach(input => {
+    const separator = input.indexOf('=');
+    if (separator < 1) {
+      throw new UsageError(`--input "${input}" should look like key=value`);
+    }
+
+    const name = input.slice(0, separator);
+    const param = params.find(p => p.name === name);
+    if (!param) {
+      throw new UsageError(`Unknown input "${name}". This workflow takes: ${params.map(p => p.name).join(', ')}`);
+    }
+
+    let value = input.slice(separator + 1);
+    if (value.startsWith('@')) value = readFile(value.slice(1), 'input file');
+    values[name] = param.type === 'number' && value !== '' ? Number(value) : value;
+  });
+  return values;
+}
+
+// Find an agent by title, ignoring case, or by its 1-based position
+function findAgentIndex(titles: string[], name: string): number {
+  const byTitle = titles.findIndex(title => title.toLowerCase() === name.toLowerCase());
+  if (byTitle >= 0) return byTitle;
+
+  const position = Number(name);
+  if (Number.isInteger(position) && position >= 1 && position <= titles.length) return position - 1;
+  throw new UsageError(`No agent "${name}". Agents: ${titles.join(', ')}`);
+}
+
+// One line per change worth reporting in an agent's status
+function describeStatusChange(title: string, previous: AgentStatus | undefined, status: AgentStatus): string | null {
+  const iteration = status.iteration !== undefined ? ` (iteration ${status.iteration + 1})` : '';
+  if (status.error && status.error !== previous?.error) return `✗ ${title}${iteration}: ${status.error}`;
+  if (status.isSkipped && !previous?.isSkipped) return `- ${title} skipped`;
+  if (status.retryReason && status.retryReason !== previous?.retryReason) {
+    return `↻ ${title}: attempt ${status.attempt}/${status.maxAttempts}. ${status.retryReason}`;
+  }
+  if (status.queuedBehind !== undefined && previous?.queuedBehind === undefined) {
+    const wait = status.queueWaitMs ? `, ${(status.queueWaitMs / 1000).toFixed(1)}s until the rate limit allows more` : '';
+    return `⏸ ${title}: queued behind ${status.queuedBehind} request${status.queuedBehind === 1 ? '' : 's'}${wait}`;
+  }
+  if (status.isComplete && !previous?.isComplete) {
+    const time = status.executionTime !== undefined ? ` (${(status.executionTime / 1000).toFixed(1)}s)` : '';
+    return `✓ ${title}${iteration}${time}`;
+  }
+  if (status.isExecuting && !previous?.isExecuting) return `… ${title}${iteration}`;
+  return null;
+}
+
+async function run(options: CliOptions): Promise<number> {
+  let file: ReturnType<typeof parseWorkflowFile>;
+  try {
+    file = parseWorkflowFile(readFile(options.workflowPath, 'workflow file'));
+  } catch (error) {
+    if (error instanceof UsageError) throw error;
+    throw new UsageError(`${options.workflowPath}: ${(error as Error).message}`);
+  }
+  const config = loadConfig(options.configPath);
+  const titles = file.modules.map(m => m.title);
+
+  let startIndex = 0;
+  if (options.fromAgent) {
+    startIndex = findAgentIndex(titles, options.fromAgent);
+    if (startIndex > 0 && !file.run?.results.length) {
+      throw new UsageError('--from-agent needs an export file with the results of an earlier run');
+    }
+  }
+
+  // Like "Retry from failed", --from-agent reuses the earlier run's input
+  // unless new inputs are given
+  const reuseInput = options.fromAgent && options.inputs.length === 0 && file.run;
+  let prepared: ReturnType<typeof parseRunRequest>;
+  try {
+    prepared = parseRunRequest({
+      modules: file.modules,
+      params: file.params,
+      ...(reuseInput
+        ? { inputs: file.run!.input.values, input: file.run!.input.text }
+        : file.params.length > 0
+          ? { inputs: parseInputs(file.params, options.inputs) }
+          : { input: options.inputs.join('\n') })
+    });
+  } catch (error) {
+    if (error instanceof UsageError) throw error;
+    throw new UsageError((error as Error).message);
+  }
+  const { modules, input } = prepared;
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    report('Stopping workflow…');
+    controller.abort();
+  });
+
+  let state = INITIAL_RUN_STATE;
+  const update = (change: RunStateUpdate) => {
+    const previous = state.agentStatus;
+    state = applyRunStateUpdate(state, change);
+    if (state.agentStatus === previous) return;
+    modules.forEach(module => {
+      const status = state.agentStatus[module.id];
+      if (!status || status === previous[module.id]) return;
+      const line = describeStatusChange(module.title, previous[module.id], status);
+      if (line) report(line);
+    });
+  };
+
+  const outcome = await executeWorkflow(modules, {
+    input,
+    startIndex,
+    preserved: getPreservedResults(modules, startIndex, file.run?.results || []),
+    signal: controller.signal,
+    update,
+    access: createServerAccess({ ...config.apiKeys, ...definedKeys(ENV_API_KEYS) }, config.customProviders, config.limits, config.prices),
+    budget: options.budget
+  });
+
+  const exportData = buildWorkflowExport(modules, file.params, {
+    input: input.text,
+    inputValues: input.values,
+    results: outcome.results
+  });
+  if (options.outputPath) {
+    writeFileSync(options.outputPath, JSON.stringify(exportData, null, 2));
+    report(`Wrote ${options.outputPath}`);
+  }
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(exportData, null, 2)}\n`);
+  } else if (outcome.status === 'completed' && outcome.results.length > 0) {
+    process.stdout.write(`${outcome.results[outcome.results.length - 1].output}\n`);
+  }
+
+  if (outcome.status === 'cancelled') return EXIT_CANCELLED;
+  if (outcome.error) {
+    const failedTitle = titles[outcome.error.failedAgentIndex];
+    report(`Workflow failed${failedTitle ? ` at ${failedTitle}` : ''}: ${outcome.error.message}`);
+    if (failedTitle && options.outputPath) {
+      report(`Retry with: agent-link run ${options.outputPath} --from-agent "${failedTitle}"`);
+    }
+    return EXIT_FAILED;
+  }
+  return 0;
+}
+
+function definedKeys<T extends Record<string, string | undefined>>(keys: T): Partial<Record<keyof T, string>> {
+  return Object.fromEntries(Object.entries(keys).filter(([, value]) => value)) as Partial<Record<keyof T, string>>;
+}
+
+async function main() {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    if (!options) {
+      process.stdout.write(`${USAGE}\n`);
+      return 0;
+    }
+
+    // The executor and provider routes log as they go; that detail is only
+    // shown with --verbose
+    const log = options.verbose ? console.error : () => {};
+    console.log = log;
+    console.warn = log;
+    console.error = log;
+    return await run(options);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      report(`agent-link: ${error.message}`);
+      report('Run "agent-link --help" for usage.');
+      return EXIT_USAGE;
+    }
+    throw error;
+  }
+}
+
+main().then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    report(error instanceof Error ? error.stack || error.message : String(error));
+    process.exitCode = EXIT_FAILED;
+  }
+);
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts. The scheduler needs Node APIs, so it
+ * isn't started in the edge runtime.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('./app/api/schedules/scheduler');
+    startScheduler();
+  }
+}